@@ -0,0 +1,244 @@
+import { config } from './config/env';
+import { logger } from './utils/logger';
+import {
+  formatEEWDetectionMessage,
+  formatAreapeersMessage,
+  formatUserquakeAlert,
+  formatEEWDetectionText,
+  formatAreapeersText,
+  formatUserquakeText,
+} from './utils/formatter';
+import { getMaxPredictedIntensity } from './utils/intensity';
+import { selectRoutesByCode } from './utils/routing';
+import { getEvaluationAlert, UserquakeAggregator } from './utils/userquake';
+import type { UserquakeAlert } from './utils/userquake';
+import { SlackService } from './services/slack';
+import { DryRunSlackService } from './services/dryRun';
+import { DeliveryError, P2PQuakeService } from './services/p2pquake';
+import type { EventContext } from './services/p2pquake';
+import { EventStore } from './services/eventStore';
+import {
+  assertDelivered,
+  classifyNotifierError,
+  createNotifier,
+  fanOut,
+  selectUndelivered,
+  SlackNotifier,
+} from './notifiers';
+import type { Notifier } from './notifiers';
+
+/**
+ * Deliver an event to every notifier, isolating failures per notifier
+ *
+ * A retried event only goes to the notifiers that failed. Throws a
+ * DeliveryError naming the notifiers that failed and may succeed when
+ * retried, if any; permanent failures are only logged.
+ */
+async function notifyAll(
+  notifiers: Notifier[],
+  label: string,
+  { targets }: EventContext,
+  notify: (notifier: Notifier) => Promise<void>
+): Promise<void> {
+  const selected = notifiers.filter((notifier) => !targets || targets.includes(notifier.name));
+  const results = await Promise.allSettled(selected.map((notifier) => notify(notifier)));
+
+  const failed: string[] = [];
+  results.forEach((result, index) => {
+    if (result.status === 'rejected') {
+      const { retryable } = classifyNotifierError(result.reason);
+      if (retryable) {
+        failed.push(selected[index].name);
+      }
+      logger.error(
+        `Failed to process ${label} for notifier ${selected[index].name}${retryable ? '' : ', not retried'}`,
+        result.reason instanceof Error ? result.reason : new Error(String(result.reason))
+      );
+    }
+  });
+
+  if (failed.length > 0) {
+    throw new DeliveryError(`Failed to deliver ${label}`, failed);
+  }
+}
+
+export interface App {
+  eventStore: EventStore;
+  slackService: SlackService;
+  p2pquakeService: P2PQuakeService;
+  slackNotifier: SlackNotifier;
+  // Slack followed by the NOTIFIERS backends
+  notifiers: Notifier[];
+}
+
+export interface AppOptions {
+  // Overrides EVENT_STORE_PATH (e.g. ':memory:' for a fresh replay)
+  eventStorePath?: string;
+}
+
+/**
+ * Create the services and register the event handlers
+ *
+ * Shared by the live application and offline replay, so both run the same
+ * pipeline.
+ */
+export function createApp(options: AppOptions = {}): App {
+  const eventStore = new EventStore(options.eventStorePath ?? config.eventStorePath);
+  const slackService =
+    config.output === 'slack'
+      ? new SlackService(config.slackBotToken)
+      : new DryRunSlackService(config.output, config.dryRunFormat, config.dryRunDir);
+  const p2pquakeService = new P2PQuakeService(eventStore);
+
+  // Deliveries cut short by the previous run are retried by the history poller
+  const interrupted = eventStore.failInterrupted();
+  if (interrupted > 0) {
+    logger.warn('Events whose delivery was interrupted will be retried', { events: interrupted });
+  }
+
+  // Dry runs must not reach any real destination, so only Slack is simulated
+  if (config.output !== 'slack' && config.notifiers.length > 0) {
+    logger.warn('NOTIFIERS backends are disabled in dry runs', {
+      notifiers: config.notifiers.map((notifier) => notifier.name),
+    });
+  }
+  const slackNotifier = new SlackNotifier(slackService, eventStore);
+  const notifiers: Notifier[] = [
+    slackNotifier,
+    ...(config.output === 'slack' ? config.notifiers.map(createNotifier) : []),
+  ];
+
+  // Register earthquake information handler (Code 551)
+  p2pquakeService.onQuake(async (quake, context) => {
+    logger.info('Earthquake information received', {
+      maxIntensity: quake.earthquake.maxScale,
+      time: quake.earthquake.time,
+      location: quake.earthquake.hypocenter?.name,
+      late: context.late,
+    });
+
+    await notifyAll(notifiers, 'earthquake information', context, (notifier) =>
+      notifier.notifyQuake(quake, { late: context.late })
+    );
+  });
+
+  // Register tsunami information handler (Code 552)
+  p2pquakeService.onTsunami(async (tsunami, context) => {
+    logger.info('Tsunami information received', {
+      cancelled: tsunami.cancelled,
+      time: tsunami.time,
+      areas: tsunami.areas?.length || 0,
+      late: context.late,
+    });
+
+    await notifyAll(notifiers, 'tsunami information', context, (notifier) =>
+      notifier.notifyTsunami(tsunami, { late: context.late })
+    );
+  });
+
+  // Register EEW handler (Code 556)
+  p2pquakeService.onEEW(async (eew, context) => {
+    logger.info('EEW information received', {
+      cancelled: eew.cancelled,
+      test: eew.test,
+      maxIntensity: getMaxPredictedIntensity(eew),
+      serial: eew.issue.serial,
+      late: context.late,
+    });
+
+    await notifyAll(notifiers, 'EEW information', context, (notifier) =>
+      notifier.notifyEEW(eew, { late: context.late })
+    );
+  });
+
+  // Register EEW broadcast detection handler (Code 554)
+  p2pquakeService.onEEWDetection(async (detection) => {
+    logger.info('EEW broadcast detection received', { type: detection.type, time: detection.time });
+
+    const routes = selectUndelivered(
+      eventStore,
+      detection.id,
+      selectRoutesByCode(config.routes, 554)
+    );
+    const result = await fanOut(routes, async ({ route }) => {
+      const blocks = formatEEWDetectionMessage(detection, { locales: route.locales });
+      const ts = await slackService.sendMessage(route.channelId, blocks, {
+        priority: 'high',
+        text: formatEEWDetectionText(detection, route.locales),
+      });
+      eventStore.recordDelivery(detection.id, route.channelId, ts);
+    });
+
+    logger.info('EEW broadcast detection notification sent', { delivered: result.delivered });
+    assertDelivered('EEW broadcast detection', result);
+  });
+
+  // Register peer count handler (Code 555)
+  p2pquakeService.onAreapeers(async (areapeers) => {
+    await fanOut(selectRoutesByCode(config.routes, 555), ({ route }) =>
+      slackService.sendMessage(
+        route.channelId,
+        formatAreapeersMessage(areapeers, { locales: route.locales }),
+        { text: formatAreapeersText(areapeers, route.locales) }
+      )
+    );
+  });
+
+  // User reports (Code 561) and their evaluations (Code 9611) are aggregated
+  // into a single heads-up once they are convincing enough
+  const userquakeAggregator = new UserquakeAggregator({
+    windowMs: config.userquakeWindow * 1000,
+    minConfidence: config.userquakeMinConfidence,
+    minReports: config.userquakeMinReports,
+  });
+
+  const sendUserquakeAlert = async (eventId: string, alert: UserquakeAlert) => {
+    logger.info('User reports crossed the alert threshold', {
+      source: alert.source,
+      count: alert.count,
+      confidence: alert.confidence,
+    });
+
+    const routes = selectUndelivered(
+      eventStore,
+      eventId,
+      selectRoutesByCode(config.routes, alert.source)
+    );
+    const result = await fanOut(routes, async ({ route }) => {
+      const blocks = formatUserquakeAlert(alert, { locales: route.locales });
+      const ts = await slackService.sendMessage(route.channelId, blocks, {
+        priority: 'high',
+        text: formatUserquakeText(alert, route.locales),
+      });
+      eventStore.recordDelivery(eventId, route.channelId, ts);
+    });
+
+    logger.info('User report alert sent', { delivered: result.delivered });
+    assertDelivered('user report alert', result);
+  };
+
+  p2pquakeService.onUserquake(async (report) => {
+    const alert = userquakeAggregator.addReport(report);
+    if (alert) {
+      await sendUserquakeAlert(report.id, alert);
+    }
+  });
+
+  p2pquakeService.onUserquakeEvaluation(async (evaluation, context) => {
+    // Without a route taking evaluations, they only gate the report alerts
+    if (!config.eventCodes.includes(9611)) {
+      userquakeAggregator.noteEvaluation(evaluation);
+      return;
+    }
+
+    // The aggregator announces each burst once, so a retry rebuilds the alert
+    const alert = context.retry
+      ? getEvaluationAlert(evaluation)
+      : userquakeAggregator.addEvaluation(evaluation);
+    if (alert) {
+      await sendUserquakeAlert(evaluation.id, alert);
+    }
+  });
+
+  return { eventStore, slackService, p2pquakeService, slackNotifier, notifiers };
+}
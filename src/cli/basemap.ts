@@ -0,0 +1,153 @@
+import { parseArgs } from 'node:util';
+import { PREFECTURE_NAMES } from '../map/basemap';
+import type { Ring } from '../map/basemap';
+import { logger } from '../utils/logger';
+
+const USAGE = `Usage: bun run basemap <admin1.geojson> [options]
+
+Convert the Natural Earth "Admin 1 - States, Provinces" GeoJSON (public domain,
+https://www.naturalearthdata.com/downloads/10m-cultural-vectors/) into the
+simplified prefecture outlines bundled in src/map/prefectures.json.
+
+Prefectures are matched by their ISO 3166-2 code (JP-01 to JP-47).
+
+Options:
+  --tolerance <deg>   Douglas-Peucker simplification tolerance in degrees (default: 0.01)
+  --min-area <deg2>   drop islands smaller than this, in square degrees (default: 0.002)
+  --out <file>        output file (default: src/map/prefectures.json)
+  --help              show this help`;
+
+interface Admin1Feature {
+  properties: { iso_3166_2?: string };
+  geometry:
+    | { type: 'Polygon'; coordinates: Ring[] }
+    | { type: 'MultiPolygon'; coordinates: Ring[][] };
+}
+
+// Decimals kept in the coordinates, about 100 m
+const PRECISION = 3;
+
+/**
+ * Distance from a point to the segment [a, b], in degrees
+ */
+function segmentDistance([x, y]: Ring[number], [x1, y1]: Ring[number], [x2, y2]: Ring[number]) {
+  const dx = x2 - x1;
+  const dy = y2 - y1;
+  const t =
+    dx === 0 && dy === 0
+      ? 0
+      : Math.max(0, Math.min(1, ((x - x1) * dx + (y - y1) * dy) / (dx * dx + dy * dy)));
+  return Math.hypot(x - (x1 + t * dx), y - (y1 + t * dy));
+}
+
+/**
+ * Douglas-Peucker simplification of a polyline, keeping its end points
+ */
+function simplify(points: Ring, tolerance: number): Ring {
+  if (points.length <= 2) {
+    return points;
+  }
+
+  let farthest = 0;
+  let distance = 0;
+  for (let i = 1; i < points.length - 1; i++) {
+    const d = segmentDistance(points[i], points[0], points[points.length - 1]);
+    if (d > distance) {
+      farthest = i;
+      distance = d;
+    }
+  }
+
+  if (distance <= tolerance) {
+    return [points[0], points[points.length - 1]];
+  }
+  return [
+    ...simplify(points.slice(0, farthest + 1), tolerance).slice(0, -1),
+    ...simplify(points.slice(farthest), tolerance),
+  ];
+}
+
+/**
+ * Area of a ring by the shoelace formula, in square degrees
+ */
+function ringArea(ring: Ring): number {
+  const sum = ring.reduce((total, [x1, y1], i) => {
+    const [x2, y2] = ring[(i + 1) % ring.length];
+    return total + x1 * y2 - x2 * y1;
+  }, 0);
+  return Math.abs(sum) / 2;
+}
+
+/**
+ * Simplified outer rings of a prefecture, without the closing point of GeoJSON rings
+ *
+ * Holes are left out: the map fills every ring with the land color.
+ */
+function convertGeometry(
+  geometry: Admin1Feature['geometry'],
+  tolerance: number,
+  minArea: number
+): Ring[] {
+  const polygons = geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+  const round = (value: number) => Number(value.toFixed(PRECISION));
+
+  return polygons
+    .map(([outer]) => simplify(outer, tolerance).slice(0, -1))
+    .filter((ring) => ring.length >= 3 && ringArea(ring) >= minArea)
+    .map((ring) =>
+      ring.map(([longitude, latitude]): Ring[number] => [round(longitude), round(latitude)])
+    );
+}
+
+/**
+ * Build the bundled prefecture outlines from Natural Earth data
+ */
+async function main() {
+  const { values, positionals } = parseArgs({
+    args: Bun.argv.slice(2),
+    allowPositionals: true,
+    options: {
+      tolerance: { type: 'string', default: '0.01' },
+      'min-area': { type: 'string', default: '0.002' },
+      out: { type: 'string', default: 'src/map/prefectures.json' },
+      help: { type: 'boolean', default: false },
+    },
+  });
+
+  if (values.help || positionals.length !== 1) {
+    console.log(USAGE);
+    process.exit(values.help ? 0 : 1);
+  }
+
+  const tolerance = Number(values.tolerance);
+  const minArea = Number(values['min-area']);
+  const { features } = (await Bun.file(positionals[0]).json()) as { features: Admin1Feature[] };
+
+  const prefectures: Record<string, Ring[]> = {};
+  features.forEach((feature) => {
+    const code = feature.properties.iso_3166_2?.match(/^JP-(\d{2})$/);
+    const name = code && PREFECTURE_NAMES[Number(code[1]) - 1];
+    if (name) {
+      prefectures[name] = convertGeometry(feature.geometry, tolerance, minArea);
+    }
+  });
+
+  const missing = PREFECTURE_NAMES.filter((name) => !prefectures[name]);
+  if (missing.length > 0) {
+    throw new Error(`No outline for ${missing.join(', ')}`);
+  }
+
+  await Bun.write(values.out, `${JSON.stringify(prefectures)}\n`);
+  const points = Object.values(prefectures)
+    .flat()
+    .reduce((total, ring) => total + ring.length, 0);
+  console.log(`Wrote ${PREFECTURE_NAMES.length} prefectures (${points} points) to ${values.out}`);
+}
+
+main().catch((error) => {
+  logger.error(
+    'Basemap conversion failed',
+    error instanceof Error ? error : new Error(String(error))
+  );
+  process.exit(1);
+});
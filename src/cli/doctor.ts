@@ -0,0 +1,77 @@
+import { parseArgs } from 'node:util';
+import { config } from '../config/env';
+import { logger } from '../utils/logger';
+import { loadPayloads } from '../utils/replay';
+import { createSlackClient } from '../services/slack';
+import { SlackDoctor } from '../services/doctor';
+import type { CheckStatus } from '../services/doctor';
+
+const USAGE = `Usage: bun run doctor [options]
+
+Check the Slack setup before going live: the token (auth.test), its scopes,
+the bot's membership of every configured channel and the message images under
+GITHUB_IMAGE_BASE_URL. Exits with status 1 when a check fails.
+
+Set SLACK_API_URL to run the checks against a local Slack API stand-in.
+
+Options:
+  --post-samples    also post, then delete, a sample message of each event type
+                    in every route channel
+  --samples <file>  payloads of the sample messages (default: examples/payloads/sample.jsonl)
+  --help            show this help`;
+
+const STATUS_LABELS: Record<CheckStatus, string> = {
+  pass: 'PASS',
+  warn: 'WARN',
+  fail: 'FAIL',
+  skip: 'SKIP',
+};
+
+/**
+ * Run the preflight checks and print a pass/fail report
+ */
+async function main() {
+  const { values } = parseArgs({
+    args: Bun.argv.slice(2),
+    options: {
+      'post-samples': { type: 'boolean', default: false },
+      samples: { type: 'string', default: 'examples/payloads/sample.jsonl' },
+      help: { type: 'boolean', default: false },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    process.exit(0);
+  }
+
+  if (config.routes.length === 0) {
+    console.log('Slack is disabled (only NOTIFIERS backends are set); nothing to check.');
+    return;
+  }
+
+  const doctor = new SlackDoctor(createSlackClient(config.slackBotToken), {
+    samples: values['post-samples'] ? await loadPayloads([values.samples]) : undefined,
+    imageTimeoutMs: 10_000,
+  });
+  const results = await doctor.run();
+
+  results.forEach((result) => {
+    console.log(`${STATUS_LABELS[result.status]}  ${result.name}: ${result.detail}`);
+    if (result.hint && result.status !== 'pass') {
+      console.log(`      -> ${result.hint}`);
+    }
+  });
+
+  const count = (status: CheckStatus) => results.filter((result) => result.status === status);
+  const failed = count('fail').length;
+  console.log(
+    `\n${count('pass').length} passed, ${count('warn').length} warnings, ${failed} failed`
+  );
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main().catch((error) => {
+  logger.error('Doctor failed', error instanceof Error ? error : new Error(String(error)));
+  process.exit(1);
+});
@@ -0,0 +1,138 @@
+import { parseArgs } from 'node:util';
+import type { ServerWebSocket } from 'bun';
+import type { EEW } from 'p2pquake-client';
+import { logger } from '../utils/logger';
+import { loadPayloads, parseSpeed, replayPayloads } from '../utils/replay';
+import { formatEventTime } from '../utils/time';
+import type { SupportedPayload } from '../services/p2pquake';
+
+const USAGE = `Usage: bun run mock-server [options] <file...>
+
+Serve recorded P2PQuake payloads over a local WebSocket that speaks the
+P2PQuake protocol (one JSON payload per text message). Point the bot at it with
+P2PQUAKE_WS_URL=ws://localhost:<port>. Payloads already broadcast are also
+served by GET /history, for P2PQUAKE_API_URL=http://localhost:<port>.
+
+Options:
+  --port <number>  port to listen on (default: 6789)
+  --speed <value>  realtime, instant or an acceleration factor (default: realtime)
+  --loop           start over after the last payload, with new IDs and times
+  --help           show this help`;
+
+// Payloads kept for GET /history, the most the P2PQuake API returns
+const MAX_HISTORY = 100;
+
+/**
+ * Copy of a payload for a later pass of --loop, with new IDs and the current time
+ *
+ * The bot drops event IDs it has already delivered and threads EEW by event
+ * ID, so a pass reusing them would post nothing or update the last pass.
+ */
+function restamp(payload: SupportedPayload, pass: number): SupportedPayload {
+  const copy = structuredClone(payload);
+  copy.id = `${payload.id}-${pass}`;
+  copy.time = formatEventTime(Date.now());
+  if (copy.code === 556) {
+    const eew = copy as EEW;
+    eew.issue = { ...eew.issue, eventId: `${eew.issue.eventId}-${pass}` };
+  }
+  return copy;
+}
+
+/**
+ * Answer a history request like the P2PQuake REST API: newest first, filtered
+ * by the `codes` and `limit` query parameters
+ */
+function getHistory(history: SupportedPayload[], params: URLSearchParams): SupportedPayload[] {
+  const codes = params.getAll('codes').map(Number);
+  const limit = Number(params.get('limit') ?? 10);
+
+  return history
+    .filter((payload) => codes.length === 0 || codes.includes(payload.code))
+    .slice(0, limit);
+}
+
+/**
+ * Local stand-in for the P2PQuake WebSocket and REST APIs
+ */
+async function main() {
+  const { values, positionals } = parseArgs({
+    args: Bun.argv.slice(2),
+    options: {
+      port: { type: 'string', default: '6789' },
+      speed: { type: 'string', default: 'realtime' },
+      loop: { type: 'boolean', default: false },
+      help: { type: 'boolean', default: false },
+    },
+    allowPositionals: true,
+  });
+
+  if (values.help || positionals.length === 0) {
+    console.log(USAGE);
+    process.exit(values.help ? 0 : 1);
+  }
+
+  const speed = parseSpeed(values.speed);
+  const payloads = await loadPayloads(positionals);
+  const clients = new Set<ServerWebSocket<unknown>>();
+  const history: SupportedPayload[] = [];
+
+  const server = Bun.serve({
+    port: Number(values.port),
+    fetch(request, server) {
+      const url = new URL(request.url);
+      if (url.pathname.endsWith('/history')) {
+        return Response.json(getHistory(history, url.searchParams));
+      }
+
+      if (server.upgrade(request)) {
+        return undefined;
+      }
+      return new Response('P2PQuake mock server: connect with WebSocket', { status: 426 });
+    },
+    websocket: {
+      open(ws) {
+        clients.add(ws);
+        logger.info('Client connected', { clients: clients.size });
+      },
+      close(ws) {
+        clients.delete(ws);
+        logger.info('Client disconnected', { clients: clients.size });
+      },
+      message() {
+        // P2PQuake does not expect messages from clients
+      },
+    },
+  });
+
+  logger.info('Mock P2PQuake server listening', {
+    url: `ws://localhost:${server.port}`,
+    events: payloads.length,
+  });
+
+  // Wait for the first client so that no payload is broadcast to nobody
+  while (clients.size === 0) {
+    await Bun.sleep(100);
+  }
+
+  for (let pass = 0; pass === 0 || values.loop; pass++) {
+    await replayPayloads(payloads, speed, (recorded) => {
+      const payload = pass === 0 ? recorded : restamp(recorded, pass);
+      logger.info('Broadcasting event', { code: payload.code, id: payload.id, time: payload.time });
+      const message = JSON.stringify(payload);
+      clients.forEach((client) => client.send(message));
+      history.unshift(payload);
+      history.length = Math.min(history.length, MAX_HISTORY);
+    });
+
+    // Let the server handle requests between passes, which --speed instant never waits for
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  }
+
+  logger.info('All payloads sent; press Ctrl+C to stop');
+}
+
+main().catch((error) => {
+  logger.error('Mock server failed', error instanceof Error ? error : new Error(String(error)));
+  process.exit(1);
+});
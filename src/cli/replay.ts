@@ -0,0 +1,59 @@
+import { parseArgs } from 'node:util';
+import { logger } from '../utils/logger';
+import { loadPayloads, parseSpeed, replayPayloads } from '../utils/replay';
+import { createApp } from '../app';
+
+const USAGE = `Usage: bun run replay [options] <file...>
+
+Feed recorded P2PQuake payloads (Code 551, 552, 556 and the EXTRA_EVENT_CODES)
+through the notification pipeline. Files may be JSON (a payload or an array of
+payloads) or JSONL.
+
+Options:
+  --speed <value>  realtime, instant or an acceleration factor (default: instant)
+  --fresh          use an in-memory event store, so already processed events are replayed
+  --help           show this help`;
+
+/**
+ * Replay recorded payloads through the same handlers as the live application
+ */
+async function main() {
+  const { values, positionals } = parseArgs({
+    args: Bun.argv.slice(2),
+    options: {
+      speed: { type: 'string', default: 'instant' },
+      fresh: { type: 'boolean', default: false },
+      help: { type: 'boolean', default: false },
+    },
+    allowPositionals: true,
+  });
+
+  if (values.help || positionals.length === 0) {
+    console.log(USAGE);
+    process.exit(values.help ? 0 : 1);
+  }
+
+  const speed = parseSpeed(values.speed);
+  const payloads = await loadPayloads(positionals);
+
+  logger.info('Starting replay', { files: positionals, events: payloads.length, speed });
+
+  const { eventStore, p2pquakeService, notifiers } = createApp({
+    eventStorePath: values.fresh ? ':memory:' : undefined,
+  });
+
+  await replayPayloads(payloads, speed, (payload) => {
+    logger.info('Replaying event', { code: payload.code, time: payload.time });
+    return p2pquakeService.dispatch(payload);
+  });
+
+  await Promise.all(notifiers.map((notifier) => notifier.drain(60_000)));
+  eventStore.close();
+
+  logger.info('Replay finished');
+}
+
+main().catch((error) => {
+  logger.error('Replay failed', error instanceof Error ? error : new Error(String(error)));
+  process.exit(1);
+});
@@ -0,0 +1,88 @@
+import { parseArgs } from 'node:util';
+import { config } from '../config/env';
+import { logger } from '../utils/logger';
+import { formatActivityReport, formatReportText } from '../utils/formatter';
+import { buildActivityReport } from '../utils/report';
+import { EventStore } from '../services/eventStore';
+import { SlackService } from '../services/slack';
+import { DryRunSlackService } from '../services/dryRun';
+
+const USAGE = `Usage: bun run report [options]
+
+Build the seismic activity report of the events recorded in the event store
+(EVENT_STORE_PATH) between two dates, and print its Block Kit JSON.
+
+Options:
+  --from <date>     start of the period, YYYY-MM-DD or YYYY-MM-DDTHH:mm in local
+                    time (default: 24 hours before --to)
+  --to <date>       end of the period, exclusive (default: now)
+  --post            post the report instead of printing it (honors DRY_RUN and OUTPUT)
+  --channel <id>    channel to post to (default: REPORT_CHANNEL_ID)
+  --help            show this help`;
+
+/**
+ * Parse a date of the command line; dates without a time are local midnight
+ */
+function parseDate(value: string, option: string): Date {
+  const date = new Date(/^\d{4}-\d{2}-\d{2}$/.test(value) ? `${value}T00:00` : value);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid ${option} date: ${value}`);
+  }
+  return date;
+}
+
+/**
+ * Generate a seismic activity report for an arbitrary period
+ */
+async function main() {
+  const { values } = parseArgs({
+    args: Bun.argv.slice(2),
+    options: {
+      from: { type: 'string' },
+      to: { type: 'string' },
+      post: { type: 'boolean', default: false },
+      channel: { type: 'string' },
+      help: { type: 'boolean', default: false },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    process.exit(0);
+  }
+
+  const to = values.to ? parseDate(values.to, '--to') : new Date();
+  const from = values.from
+    ? parseDate(values.from, '--from')
+    : new Date(to.getTime() - 24 * 60 * 60 * 1000);
+  if (from >= to) {
+    throw new Error('--from must be before --to');
+  }
+
+  const channelId = values.channel ?? config.reportChannelId;
+  const locales =
+    config.routes.find((route) => route.channelId === channelId)?.locales ?? config.locales;
+
+  const eventStore = new EventStore(config.eventStorePath);
+  const report = buildActivityReport(eventStore, from, to, channelId);
+  eventStore.close();
+
+  const blocks = formatActivityReport(report, { locales });
+  if (!values.post) {
+    console.log(JSON.stringify({ blocks }, null, 2));
+    return;
+  }
+
+  const slackService =
+    config.output === 'slack'
+      ? new SlackService(config.slackBotToken)
+      : new DryRunSlackService(config.output, config.dryRunFormat, config.dryRunDir);
+  await slackService.sendMessage(channelId, blocks, { text: formatReportText(report, locales) });
+
+  logger.info('Activity report posted', { channel: channelId, felt: report.felt.length });
+}
+
+main().catch((error) => {
+  logger.error('Report failed', error instanceof Error ? error : new Error(String(error)));
+  process.exit(1);
+});
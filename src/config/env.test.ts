@@ -0,0 +1,39 @@
+import { afterEach, describe, expect, spyOn, test } from 'bun:test';
+import { config, reloadConfig } from './env';
+
+function loadRoutes(routes: object[]): boolean {
+  process.env.SLACK_ROUTES = JSON.stringify(routes);
+  return reloadConfig();
+}
+
+describe('SLACK_ROUTES', () => {
+  afterEach(() => {
+    delete process.env.SLACK_ROUTES;
+    reloadConfig();
+  });
+
+  test('parses the intensities of each route', () => {
+    expect(loadRoutes([{ channel: 'C0123456789', minIntensity: '4', eewMinIntensity: '5-' }])).toBe(
+      true
+    );
+
+    expect(config.routes[0]).toMatchObject({ minIntensity: 40, eewMinIntensity: 45 });
+  });
+
+  test('reports an invalid intensity with the path of its route', () => {
+    const error = spyOn(console, 'error').mockImplementation(() => {});
+    try {
+      const loaded = loadRoutes([
+        { channel: 'C0123456789' },
+        { channel: 'C9876543210', eewMinIntensity: '5.5' },
+      ]);
+
+      expect(loaded).toBe(false);
+      expect(error.mock.calls.map(([message]) => message)).toContain(
+        '  - SLACK_ROUTES.1.eewMinIntensity: Invalid intensity string: 5.5. Valid values: 1, 2, 3, 4, 5-, 5+, 6-, 6+, 7'
+      );
+    } finally {
+      error.mockRestore();
+    }
+  });
+});
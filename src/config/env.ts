@@ -1,69 +1,803 @@
+import { readFileSync } from 'node:fs';
 import { z } from 'zod';
 import type { SeismicIntensity } from 'p2pquake-client';
 import { parseIntensityString } from '../utils/intensity';
+import { parseCron } from '../utils/cron';
+import { LOCALES } from '../i18n';
+import type { Locale } from '../i18n';
 
-// Zod schema for environment variable validation
-const envSchema = z.object({
-  SLACK_BOT_TOKEN: z
-    .string()
-    .min(1, 'SLACK_BOT_TOKEN is required')
-    .startsWith('xoxb-', 'SLACK_BOT_TOKEN must start with "xoxb-"'),
-  SLACK_CHANNEL_ID: z
-    .string()
-    .min(1, 'SLACK_CHANNEL_ID is required')
-    .regex(/^C[A-Z0-9]{10}$/, 'SLACK_CHANNEL_ID must match format C[A-Z0-9]{10}'),
-  MIN_INTENSITY: z.string().optional().default('3'),
-  NODE_ENV: z.enum(['development', 'production']).optional().default('development'),
-  GITHUB_IMAGE_BASE_URL: z
-    .string()
-    .url()
-    .optional()
-    .default('https://raw.githubusercontent.com/minagishl/slack-quake-alert/main/public'),
+// P2PQuake REST API endpoints (the WebSocket endpoints come from p2pquake-client)
+const P2PQUAKE_API_PRODUCTION = 'https://api.p2pquake.net/v2';
+const P2PQUAKE_API_SANDBOX = 'https://api-v2-sandbox.p2pquake.net/v2';
+
+// Event codes subscribed by default, and the ones that must be enabled with EXTRA_EVENT_CODES
+const DEFAULT_EVENT_CODES = [551, 552, 556] as const;
+
+const extraEventCodeSchema = z.union([
+  z.literal(554),
+  z.literal(555),
+  z.literal(561),
+  z.literal(9611),
+]);
+
+const eventCodeSchema = z.union([
+  z.literal(551),
+  z.literal(552),
+  z.literal(556),
+  extraEventCodeSchema,
+]);
+
+// Comma-separated message languages; more than one posts bilingual messages
+const localeListSchema = z
+  .string()
+  .transform((value) => [...new Set(parseList(value))])
+  .pipe(z.array(z.enum(LOCALES)).nonempty('Must list at least one locale'));
+
+const channelIdSchema = z
+  .string()
+  .regex(/^C[A-Z0-9]{10}$/, 'Channel ID must match format C[A-Z0-9]{10}');
+
+// Cron expression, validated by parsing it
+const cronSchema = z.string().superRefine((value, ctx) => {
+  try {
+    parseCron(value);
+  } catch (error) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: (error as Error).message });
+  }
+});
+
+// Time of day in the process time zone (TZ)
+const TIME_OF_DAY = '([01]?\\d|2[0-3]):[0-5]\\d';
+const timeOfDaySchema = z
+  .string()
+  .regex(new RegExp(`^${TIME_OF_DAY}$`), 'Time must be formatted as HH:MM');
+const timeWindowSchema = z
+  .string()
+  .regex(
+    new RegExp(`^${TIME_OF_DAY}-${TIME_OF_DAY}$`),
+    'Time window must be formatted as HH:MM-HH:MM'
+  );
+
+// Seismic intensity (1, 2, 3, 4, 5-, 5+, 6-, 6+, 7), validated by parsing it
+const intensitySchema = z.string().superRefine((value, ctx) => {
+  try {
+    parseIntensityString(value);
+  } catch (error) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: (error as Error).message });
+  }
 });
 
+const tsunamiGradeSchema = z.enum(['MajorWarning', 'Warning', 'Watch']);
+
+// Zod schema for a single entry of the SLACK_ROUTES routing table
+const routeSchema = z.object({
+  name: z.string().min(1).optional(),
+  channel: channelIdSchema,
+  codes: z.array(eventCodeSchema).nonempty('codes must contain at least one event code').optional(),
+  minIntensity: intensitySchema.optional(),
+  eewMinIntensity: intensitySchema.optional(),
+  regions: z.array(z.string().min(1)).optional().default([]),
+  locale: localeListSchema.optional(),
+});
+
+// Mention targets: @here, @channel, a user group ID (S...) or a user ID (U... / W...)
+const mentionSchema = z
+  .string()
+  .regex(
+    /^(@here|@channel|S[A-Z0-9]+|[UW][A-Z0-9]+)$/,
+    'Mention must be @here, @channel, a user group ID (S...) or a user ID (U... / W...)'
+  );
+
+// Zod schema for a single entry of the ESCALATIONS list
+const escalationSchema = z.object({
+  name: z.string().min(1).optional(),
+  event: z.enum(['quake', 'eew', 'tsunami']),
+  minIntensity: intensitySchema.optional(),
+  grades: z.array(tsunamiGradeSchema).nonempty('grades must contain at least one grade').optional(),
+  mentions: z.array(mentionSchema).nonempty('mentions must contain at least one target'),
+  channels: z.array(channelIdSchema).nonempty().optional(),
+});
+
+// Settings shared by every entry of the NOTIFIERS list
+const notifierBaseSchema = z.object({
+  name: z.string().min(1).optional(),
+  events: z
+    .array(z.enum(['quake', 'tsunami', 'eew']))
+    .nonempty('events must contain at least one event')
+    .optional(),
+  minIntensity: intensitySchema.optional(),
+  eewMinIntensity: intensitySchema.optional(),
+  locale: localeListSchema.optional(),
+});
+
+// Zod schema for a single entry of the NOTIFIERS list, by backend type
+const notifierSchema = z.discriminatedUnion('type', [
+  notifierBaseSchema.extend({
+    type: z.literal('discord'),
+    url: z.string().url(),
+    username: z.string().min(1).optional(),
+  }),
+  notifierBaseSchema.extend({
+    type: z.literal('teams'),
+    url: z.string().url(),
+  }),
+  notifierBaseSchema.extend({
+    type: z.literal('webhook'),
+    url: z.string().url(),
+    secret: z.string().min(1).optional(),
+  }),
+  notifierBaseSchema.extend({
+    type: z.literal('email'),
+    host: z.string().min(1),
+    port: z.number().int().min(1).max(65535).optional(),
+    secure: z.boolean().optional().default(false),
+    username: z.string().min(1).optional(),
+    password: z.string().optional(),
+    from: z.string().email(),
+    to: z.array(z.string().email()).nonempty('to must contain at least one address'),
+  }),
+]);
+
+// Zod schema for a single entry of the SITES list
+const siteSchema = z.object({
+  name: z.string().min(1),
+  latitude: z.number().min(-90).max(90),
+  longitude: z.number().min(-180).max(180),
+  amplification: z.number().positive().optional().default(1),
+});
+
+// Parse a JSON string before validating it with the given schema
+const jsonString = <T extends z.ZodTypeAny>(schema: T) =>
+  z
+    .string()
+    .transform((value, ctx) => {
+      try {
+        return JSON.parse(value) as unknown;
+      } catch {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Must be valid JSON' });
+        return z.NEVER;
+      }
+    })
+    .pipe(schema);
+
+// Zod schema for environment variable validation
+const envSchema = z
+  .object({
+    SLACK_BOT_TOKEN: z
+      .string()
+      .startsWith('xoxb-', 'SLACK_BOT_TOKEN must start with "xoxb-"')
+      .optional(),
+    SLACK_CHANNEL_ID: z
+      .string()
+      .regex(/^C[A-Z0-9]{10}$/, 'SLACK_CHANNEL_ID must match format C[A-Z0-9]{10}')
+      .optional(),
+    SLACK_ROUTES: jsonString(
+      z.array(routeSchema).nonempty('SLACK_ROUTES must not be empty')
+    ).optional(),
+    MIN_INTENSITY: z.string().optional().default('3'),
+    WATCH_REGIONS: z.string().optional(),
+    NODE_ENV: z.enum(['development', 'production']).optional().default('development'),
+    GITHUB_IMAGE_BASE_URL: z
+      .string()
+      .url()
+      .optional()
+      .default('https://raw.githubusercontent.com/minagishl/slack-quake-alert/main/public'),
+    EEW_MATCH_TIME_TOLERANCE: z.coerce.number().positive().optional().default(60),
+    EEW_MATCH_DISTANCE_KM: z.coerce.number().positive().optional().default(50),
+    QUAKE_REPLY_BROADCAST: z.enum(['true', 'false']).optional().default('false'),
+    EVENT_STORE_PATH: z.string().min(1).optional().default('data/events.db'),
+    DELIVERY_MAX_ATTEMPTS: z.coerce.number().int().min(1).optional().default(5),
+    SHUTDOWN_DRAIN_TIMEOUT: z.coerce.number().positive().optional().default(20),
+    P2PQUAKE_WS_URL: z.string().url().optional(),
+    P2PQUAKE_API_URL: z.string().url().optional(),
+    EXTRA_EVENT_CODES: z
+      .string()
+      .optional()
+      .transform((value) => parseList(value).map(Number))
+      .pipe(z.array(extraEventCodeSchema)),
+    USERQUAKE_WINDOW: z.coerce.number().positive().optional().default(60),
+    USERQUAKE_MIN_CONFIDENCE: z.coerce.number().min(0).max(1).optional().default(0.9),
+    USERQUAKE_MIN_REPORTS: z.coerce.number().int().min(1).optional().default(10),
+    HISTORY_POLL_INTERVAL: z.coerce.number().min(0).optional().default(60),
+    HISTORY_MAX_AGE: z.coerce.number().positive().optional().default(60),
+    HISTORY_MAX_ATTEMPTS: z.coerce.number().int().min(1).optional().default(10),
+    DRY_RUN: z.enum(['true', 'false']).optional().default('false'),
+    OUTPUT: z.enum(['slack', 'stdout', 'file']).optional(),
+    DRY_RUN_FORMAT: z.enum(['json', 'url']).optional().default('json'),
+    DRY_RUN_DIR: z.string().min(1).optional().default('output'),
+    SLACK_SIGNING_SECRET: z.string().min(1).optional(),
+    HTTP_PORT: z.coerce.number().int().min(1).max(65535).optional().default(3000),
+    OPS_CHANNEL_ID: channelIdSchema.optional(),
+    OUTAGE_ALERT_MINUTES: z.coerce.number().positive().optional().default(5),
+    STALL_TIMEOUT: z.coerce.number().min(0).optional().default(300),
+    RECONNECT_BASE_DELAY: z.coerce.number().positive().optional().default(1),
+    RECONNECT_MAX_DELAY: z.coerce.number().positive().optional().default(300),
+    LOCALE: localeListSchema.optional().default('ja'),
+    SITES: jsonString(z.array(siteSchema)).optional(),
+    MAP_IMAGES: z.enum(['true', 'false']).optional().default('false'),
+    ESCALATIONS: jsonString(z.array(escalationSchema)).optional(),
+    NOTIFIERS: jsonString(z.array(notifierSchema)).optional(),
+    TEMPLATE_DIR: z.string().min(1).optional(),
+    DIGEST_MIN_INTENSITY: z.string().optional(),
+    DIGEST_INTERVAL: z.coerce.number().positive().max(24).optional().default(6),
+    DIGEST_TIMES: z
+      .string()
+      .optional()
+      .transform((value) => parseList(value))
+      .pipe(z.array(timeOfDaySchema)),
+    QUIET_HOURS: z
+      .string()
+      .optional()
+      .transform((value) => parseList(value))
+      .pipe(z.array(timeWindowSchema)),
+    QUIET_MIN_INTENSITY: z.string().optional().default('5-'),
+    QUIET_TSUNAMI_GRADES: z
+      .string()
+      .optional()
+      .default('MajorWarning,Warning')
+      .transform((value) => parseList(value))
+      .pipe(z.array(tsunamiGradeSchema)),
+    REPORT_SCHEDULE: cronSchema.optional(),
+    REPORT_CHANNEL_ID: channelIdSchema.optional(),
+    CONFIG_FILE: z.string().min(1).optional(),
+    SLACK_API_URL: z.string().url().optional(),
+  })
+  .superRefine((env, ctx) => {
+    env.SLACK_ROUTES?.forEach((route, index) => {
+      route.codes
+        ?.filter((code) => !isDefaultEventCode(code) && !env.EXTRA_EVENT_CODES.includes(code))
+        .forEach((code) => {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ['SLACK_ROUTES', index, 'codes'],
+            message: `Event code ${code} must be enabled in EXTRA_EVENT_CODES`,
+          });
+        });
+    });
+
+    if (env.DRY_RUN === 'true' && env.OUTPUT === 'slack') {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['OUTPUT'],
+        message: 'OUTPUT must be stdout or file when DRY_RUN is true',
+      });
+    }
+
+    // Slack credentials are only needed when actually posting to Slack, and
+    // Slack may be left out entirely when other notifier backends are set
+    if (resolveOutput(env) !== 'slack' || !isSlackConfigured(env)) {
+      return;
+    }
+
+    if (!env.SLACK_BOT_TOKEN) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['SLACK_BOT_TOKEN'],
+        message: 'SLACK_BOT_TOKEN is required',
+      });
+    }
+
+    if (!env.SLACK_CHANNEL_ID && !env.SLACK_ROUTES) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['SLACK_CHANNEL_ID'],
+        message: 'SLACK_CHANNEL_ID is required when SLACK_ROUTES is not set',
+      });
+    }
+
+    if (env.REPORT_SCHEDULE && !env.REPORT_CHANNEL_ID && !env.SLACK_CHANNEL_ID) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['REPORT_CHANNEL_ID'],
+        message: 'REPORT_CHANNEL_ID is required when SLACK_CHANNEL_ID is not set',
+      });
+    }
+  });
+
+export type RouteEventCode = z.infer<typeof eventCodeSchema>;
+
+export type OutputMode = 'slack' | 'stdout' | 'file';
+
+export interface Route {
+  name: string;
+  channelId: string;
+  codes: RouteEventCode[];
+  // Minimum observed intensity for earthquake information (551)
+  minIntensity: SeismicIntensity;
+  // Minimum predicted intensity for EEW (556); every EEW is sent when unset
+  eewMinIntensity?: SeismicIntensity;
+  // Prefectures or municipalities whose intensity is compared instead of the maximum
+  regions: string[];
+  // Languages of the messages posted to the channel
+  locales: Locale[];
+}
+
+export interface Site {
+  name: string;
+  latitude: number;
+  longitude: number;
+  // Ground amplification of peak velocity relative to engineering bedrock
+  amplification: number;
+}
+
+export interface EscalationPolicy {
+  name: string;
+  // Event kind the policy applies to
+  event: 'quake' | 'eew' | 'tsunami';
+  // Minimum observed (quake) or predicted (EEW) intensity; every event matches when unset
+  minIntensity?: SeismicIntensity;
+  // Tsunami grades that trigger the policy; every active tsunami matches when unset
+  grades?: string[];
+  mentions: string[];
+  // Channels the policy is limited to; all channels when unset
+  channels?: string[];
+}
+
+/**
+ * Daily time window, in minutes since midnight; `end` before `start` spans midnight
+ */
+export interface TimeWindow {
+  start: number;
+  end: number;
+}
+
+interface NotifierSettings {
+  name: string;
+  events: ('quake' | 'tsunami' | 'eew')[];
+  // Minimum observed intensity for earthquake information
+  minIntensity: SeismicIntensity;
+  // Minimum predicted intensity for EEW; every EEW is sent when unset
+  eewMinIntensity?: SeismicIntensity;
+  locales: Locale[];
+}
+
+export interface DiscordNotifierConfig extends NotifierSettings {
+  type: 'discord';
+  url: string;
+  username?: string;
+}
+
+export interface TeamsNotifierConfig extends NotifierSettings {
+  type: 'teams';
+  url: string;
+}
+
+export interface WebhookNotifierConfig extends NotifierSettings {
+  type: 'webhook';
+  url: string;
+  // Key of the HMAC-SHA256 request signature; requests are unsigned when unset
+  secret?: string;
+}
+
+export interface EmailNotifierConfig extends NotifierSettings {
+  type: 'email';
+  host: string;
+  port: number;
+  // Connect with TLS from the start (SMTPS) instead of upgrading with STARTTLS
+  secure: boolean;
+  username?: string;
+  password?: string;
+  from: string;
+  to: string[];
+}
+
+/**
+ * Notifier backend delivering alerts outside Slack
+ */
+export type NotifierConfig =
+  | DiscordNotifierConfig
+  | TeamsNotifierConfig
+  | WebhookNotifierConfig
+  | EmailNotifierConfig;
+
 export interface Config {
   slackBotToken: string;
-  slackChannelId: string;
+  output: OutputMode;
+  dryRunFormat: 'json' | 'url';
+  dryRunDir: string;
+  routes: Route[];
   minIntensity: SeismicIntensity;
   nodeEnv: 'development' | 'production';
   githubImageBaseUrl: string;
+  eewMatchTimeTolerance: number;
+  eewMatchDistanceKm: number;
+  quakeReplyBroadcast: boolean;
+  eventStorePath: string;
+  deliveryMaxAttempts: number;
+  shutdownDrainTimeout: number;
+  p2pquakeWsUrl?: string;
+  p2pquakeApiUrl: string;
+  // Event codes subscribed on the WebSocket
+  eventCodes: RouteEventCode[];
+  userquakeWindow: number;
+  userquakeMinConfidence: number;
+  userquakeMinReports: number;
+  historyPollInterval: number;
+  historyMaxAge: number;
+  historyMaxAttempts: number;
+  slackSigningSecret?: string;
+  httpPort: number;
+  opsChannelId?: string;
+  outageAlertMinutes: number;
+  stallTimeout: number;
+  reconnectBaseDelay: number;
+  reconnectMaxDelay: number;
+  // Default message languages, also used for ops and slash command messages
+  locales: Locale[];
+  // Locations for which arrival times and intensity are estimated
+  sites: Site[];
+  // Upload rendered epicenter / intensity maps with earthquake reports and EEWs
+  mapImages: boolean;
+  escalations: EscalationPolicy[];
+  // Backends notified next to Slack
+  notifiers: NotifierConfig[];
+  // Directory of Block Kit message templates replacing the built-in formatters
+  templateDir?: string;
+  // Earthquake information from this intensity up to a route's minimum goes to the digest
+  digestMinIntensity?: SeismicIntensity;
+  // Hours between digests, counted from midnight; ignored when digestTimes is set
+  digestInterval: number;
+  // Times of day (minutes since midnight) at which digests are posted
+  digestTimes: number[];
+  // Windows in which only events at or above the overrides below are posted
+  quietHours: TimeWindow[];
+  quietMinIntensity: SeismicIntensity;
+  quietTsunamiGrades: string[];
+  // Cron expression of the seismic activity reports, each covering the time since the previous one
+  reportSchedule?: string;
+  reportChannelId: string;
+  // YAML or JSON file of settings, reloaded on SIGHUP and when it changes
+  configFile?: string;
+  // Base URL of the Slack Web API, e.g. a local stand-in; ends with a slash
+  slackApiUrl?: string;
 }
 
 /**
- * Load and validate environment variables
+ * Where notifications go: Slack, or a dry-run sink (DRY_RUN alone means stdout)
  */
-function loadConfig(): Readonly<Config> {
+function resolveOutput(env: { DRY_RUN: 'true' | 'false'; OUTPUT?: OutputMode }): OutputMode {
+  return env.OUTPUT ?? (env.DRY_RUN === 'true' ? 'stdout' : 'slack');
+}
+
+/**
+ * Whether any Slack setting is present; without one only the NOTIFIERS backends are used
+ */
+function isSlackConfigured(env: {
+  SLACK_BOT_TOKEN?: string;
+  SLACK_CHANNEL_ID?: string;
+  SLACK_ROUTES?: unknown;
+  NOTIFIERS?: unknown;
+}): boolean {
+  return Boolean(env.SLACK_BOT_TOKEN || env.SLACK_CHANNEL_ID || env.SLACK_ROUTES || !env.NOTIFIERS);
+}
+
+function isDefaultEventCode(code: RouteEventCode): code is (typeof DEFAULT_EVENT_CODES)[number] {
+  return (DEFAULT_EVENT_CODES as readonly number[]).includes(code);
+}
+
+/**
+ * Split a comma-separated environment variable into trimmed, non-empty items
+ */
+function parseList(value: string | undefined): string[] {
+  return (value ?? '')
+    .split(',')
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+}
+
+/**
+ * Convert a time of day (HH:MM) to minutes since midnight
+ */
+function parseTimeOfDay(value: string): number {
+  const [hours, minutes] = value.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Build the routing table from SLACK_ROUTES, or a single route for SLACK_CHANNEL_ID
+ */
+function buildRoutes(env: z.infer<typeof envSchema>, minIntensity: SeismicIntensity): Route[] {
+  // Routes accept every subscribed event code unless they list their own
+  const allCodes: RouteEventCode[] = [...DEFAULT_EVENT_CODES, ...env.EXTRA_EVENT_CODES];
+
+  if (resolveOutput(env) === 'slack' && !isSlackConfigured(env)) {
+    return [];
+  }
+
+  if (!env.SLACK_ROUTES) {
+    return [
+      {
+        name: 'default',
+        // Dry runs may omit the channel; the placeholder only appears in the output
+        channelId: env.SLACK_CHANNEL_ID ?? 'dry-run',
+        codes: allCodes,
+        minIntensity,
+        regions: parseList(env.WATCH_REGIONS),
+        locales: env.LOCALE,
+      },
+    ];
+  }
+
+  return env.SLACK_ROUTES.map((route, index) => ({
+    name: route.name ?? `route-${index + 1}`,
+    channelId: route.channel,
+    codes: route.codes ?? allCodes,
+    minIntensity: route.minIntensity ? parseIntensityString(route.minIntensity) : minIntensity,
+    eewMinIntensity: route.eewMinIntensity
+      ? parseIntensityString(route.eewMinIntensity)
+      : undefined,
+    regions: route.regions,
+    locales: route.locale ?? env.LOCALE,
+  }));
+}
+
+// Secrets and the file location itself are only read from the environment
+const ENV_ONLY_SETTINGS = ['SLACK_BOT_TOKEN', 'SLACK_SIGNING_SECRET', 'NOTIFIERS', 'CONFIG_FILE'];
+
+// CONFIG_FILE settings are keyed by environment variable name; lists and
+// JSON settings may be written as YAML / JSON values instead of strings
+const configFileSchema = z
+  .record(
+    z.union([
+      z.string(),
+      z.number(),
+      z.boolean(),
+      z.null(),
+      z.array(z.unknown()),
+      z.record(z.unknown()),
+    ])
+  )
+  .superRefine((settings, ctx) => {
+    Object.keys(settings).forEach((key) => {
+      if (ENV_ONLY_SETTINGS.includes(key)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [key],
+          message: `${key} can only be set as an environment variable`,
+        });
+      } else if (!(key in envSchema.innerType().shape)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [key],
+          message: 'Unknown setting in CONFIG_FILE',
+        });
+      }
+    });
+  });
+
+/**
+ * Convert a CONFIG_FILE value to the string its environment variable would hold
+ *
+ * Lists of values become comma-separated lists, objects and lists of objects JSON.
+ */
+function toEnvValue(value: z.infer<typeof configFileSchema>[string]): string | undefined {
+  if (value === null) {
+    return undefined;
+  }
+  if (Array.isArray(value) && value.every((item) => typeof item !== 'object' || item === null)) {
+    return value.join(',');
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Read and validate a YAML or JSON settings file
+ */
+function readConfigFile(path: string): Record<string, string | undefined> {
+  let content: unknown;
   try {
-    // Parse and validate environment variables
-    // Handle empty string for NODE_ENV (treat as undefined to use default)
-    const nodeEnv = Bun.env.NODE_ENV?.trim() || undefined;
-    const env = envSchema.parse({
-      SLACK_BOT_TOKEN: Bun.env.SLACK_BOT_TOKEN,
-      SLACK_CHANNEL_ID: Bun.env.SLACK_CHANNEL_ID,
-      MIN_INTENSITY: Bun.env.MIN_INTENSITY,
-      NODE_ENV: nodeEnv,
-      GITHUB_IMAGE_BASE_URL: Bun.env.GITHUB_IMAGE_BASE_URL,
+    const source = readFileSync(path, 'utf8');
+    content = path.endsWith('.json') ? JSON.parse(source) : Bun.YAML.parse(source);
+  } catch (error) {
+    throw new Error(`Failed to read CONFIG_FILE ${path}: ${(error as Error).message}`);
+  }
+
+  const settings = configFileSchema.parse(content ?? {});
+  return Object.fromEntries(
+    Object.entries(settings).map(([key, value]) => [key, toEnvValue(value)])
+  );
+}
+
+/**
+ * Read the settings of the environment; unset variables are left undefined
+ */
+function readEnv(): Record<string, string | undefined> {
+  // Handle empty string for NODE_ENV (treat as undefined to use default)
+  const nodeEnv = Bun.env.NODE_ENV?.trim() || undefined;
+  return {
+    SLACK_BOT_TOKEN: Bun.env.SLACK_BOT_TOKEN || undefined,
+    SLACK_CHANNEL_ID: Bun.env.SLACK_CHANNEL_ID || undefined,
+    SLACK_ROUTES: Bun.env.SLACK_ROUTES?.trim() || undefined,
+    MIN_INTENSITY: Bun.env.MIN_INTENSITY,
+    WATCH_REGIONS: Bun.env.WATCH_REGIONS,
+    NODE_ENV: nodeEnv,
+    GITHUB_IMAGE_BASE_URL: Bun.env.GITHUB_IMAGE_BASE_URL,
+    EEW_MATCH_TIME_TOLERANCE: Bun.env.EEW_MATCH_TIME_TOLERANCE,
+    EEW_MATCH_DISTANCE_KM: Bun.env.EEW_MATCH_DISTANCE_KM,
+    QUAKE_REPLY_BROADCAST: Bun.env.QUAKE_REPLY_BROADCAST,
+    EVENT_STORE_PATH: Bun.env.EVENT_STORE_PATH?.trim() || undefined,
+    DELIVERY_MAX_ATTEMPTS: Bun.env.DELIVERY_MAX_ATTEMPTS,
+    SHUTDOWN_DRAIN_TIMEOUT: Bun.env.SHUTDOWN_DRAIN_TIMEOUT,
+    P2PQUAKE_WS_URL: Bun.env.P2PQUAKE_WS_URL?.trim() || undefined,
+    P2PQUAKE_API_URL: Bun.env.P2PQUAKE_API_URL?.trim() || undefined,
+    EXTRA_EVENT_CODES: Bun.env.EXTRA_EVENT_CODES?.trim() || undefined,
+    USERQUAKE_WINDOW: Bun.env.USERQUAKE_WINDOW?.trim() || undefined,
+    USERQUAKE_MIN_CONFIDENCE: Bun.env.USERQUAKE_MIN_CONFIDENCE?.trim() || undefined,
+    USERQUAKE_MIN_REPORTS: Bun.env.USERQUAKE_MIN_REPORTS?.trim() || undefined,
+    HISTORY_POLL_INTERVAL: Bun.env.HISTORY_POLL_INTERVAL?.trim() || undefined,
+    HISTORY_MAX_AGE: Bun.env.HISTORY_MAX_AGE?.trim() || undefined,
+    HISTORY_MAX_ATTEMPTS: Bun.env.HISTORY_MAX_ATTEMPTS?.trim() || undefined,
+    DRY_RUN: Bun.env.DRY_RUN?.trim() || undefined,
+    OUTPUT: Bun.env.OUTPUT?.trim() || undefined,
+    DRY_RUN_FORMAT: Bun.env.DRY_RUN_FORMAT?.trim() || undefined,
+    DRY_RUN_DIR: Bun.env.DRY_RUN_DIR?.trim() || undefined,
+    SLACK_SIGNING_SECRET: Bun.env.SLACK_SIGNING_SECRET?.trim() || undefined,
+    HTTP_PORT: Bun.env.HTTP_PORT?.trim() || undefined,
+    OPS_CHANNEL_ID: Bun.env.OPS_CHANNEL_ID?.trim() || undefined,
+    OUTAGE_ALERT_MINUTES: Bun.env.OUTAGE_ALERT_MINUTES?.trim() || undefined,
+    STALL_TIMEOUT: Bun.env.STALL_TIMEOUT?.trim() || undefined,
+    RECONNECT_BASE_DELAY: Bun.env.RECONNECT_BASE_DELAY?.trim() || undefined,
+    RECONNECT_MAX_DELAY: Bun.env.RECONNECT_MAX_DELAY?.trim() || undefined,
+    LOCALE: Bun.env.LOCALE?.trim() || undefined,
+    SITES: Bun.env.SITES?.trim() || undefined,
+    MAP_IMAGES: Bun.env.MAP_IMAGES?.trim() || undefined,
+    ESCALATIONS: Bun.env.ESCALATIONS?.trim() || undefined,
+    NOTIFIERS: Bun.env.NOTIFIERS?.trim() || undefined,
+    TEMPLATE_DIR: Bun.env.TEMPLATE_DIR?.trim() || undefined,
+    DIGEST_MIN_INTENSITY: Bun.env.DIGEST_MIN_INTENSITY?.trim() || undefined,
+    DIGEST_INTERVAL: Bun.env.DIGEST_INTERVAL?.trim() || undefined,
+    DIGEST_TIMES: Bun.env.DIGEST_TIMES?.trim() || undefined,
+    QUIET_HOURS: Bun.env.QUIET_HOURS?.trim() || undefined,
+    QUIET_MIN_INTENSITY: Bun.env.QUIET_MIN_INTENSITY?.trim() || undefined,
+    QUIET_TSUNAMI_GRADES: Bun.env.QUIET_TSUNAMI_GRADES?.trim() || undefined,
+    REPORT_SCHEDULE: Bun.env.REPORT_SCHEDULE?.trim() || undefined,
+    REPORT_CHANNEL_ID: Bun.env.REPORT_CHANNEL_ID?.trim() || undefined,
+    CONFIG_FILE: Bun.env.CONFIG_FILE?.trim() || undefined,
+    SLACK_API_URL: Bun.env.SLACK_API_URL?.trim() || undefined,
+  };
+}
+
+/**
+ * Parse and validate the environment variables, merged over the CONFIG_FILE settings
+ */
+function parseConfig(): Readonly<Config> {
+  const input = readEnv();
+  if (input.CONFIG_FILE) {
+    Object.entries(readConfigFile(input.CONFIG_FILE)).forEach(([key, value]) => {
+      input[key] ??= value;
     });
+  }
+  const env = envSchema.parse(input);
 
-    // Parse MIN_INTENSITY string to SeismicIntensity value
-    const minIntensity = parseIntensityString(env.MIN_INTENSITY);
+  // Parse MIN_INTENSITY string to SeismicIntensity value
+  const minIntensity = parseIntensityString(env.MIN_INTENSITY);
 
-    return Object.freeze({
-      slackBotToken: env.SLACK_BOT_TOKEN,
-      slackChannelId: env.SLACK_CHANNEL_ID,
-      minIntensity,
-      nodeEnv: env.NODE_ENV,
-      githubImageBaseUrl: env.GITHUB_IMAGE_BASE_URL,
+  return Object.freeze({
+    slackBotToken: env.SLACK_BOT_TOKEN ?? '',
+    output: resolveOutput(env),
+    dryRunFormat: env.DRY_RUN_FORMAT,
+    dryRunDir: env.DRY_RUN_DIR,
+    routes: buildRoutes(env, minIntensity),
+    minIntensity,
+    nodeEnv: env.NODE_ENV,
+    githubImageBaseUrl: env.GITHUB_IMAGE_BASE_URL,
+    eewMatchTimeTolerance: env.EEW_MATCH_TIME_TOLERANCE,
+    eewMatchDistanceKm: env.EEW_MATCH_DISTANCE_KM,
+    quakeReplyBroadcast: env.QUAKE_REPLY_BROADCAST === 'true',
+    eventStorePath: env.EVENT_STORE_PATH,
+    deliveryMaxAttempts: env.DELIVERY_MAX_ATTEMPTS,
+    shutdownDrainTimeout: env.SHUTDOWN_DRAIN_TIMEOUT,
+    p2pquakeWsUrl: env.P2PQUAKE_WS_URL,
+    p2pquakeApiUrl:
+      env.P2PQUAKE_API_URL ??
+      (env.NODE_ENV === 'production' ? P2PQUAKE_API_PRODUCTION : P2PQUAKE_API_SANDBOX),
+    eventCodes: [...DEFAULT_EVENT_CODES, ...env.EXTRA_EVENT_CODES],
+    userquakeWindow: env.USERQUAKE_WINDOW,
+    userquakeMinConfidence: env.USERQUAKE_MIN_CONFIDENCE,
+    userquakeMinReports: env.USERQUAKE_MIN_REPORTS,
+    historyPollInterval: env.HISTORY_POLL_INTERVAL,
+    historyMaxAge: env.HISTORY_MAX_AGE,
+    historyMaxAttempts: env.HISTORY_MAX_ATTEMPTS,
+    slackSigningSecret: env.SLACK_SIGNING_SECRET,
+    httpPort: env.HTTP_PORT,
+    opsChannelId: env.OPS_CHANNEL_ID,
+    outageAlertMinutes: env.OUTAGE_ALERT_MINUTES,
+    stallTimeout: env.STALL_TIMEOUT,
+    reconnectBaseDelay: env.RECONNECT_BASE_DELAY,
+    reconnectMaxDelay: env.RECONNECT_MAX_DELAY,
+    locales: env.LOCALE,
+    sites: env.SITES ?? [],
+    mapImages: env.MAP_IMAGES === 'true',
+    escalations: (env.ESCALATIONS ?? []).map((policy, index) => ({
+      name: policy.name ?? `escalation-${index + 1}`,
+      event: policy.event,
+      minIntensity: policy.minIntensity ? parseIntensityString(policy.minIntensity) : undefined,
+      grades: policy.grades,
+      mentions: policy.mentions,
+      channels: policy.channels,
+    })),
+    notifiers: (env.NOTIFIERS ?? []).map((notifier, index) => {
+      const settings = {
+        name: notifier.name ?? `${notifier.type}-${index + 1}`,
+        events: notifier.events ?? ['quake', 'tsunami', 'eew'],
+        minIntensity: notifier.minIntensity
+          ? parseIntensityString(notifier.minIntensity)
+          : minIntensity,
+        eewMinIntensity: notifier.eewMinIntensity
+          ? parseIntensityString(notifier.eewMinIntensity)
+          : undefined,
+        locales: notifier.locale ?? env.LOCALE,
+      };
+
+      switch (notifier.type) {
+        case 'discord':
+          return {
+            ...settings,
+            type: notifier.type,
+            url: notifier.url,
+            username: notifier.username,
+          };
+        case 'teams':
+          return { ...settings, type: notifier.type, url: notifier.url };
+        case 'webhook':
+          return { ...settings, type: notifier.type, url: notifier.url, secret: notifier.secret };
+        case 'email':
+          return {
+            ...settings,
+            type: notifier.type,
+            host: notifier.host,
+            port: notifier.port ?? (notifier.secure ? 465 : 587),
+            secure: notifier.secure,
+            username: notifier.username,
+            password: notifier.password,
+            from: notifier.from,
+            to: notifier.to,
+          };
+      }
+    }),
+    templateDir: env.TEMPLATE_DIR,
+    digestMinIntensity: env.DIGEST_MIN_INTENSITY
+      ? parseIntensityString(env.DIGEST_MIN_INTENSITY)
+      : undefined,
+    digestInterval: env.DIGEST_INTERVAL,
+    digestTimes: [...new Set(env.DIGEST_TIMES.map(parseTimeOfDay))].sort((a, b) => a - b),
+    quietHours: env.QUIET_HOURS.map((window) => {
+      const [start, end] = window.split('-').map(parseTimeOfDay);
+      return { start, end };
+    }),
+    quietMinIntensity: parseIntensityString(env.QUIET_MIN_INTENSITY),
+    quietTsunamiGrades: env.QUIET_TSUNAMI_GRADES,
+    reportSchedule: env.REPORT_SCHEDULE,
+    // Dry runs may omit the channel, as for the default route
+    reportChannelId: env.REPORT_CHANNEL_ID ?? env.SLACK_CHANNEL_ID ?? 'dry-run',
+    configFile: env.CONFIG_FILE,
+    slackApiUrl: env.SLACK_API_URL?.replace(/\/?$/, '/'),
+  });
+}
+
+/**
+ * Print a configuration error, listing every invalid setting
+ */
+function reportConfigError(error: unknown): void {
+  if (error instanceof z.ZodError) {
+    console.error('Configuration validation failed:');
+    error.errors.forEach((err) => {
+      // Only a CONFIG_FILE that is not a mapping fails as a whole
+      console.error(`  - ${err.path.join('.') || 'CONFIG_FILE'}: ${err.message}`);
     });
+  } else if (error instanceof Error) {
+    console.error('Configuration error:', error.message);
+  }
+}
+
+/**
+ * Load and validate environment variables
+ */
+function loadConfig(): Readonly<Config> {
+  try {
+    return parseConfig();
   } catch (error) {
-    if (error instanceof z.ZodError) {
-      console.error('Environment variable validation failed:');
-      error.errors.forEach((err) => {
-        console.error(`  - ${err.path.join('.')}: ${err.message}`);
-      });
-    } else if (error instanceof Error) {
-      console.error('Configuration error:', error.message);
-    }
+    reportConfigError(error);
 
     console.error('\nPlease check your .env file and ensure all required variables are set.');
     console.error('See .env.example for reference.\n');
@@ -72,4 +806,19 @@ function loadConfig(): Readonly<Config> {
   }
 }
 
-export const config = loadConfig();
+export let config = loadConfig();
+
+/**
+ * Re-read the environment and CONFIG_FILE
+ *
+ * An invalid configuration is reported and the previous one is kept.
+ */
+export function reloadConfig(): boolean {
+  try {
+    config = parseConfig();
+    return true;
+  } catch (error) {
+    reportConfigError(error);
+    return false;
+  }
+}
@@ -0,0 +1,227 @@
+import type { Messages } from './types';
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const time = (date: Date) => `${date.getHours()}:${date.getMinutes().toString().padStart(2, '0')}`;
+
+const timeWithSeconds = (date: Date) =>
+  `${time(date)}:${date.getSeconds().toString().padStart(2, '0')}`;
+
+export const en: Messages = {
+  intensity: {
+    [-1]: 'Unknown',
+    0: 'Shindo 0',
+    10: 'Shindo 1',
+    20: 'Shindo 2',
+    30: 'Shindo 3',
+    40: 'Shindo 4',
+    45: 'Shindo 5-',
+    50: 'Shindo 5+',
+    55: 'Shindo 6-',
+    60: 'Shindo 6+',
+    70: 'Shindo 7',
+    99: 'Abnormal',
+  },
+  domesticTsunami: {
+    None: 'None',
+    Unknown: 'Unknown',
+    Checking: 'Under investigation',
+    NonEffective: 'Slight sea level change (no damage expected)',
+    Watch: 'Tsunami Advisory',
+    Warning: 'Tsunami Warning',
+  },
+  tsunamiGrade: {
+    MajorWarning: 'Major Tsunami Warning',
+    Warning: 'Tsunami Warning',
+    Watch: 'Tsunami Advisory',
+    Unknown: 'Unknown',
+  },
+  unknown: 'Unknown',
+  listSeparator: ', ',
+  parenthesize: (text) => ` (${text})`,
+  dateTime: (date) =>
+    `${MONTHS[date.getMonth()]} ${date.getDate()}, ${date.getFullYear()} ${time(date)}`,
+  time,
+  timeWithSeconds,
+  duration: (hours, minutes, seconds) =>
+    hours > 0 ? `${hours}h ${minutes}m` : minutes > 0 ? `${minutes}m ${seconds}s` : `${seconds}s`,
+  depth: (km) => `about ${km} km`,
+  more: (count) => ` and ${count} more`,
+
+  labels: {
+    originTime: 'Origin time',
+    hypocenter: 'Epicenter',
+    magnitude: 'Magnitude',
+    depth: 'Depth',
+    tsunami: 'Tsunami',
+    maxIntensity: 'Maximum intensity',
+    maxPredictedIntensity: 'Maximum predicted intensity',
+  },
+
+  footer: {
+    issuedAt: (dateTime) => `Issued: ${dateTime}`,
+    jmaLink:
+      'See the <https://www.data.jma.go.jp/multi/index.html?lang=en|Japan Meteorological Agency website> for details',
+  },
+
+  late: (dateTime) =>
+    `:hourglass: *Late delivery*: the connection was interrupted, so this information issued at ${dateTime} is delivered late`,
+
+  quake: {
+    title: 'Earthquake Information',
+    body: 'An earthquake has occurred\nStay alert for further information',
+    watchedRegions: 'Intensity in watched regions',
+  },
+
+  tsunami: {
+    title: 'Tsunami Information',
+    body: 'Tsunami information has been issued',
+    cancelled: 'This tsunami information has been cancelled',
+    immediate: 'Evacuate immediately',
+    areas: 'Tsunami forecast areas',
+    firstWave: (time) => `First wave ${time}`,
+    maxHeight: (height) => `Max ${height}`,
+    conditions: {
+      ただちに津波来襲と予測: 'Expected immediately',
+      津波到達中と推測: 'Probably arriving now',
+      第１波の到達を確認: 'First wave observed',
+    },
+    heights: {
+      巨大: 'Huge',
+      高い: 'High',
+      '１０ｍ超': 'Over 10 m',
+      '１０ｍ': '10 m',
+      '５ｍ': '5 m',
+      '３ｍ': '3 m',
+      '１ｍ': '1 m',
+      '０．２ｍ未満': 'Under 0.2 m',
+    },
+    changes: 'Changes since the previous bulletin',
+    upgraded: '⬆️ Upgraded',
+    downgraded: '⬇️ Downgraded',
+    added: '🆕 Added',
+    cleared: '✅ Cleared',
+    cancelledLabel: 'Cancelled',
+    issued: (time) => `issued ${time}`,
+    expired: (hours) =>
+      `No new bulletin for ${hours} hours, so this one is no longer tracked and was unpinned. Check JMA for the current status.`,
+  },
+
+  eew: {
+    title: 'Earthquake Early Warning',
+    titleCancelled: 'Earthquake Early Warning (Cancelled)',
+    titleTest: 'Earthquake Early Warning (Drill)',
+    received: 'An Earthquake Early Warning has been received',
+    cancelled: 'The Earthquake Early Warning has been cancelled',
+    test: '**This is a drill**',
+    warning: '**Be alert for strong shaking**',
+    watchedRegions: 'Predicted intensity in watched regions',
+    predictedIntensity: 'Predicted intensity',
+    unknownIntensity: 'Intensity unknown',
+    moreAreas: (count) => ` and ${count} more areas`,
+    depth: (km) => `depth about ${km} km`,
+    serial: (serial) => `Report #${serial}`,
+    testLabel: 'Drill',
+    cancelledLabel: 'Cancelled',
+    issued: (time) => `issued ${time}`,
+  },
+
+  eewDetection: {
+    title: 'Earthquake Early Warning Detected',
+    full: 'An Earthquake Early Warning (warning level) was detected',
+    chime: 'An Earthquake Early Warning chime was detected',
+    body: 'Stay alert for further information',
+    detectedAt: (dateTime) => `Detected: ${dateTime}`,
+    disclaimer: 'Detected by P2PQuake peers; may differ from what the JMA issues',
+  },
+
+  areapeers: {
+    title: 'P2PQuake Peers',
+    body: (areas, peers) => `${peers} peers connected in ${areas} areas`,
+    countedAt: (dateTime) => `Counted: ${dateTime}`,
+  },
+
+  userquake: {
+    title: 'Shaking Reports',
+    body: 'Many users report feeling shaking\nWatch for information from the JMA',
+    count: (count) => `Reports: ${count}`,
+    confidence: (percent) => `Confidence: ${percent}%`,
+    areas: 'Areas with most reports',
+    area: (code, count) => `Area code ${code}: ${count}`,
+    disclaimer: 'Aggregated from P2PQuake user reports; may not be an actual earthquake',
+  },
+
+  sites: {
+    title: 'Estimated shaking at sites',
+    intensity: (intensity) => `about ${intensity}`,
+    distance: (km) => `${km} km from hypocenter`,
+    arrival: (pWave, sWave) => `P-wave ${pWave} / S-wave ${sWave}`,
+    remaining: (seconds) => `S-wave in ${seconds}s`,
+    arrived: 'S-wave arrived',
+    disclaimer:
+      'Estimated from the hypocenter with an attenuation relation; actual shaking may differ',
+  },
+
+  maps: {
+    quake: 'Epicenter and observed intensities',
+    eew: 'Epicenter and predicted intensities',
+  },
+
+  digest: {
+    title: 'Earthquake digest',
+    period: (from, to, count) => `${from} to ${to} (${count} ${count === 1 ? 'event' : 'events'})`,
+    quietHours: 'Includes information received during quiet hours',
+    text: (count) => `Earthquake digest | ${count} ${count === 1 ? 'event' : 'events'}`,
+  },
+
+  report: {
+    title: 'Seismic activity report',
+    period: (from, to) => `Period: ${from} to ${to}`,
+    felt: (count) => `Felt earthquakes: ${count}`,
+    byIntensity: 'By maximum intensity',
+    regions: 'Busiest hypocenter regions',
+    largest: 'Largest earthquake',
+    viewPost: 'View original post',
+    tsunami: 'Tsunami information',
+    none: 'None',
+    count: (count) => `${count} ${count === 1 ? 'earthquake' : 'earthquakes'}`,
+    text: (felt) =>
+      `Seismic activity report | ${felt} felt ${felt === 1 ? 'earthquake' : 'earthquakes'}`,
+  },
+
+  notifiers: {
+    late: (dateTime) =>
+      `Late delivery: the connection was interrupted, so this information issued at ${dateTime} is delivered late`,
+    jmaLink: 'See the Japan Meteorological Agency website for details',
+    jmaUrl: 'https://www.data.jma.go.jp/multi/index.html?lang=en',
+  },
+
+  ops: {
+    outageTitle: 'Connection to P2PQuake lost',
+    outageBody: (since, duration) =>
+      `No earthquake information received for ${duration} (since ${since}). Reconnecting.`,
+    recoveryTitle: 'Connection to P2PQuake restored',
+    recoveryBody: (duration, since) => `Outage: ${duration} (since ${since})`,
+  },
+  slashCommand: {
+    usage: '*Usage*',
+    latestHelp: 'Show the latest earthquake information',
+    statusHelp: 'Show the connection state and notification conditions',
+    tsunamiHelp: 'Show the tsunami warnings and advisories in effect',
+    noQuake: 'No earthquake information received yet',
+    latestTitle: 'Latest earthquake information',
+    noTsunami: 'No tsunami warnings or advisories are in effect',
+    tsunamiTitle: 'Tsunami information in effect',
+    connected: 'connected',
+    disconnected: 'disconnected',
+    connection: (state, since) => `*WebSocket*: ${state} (since ${since})`,
+    lastReceived: (dateTime) => `*Last received*: ${dateTime}`,
+    never: 'never',
+    routes: '*Notification conditions*',
+    codes: (codes) => `Codes: ${codes}`,
+    quakeThreshold: (intensity) => `Earthquake information: ${intensity} or more`,
+    eewThreshold: (intensity) => `EEW: ${intensity} or more`,
+    eewAll: 'EEW: all',
+    regions: (regions) => `Regions: ${regions}`,
+  },
+};
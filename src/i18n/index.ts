@@ -0,0 +1,18 @@
+import { ja } from './ja';
+import { en } from './en';
+import type { Locale, Messages } from './types';
+
+export type { Locale, Messages } from './types';
+export { translatePlaceName } from './placeNames';
+
+// Locales with a bundled message catalog
+export const LOCALES = ['ja', 'en'] as const satisfies readonly Locale[];
+
+const CATALOGS: Record<Locale, Messages> = { ja, en };
+
+/**
+ * Get the message catalog of a locale
+ */
+export function getMessages(locale: Locale): Messages {
+  return CATALOGS[locale];
+}
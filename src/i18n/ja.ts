@@ -0,0 +1,210 @@
+import type { Messages } from './types';
+
+export const ja: Messages = {
+  intensity: {
+    [-1]: '不明',
+    0: '震度0',
+    10: '震度1',
+    20: '震度2',
+    30: '震度3',
+    40: '震度4',
+    45: '震度5弱',
+    50: '震度5強',
+    55: '震度6弱',
+    60: '震度6強',
+    70: '震度7',
+    99: '異常',
+  },
+  domesticTsunami: {
+    None: 'なし',
+    Unknown: '不明',
+    Checking: '調査中',
+    NonEffective: '若干の海面変動（被害の心配なし）',
+    Watch: '津波注意報',
+    Warning: '津波警報',
+  },
+  tsunamiGrade: {
+    MajorWarning: '大津波警報',
+    Warning: '津波警報',
+    Watch: '津波注意報',
+    Unknown: '不明',
+  },
+  unknown: '不明',
+  listSeparator: '、',
+  parenthesize: (text) => `（${text}）`,
+  dateTime: (date) =>
+    `${date.getFullYear()}年${date.getMonth() + 1}月${date.getDate()}日 ${date.getHours()}時${date.getMinutes().toString().padStart(2, '0')}分`,
+  time: (date) => `${date.getHours()}:${date.getMinutes().toString().padStart(2, '0')}`,
+  timeWithSeconds: (date) =>
+    `${date.getHours()}:${date.getMinutes().toString().padStart(2, '0')}:${date.getSeconds().toString().padStart(2, '0')}`,
+  duration: (hours, minutes, seconds) =>
+    hours > 0
+      ? `${hours}時間${minutes}分`
+      : minutes > 0
+        ? `${minutes}分${seconds}秒`
+        : `${seconds}秒`,
+  depth: (km) => `約${km}km`,
+  more: (count) => ` 他${count}箇所`,
+
+  labels: {
+    originTime: '発生時刻',
+    hypocenter: '震源地',
+    magnitude: 'マグニチュード',
+    depth: '深さ',
+    tsunami: '津波',
+    maxIntensity: '最大震度',
+    maxPredictedIntensity: '最大予測震度',
+  },
+
+  footer: {
+    issuedAt: (dateTime) => `情報発表時刻：${dateTime}`,
+    jmaLink:
+      '詳しい情報は <https://www.data.jma.go.jp/multi/index.html?lang=jp|気象庁ホームページ> をご確認ください',
+  },
+
+  late: (dateTime) =>
+    `:hourglass: *遅延配信*：接続が途切れていたため、${dateTime}に発表された情報を遅れて配信しています`,
+
+  quake: {
+    title: '地震情報',
+    body: '地震が発生しました\n今後の情報に注意してください',
+    watchedRegions: '監視地域の震度',
+  },
+
+  tsunami: {
+    title: '津波情報',
+    body: '津波情報が発表されました',
+    cancelled: 'この津波情報は解除されました',
+    immediate: '直ちに避難',
+    areas: '津波予報区',
+    firstWave: (time) => `第1波 ${time}`,
+    maxHeight: (height) => `予想最大 ${height}`,
+    conditions: {},
+    heights: {},
+    changes: '前回からの変更',
+    upgraded: '⬆️ 引き上げ',
+    downgraded: '⬇️ 引き下げ',
+    added: '🆕 追加',
+    cleared: '✅ 解除',
+    cancelledLabel: '解除',
+    issued: (time) => `${time}発表`,
+    expired: (hours) =>
+      `${hours}時間以上新しい発表がないため、この情報の追跡を終了しピン留めを外しました。最新の状況は気象庁の発表をご確認ください。`,
+  },
+
+  eew: {
+    title: '緊急地震速報',
+    titleCancelled: '緊急地震速報（キャンセル）',
+    titleTest: '緊急地震速報（訓練）',
+    received: '緊急地震速報を受信しました',
+    cancelled: '緊急地震速報がキャンセルされました',
+    test: '**これは訓練です**',
+    warning: '**強い揺れに警戒してください**',
+    watchedRegions: '監視地域の予測震度',
+    predictedIntensity: '予測震度',
+    unknownIntensity: '予測震度不明',
+    moreAreas: (count) => ` 他${count}地域`,
+    depth: (km) => `深さ約${km}km`,
+    serial: (serial) => `第${serial}報`,
+    testLabel: '訓練',
+    cancelledLabel: 'キャンセル',
+    issued: (time) => `${time}発表`,
+  },
+
+  eewDetection: {
+    title: '緊急地震速報 発表検出',
+    full: '緊急地震速報（警報）が発表されたことを検出しました',
+    chime: '緊急地震速報のチャイム音を検出しました',
+    body: '今後の情報に注意してください',
+    detectedAt: (dateTime) => `検出時刻：${dateTime}`,
+    disclaimer: 'P2P地震情報のピアによる検出です。気象庁の発表内容とは異なる場合があります',
+  },
+
+  areapeers: {
+    title: 'P2P地震情報 ピア数',
+    body: (areas, peers) => `${areas}地域で合計${peers}ピアが接続しています`,
+    countedAt: (dateTime) => `集計時刻：${dateTime}`,
+  },
+
+  userquake: {
+    title: '地震感知情報',
+    body: '揺れを感じたという報告が相次いでいます\n気象庁の発表に注意してください',
+    count: (count) => `報告数：${count}件`,
+    confidence: (percent) => `信頼度：${percent}%`,
+    areas: '報告の多い地域',
+    area: (code, count) => `地域コード ${code}: ${count}件`,
+    disclaimer: 'P2P地震情報の利用者による報告を集計したものです。実際の地震でない場合があります',
+  },
+
+  sites: {
+    title: '拠点の推定震度・到達時刻',
+    intensity: (intensity) => `${intensity}程度`,
+    distance: (km) => `震源距離${km}km`,
+    arrival: (pWave, sWave) => `P波 ${pWave} / S波 ${sWave}`,
+    remaining: (seconds) => `S波到達まであと${seconds}秒`,
+    arrived: 'S波到達済み',
+    disclaimer: '震源要素から距離減衰式で推定した値です。実際の揺れとは異なる場合があります',
+  },
+
+  maps: {
+    quake: '震源と各地の震度',
+    eew: '震源と予測震度',
+  },
+
+  digest: {
+    title: '地震情報のまとめ',
+    period: (from, to, count) => `${from}〜${to}（${count}件）`,
+    quietHours: '夜間など通知を控える時間帯に受信した情報を含みます',
+    text: (count) => `地震情報のまとめ | ${count}件`,
+  },
+
+  report: {
+    title: '地震活動レポート',
+    period: (from, to) => `集計期間：${from}〜${to}`,
+    felt: (count) => `有感地震 ${count}回`,
+    byIntensity: '最大震度別',
+    regions: '震源地（回数順）',
+    largest: '最大規模の地震',
+    viewPost: '元の投稿を見る',
+    tsunami: '津波情報',
+    none: 'なし',
+    count: (count) => `${count}回`,
+    text: (felt) => `地震活動レポート | 有感地震 ${felt}回`,
+  },
+
+  notifiers: {
+    late: (dateTime) =>
+      `遅延配信：接続が途切れていたため、${dateTime}に発表された情報を遅れて配信しています`,
+    jmaLink: '詳しい情報は気象庁ホームページをご確認ください',
+    jmaUrl: 'https://www.data.jma.go.jp/multi/index.html?lang=jp',
+  },
+
+  ops: {
+    outageTitle: 'P2PQuake との接続が途絶えています',
+    outageBody: (since, duration) =>
+      `${since}から${duration}間、地震情報を受信できていません。再接続を試みています。`,
+    recoveryTitle: 'P2PQuake との接続が復旧しました',
+    recoveryBody: (duration, since) => `停止時間：${duration}（${since}から）`,
+  },
+  slashCommand: {
+    usage: '*使い方*',
+    latestHelp: '最新の地震情報を表示',
+    statusHelp: '接続状態と通知条件を表示',
+    tsunamiHelp: '発表中の津波警報・注意報を表示',
+    noQuake: 'まだ地震情報を受信していません',
+    latestTitle: '最新の地震情報',
+    noTsunami: '現在、津波警報・注意報は発表されていません',
+    tsunamiTitle: '発表中の津波情報',
+    connected: '接続中',
+    disconnected: '切断',
+    connection: (state, since) => `*WebSocket*: ${state}（${since}から）`,
+    lastReceived: (dateTime) => `*最終受信*: ${dateTime}`,
+    never: 'なし',
+    routes: '*通知条件*',
+    codes: (codes) => `対象: ${codes}`,
+    quakeThreshold: (intensity) => `地震情報: ${intensity}以上`,
+    eewThreshold: (intensity) => `緊急地震速報: ${intensity}以上`,
+    eewAll: '緊急地震速報: すべて',
+    regions: (regions) => `監視地域: ${regions}`,
+  },
+};
@@ -0,0 +1,28 @@
+import type { SeismicIntensity } from 'p2pquake-client';
+import { intensityToString } from '../utils/intensity';
+import { getMessages, translatePlaceName } from './index';
+import type { Locale, Messages } from './types';
+
+/**
+ * Strings and helpers of the locale a message is rendered in
+ */
+export interface Localizer {
+  locale: Locale;
+  m: Messages;
+  intensity: (intensity: SeismicIntensity) => string;
+  place: (name: string) => string;
+  dateTime: (dateTime: string | Date) => string;
+  time: (dateTime: string) => string;
+}
+
+export function createLocalizer(locale: Locale): Localizer {
+  const m = getMessages(locale);
+  return {
+    locale,
+    m,
+    intensity: (intensity) => intensityToString(intensity, locale),
+    place: (name) => translatePlaceName(name, locale),
+    dateTime: (dateTime) => m.dateTime(new Date(dateTime)),
+    time: (dateTime) => m.time(new Date(dateTime)),
+  };
+}
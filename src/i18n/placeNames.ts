@@ -0,0 +1,167 @@
+import type { Locale } from './types';
+
+// Prefecture names in English
+const PREFECTURES: Record<string, string> = {
+  北海道: 'Hokkaido',
+  青森県: 'Aomori',
+  岩手県: 'Iwate',
+  宮城県: 'Miyagi',
+  秋田県: 'Akita',
+  山形県: 'Yamagata',
+  福島県: 'Fukushima',
+  茨城県: 'Ibaraki',
+  栃木県: 'Tochigi',
+  群馬県: 'Gunma',
+  埼玉県: 'Saitama',
+  千葉県: 'Chiba',
+  東京都: 'Tokyo',
+  神奈川県: 'Kanagawa',
+  新潟県: 'Niigata',
+  富山県: 'Toyama',
+  石川県: 'Ishikawa',
+  福井県: 'Fukui',
+  山梨県: 'Yamanashi',
+  長野県: 'Nagano',
+  岐阜県: 'Gifu',
+  静岡県: 'Shizuoka',
+  愛知県: 'Aichi',
+  三重県: 'Mie',
+  滋賀県: 'Shiga',
+  京都府: 'Kyoto',
+  大阪府: 'Osaka',
+  兵庫県: 'Hyogo',
+  奈良県: 'Nara',
+  和歌山県: 'Wakayama',
+  鳥取県: 'Tottori',
+  島根県: 'Shimane',
+  岡山県: 'Okayama',
+  広島県: 'Hiroshima',
+  山口県: 'Yamaguchi',
+  徳島県: 'Tokushima',
+  香川県: 'Kagawa',
+  愛媛県: 'Ehime',
+  高知県: 'Kochi',
+  福岡県: 'Fukuoka',
+  佐賀県: 'Saga',
+  長崎県: 'Nagasaki',
+  熊本県: 'Kumamoto',
+  大分県: 'Oita',
+  宮崎県: 'Miyazaki',
+  鹿児島県: 'Kagoshima',
+  沖縄県: 'Okinawa',
+};
+
+// Names that do not follow the "prefecture + direction" pattern
+const PLACE_NAMES: Record<string, string> = {
+  三陸沖: 'Off Sanriku',
+  十勝沖: 'Off Tokachi',
+  釧路沖: 'Off Kushiro',
+  根室半島南東沖: 'Southeast off Nemuro Peninsula',
+  浦河沖: 'Off Urakawa',
+  日高地方東部: 'Eastern Hidaka',
+  日高地方中部: 'Central Hidaka',
+  胆振地方中東部: 'Central-eastern Iburi',
+  択捉島南東沖: 'Southeast off Etorofu Island',
+  千島列島: 'Kuril Islands',
+  石川県能登地方: 'Noto, Ishikawa',
+  能登半島沖: 'Off Noto Peninsula',
+  熊本県熊本地方: 'Kumamoto region, Kumamoto',
+  熊本県阿蘇地方: 'Aso, Kumamoto',
+  大分県中部: 'Central Oita',
+  日向灘: 'Hyuganada Sea',
+  豊後水道: 'Bungo Channel',
+  伊予灘: 'Iyonada Sea',
+  安芸灘: 'Akinada Sea',
+  紀伊水道: 'Kii Channel',
+  和歌山県北部: 'Northern Wakayama',
+  駿河湾: 'Suruga Bay',
+  遠州灘: 'Enshunada Sea',
+  相模湾: 'Sagami Bay',
+  東京湾: 'Tokyo Bay',
+  伊豆大島近海: 'Near Izu Oshima',
+  '新島・神津島近海': 'Near Niijima and Kozushima',
+  三宅島近海: 'Near Miyakejima',
+  八丈島東方沖: 'East off Hachijojima',
+  鳥島近海: 'Near Torishima',
+  伊豆半島東方沖: 'East off Izu Peninsula',
+  房総半島南方沖: 'South off Boso Peninsula',
+  千葉県東方沖: 'East off Chiba',
+  千葉県南東沖: 'Southeast off Chiba',
+  茨城県沖: 'Off Ibaraki',
+  福島県沖: 'Off Fukushima',
+  宮城県沖: 'Off Miyagi',
+  岩手県沖: 'Off Iwate',
+  青森県東方沖: 'East off Aomori',
+  青森県三八上北地方: 'Sanpachi-Kamikita, Aomori',
+  秋田県沖: 'Off Akita',
+  山形県沖: 'Off Yamagata',
+  新潟県沖: 'Off Niigata',
+  新潟県中越地方: 'Chuetsu, Niigata',
+  新潟県上越地方: 'Joetsu, Niigata',
+  新潟県下越地方: 'Kaetsu, Niigata',
+  佐渡付近: 'Near Sado',
+  奄美大島近海: 'Near Amami Oshima',
+  トカラ列島近海: 'Near Tokara Islands',
+  種子島近海: 'Near Tanegashima',
+  薩摩半島西方沖: 'West off Satsuma Peninsula',
+  沖縄本島近海: 'Near Okinawa Island',
+  宮古島近海: 'Near Miyakojima',
+  石垣島近海: 'Near Ishigakijima',
+  与那国島近海: 'Near Yonagunijima',
+  台湾付近: 'Near Taiwan',
+  北海道東方沖: 'East off Hokkaido',
+  北海道北西沖: 'Northwest off Hokkaido',
+  オホーツク海南部: 'Southern Sea of Okhotsk',
+  日本海中部: 'Central Sea of Japan',
+};
+
+// Suffixes following a prefecture name, e.g. 千葉県北西部 (northwestern Chiba)
+const SUFFIXES: Record<string, (prefecture: string) => string> = {
+  北部: (p) => `Northern ${p}`,
+  南部: (p) => `Southern ${p}`,
+  東部: (p) => `Eastern ${p}`,
+  西部: (p) => `Western ${p}`,
+  中部: (p) => `Central ${p}`,
+  北東部: (p) => `Northeastern ${p}`,
+  北西部: (p) => `Northwestern ${p}`,
+  南東部: (p) => `Southeastern ${p}`,
+  南西部: (p) => `Southwestern ${p}`,
+  沖: (p) => `Off ${p}`,
+  東方沖: (p) => `East off ${p}`,
+  西方沖: (p) => `West off ${p}`,
+  南方沖: (p) => `South off ${p}`,
+  北方沖: (p) => `North off ${p}`,
+  南東沖: (p) => `Southeast off ${p}`,
+  北東沖: (p) => `Northeast off ${p}`,
+  南西沖: (p) => `Southwest off ${p}`,
+  北西沖: (p) => `Northwest off ${p}`,
+};
+
+/**
+ * Translate a hypocenter or area name through the bundled lookup table
+ *
+ * Japanese is returned unchanged; names without a known translation are kept
+ * as is.
+ */
+export function translatePlaceName(name: string, locale: Locale): string {
+  if (locale === 'ja') {
+    return name;
+  }
+
+  if (PLACE_NAMES[name]) {
+    return PLACE_NAMES[name];
+  }
+
+  const prefecture = Object.keys(PREFECTURES).find((candidate) => name.startsWith(candidate));
+  if (!prefecture) {
+    return name;
+  }
+
+  const rest = name.slice(prefecture.length);
+  if (rest === '') {
+    return PREFECTURES[prefecture];
+  }
+
+  const suffix = SUFFIXES[rest];
+  return suffix ? suffix(PREFECTURES[prefecture]) : name;
+}
@@ -0,0 +1,186 @@
+import type { SeismicIntensity } from 'p2pquake-client';
+
+export type Locale = 'ja' | 'en';
+
+/**
+ * Catalog of every user-facing notification string
+ *
+ * Plain strings are used as is; functions receive the values to interpolate.
+ * Dates are passed as Date objects so each locale controls its own format.
+ */
+export interface Messages {
+  intensity: Record<SeismicIntensity, string>;
+  domesticTsunami: Record<string, string>;
+  tsunamiGrade: Record<string, string>;
+  unknown: string;
+  listSeparator: string;
+  parenthesize: (text: string) => string;
+  dateTime: (date: Date) => string;
+  time: (date: Date) => string;
+  timeWithSeconds: (date: Date) => string;
+  duration: (hours: number, minutes: number, seconds: number) => string;
+  depth: (km: number) => string;
+  more: (count: number) => string;
+
+  labels: {
+    originTime: string;
+    hypocenter: string;
+    magnitude: string;
+    depth: string;
+    tsunami: string;
+    maxIntensity: string;
+    maxPredictedIntensity: string;
+  };
+
+  footer: {
+    issuedAt: (dateTime: string) => string;
+    jmaLink: string;
+  };
+
+  late: (dateTime: string) => string;
+
+  quake: {
+    title: string;
+    body: string;
+    watchedRegions: string;
+  };
+
+  tsunami: {
+    title: string;
+    body: string;
+    cancelled: string;
+    immediate: string;
+    areas: string;
+    firstWave: (time: string) => string;
+    maxHeight: (height: string) => string;
+    // Translations of the JMA first wave conditions and height descriptions
+    conditions: Record<string, string>;
+    heights: Record<string, string>;
+    changes: string;
+    upgraded: string;
+    downgraded: string;
+    added: string;
+    cleared: string;
+    cancelledLabel: string;
+    issued: (time: string) => string;
+    // Thread note of an active bulletin unpinned without a cancellation
+    expired: (hours: number) => string;
+  };
+
+  eew: {
+    title: string;
+    titleCancelled: string;
+    titleTest: string;
+    received: string;
+    cancelled: string;
+    test: string;
+    warning: string;
+    watchedRegions: string;
+    predictedIntensity: string;
+    unknownIntensity: string;
+    moreAreas: (count: number) => string;
+    depth: (km: number) => string;
+    serial: (serial: string) => string;
+    testLabel: string;
+    cancelledLabel: string;
+    issued: (time: string) => string;
+  };
+
+  eewDetection: {
+    title: string;
+    full: string;
+    chime: string;
+    body: string;
+    detectedAt: (dateTime: string) => string;
+    disclaimer: string;
+  };
+
+  areapeers: {
+    title: string;
+    body: (areas: number, peers: number) => string;
+    countedAt: (dateTime: string) => string;
+  };
+
+  userquake: {
+    title: string;
+    body: string;
+    count: (count: number) => string;
+    confidence: (percent: number) => string;
+    areas: string;
+    area: (code: number, count: number) => string;
+    disclaimer: string;
+  };
+
+  sites: {
+    title: string;
+    intensity: (intensity: string) => string;
+    distance: (km: number) => string;
+    arrival: (pWave: string, sWave: string) => string;
+    remaining: (seconds: number) => string;
+    arrived: string;
+    disclaimer: string;
+  };
+
+  maps: {
+    quake: string;
+    eew: string;
+  };
+
+  digest: {
+    title: string;
+    // Period covered by the digest and its number of events
+    period: (from: string, to: string, count: number) => string;
+    quietHours: string;
+    text: (count: number) => string;
+  };
+
+  report: {
+    title: string;
+    period: (from: string, to: string) => string;
+    // Heading of the felt earthquakes section, with their number
+    felt: (count: number) => string;
+    byIntensity: string;
+    regions: string;
+    largest: string;
+    viewPost: string;
+    tsunami: string;
+    none: string;
+    count: (count: number) => string;
+    text: (felt: number) => string;
+  };
+
+  // Plain text for the notifier backends other than Slack, which do not use mrkdwn
+  notifiers: {
+    late: (dateTime: string) => string;
+    jmaLink: string;
+    jmaUrl: string;
+  };
+
+  ops: {
+    outageTitle: string;
+    outageBody: (since: string, duration: string) => string;
+    recoveryTitle: string;
+    recoveryBody: (duration: string, since: string) => string;
+  };
+  slashCommand: {
+    usage: string;
+    latestHelp: string;
+    statusHelp: string;
+    tsunamiHelp: string;
+    noQuake: string;
+    latestTitle: string;
+    noTsunami: string;
+    tsunamiTitle: string;
+    connected: string;
+    disconnected: string;
+    connection: (state: string, since: string) => string;
+    lastReceived: (dateTime: string) => string;
+    never: string;
+    routes: string;
+    codes: (codes: string) => string;
+    quakeThreshold: (intensity: string) => string;
+    eewThreshold: (intensity: string) => string;
+    eewAll: string;
+    regions: (regions: string) => string;
+  };
+}
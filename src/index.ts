@@ -1,9 +1,58 @@
 import { config } from './config/env';
 import { logger } from './utils/logger';
-import { shouldNotify } from './utils/intensity';
-import { formatQuakeMessage, formatTsunamiMessage, formatEEWMessage } from './utils/formatter';
-import { SlackService } from './services/slack';
-import { P2PQuakeService } from './services/p2pquake';
+import { createApp } from './app';
+import { HttpServer } from './services/httpServer';
+import { healthResponse } from './services/health';
+import { metrics } from './utils/metrics';
+import { SlashCommandHandler } from './services/slashCommand';
+import { ConnectionWatchdog } from './services/watchdog';
+import { HistoryPoller } from './services/historyPoller';
+import { DigestScheduler } from './services/digest';
+import { ReportScheduler } from './services/report';
+import { ConfigReloader } from './services/configReloader';
+import type { EventStore } from './services/eventStore';
+import type { SlackService } from './services/slack';
+import { parseCron } from './utils/cron';
+
+// Active tsunami messages without a new bulletin for this long missed their cancellation
+const TSUNAMI_MESSAGE_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Create the digest and activity report schedulers that the configuration enables
+ */
+function createSchedulers(
+  slackService: SlackService,
+  eventStore: EventStore
+): (DigestScheduler | ReportScheduler)[] {
+  const schedulers: (DigestScheduler | ReportScheduler)[] = [];
+
+  // Digests of held-back events, also posted when quiet hours end
+  if (config.digestMinIntensity !== undefined || config.quietHours.length > 0) {
+    schedulers.push(
+      new DigestScheduler(slackService, eventStore, {
+        checkIntervalMs: 30_000,
+        intervalHours: config.digestInterval,
+        times: config.digestTimes,
+        quietHours: config.quietHours,
+      })
+    );
+  }
+
+  if (config.reportSchedule) {
+    schedulers.push(
+      new ReportScheduler(slackService, eventStore, {
+        checkIntervalMs: 30_000,
+        schedule: parseCron(config.reportSchedule),
+        channelId: config.reportChannelId,
+        locales:
+          config.routes.find((route) => route.channelId === config.reportChannelId)?.locales ??
+          config.locales,
+      })
+    );
+  }
+
+  return schedulers;
+}
 
 /**
  * Initialize and start the application
@@ -12,95 +61,42 @@ async function main() {
   logger.info('Starting Slack Quake Alert...', {
     nodeEnv: config.nodeEnv,
     minIntensity: config.minIntensity,
+    routes: config.routes.map((route) => route.name),
   });
 
-  // Initialize services
-  const slackService = new SlackService(config.slackBotToken, config.slackChannelId);
-  const p2pquakeService = new P2PQuakeService();
-
-  // Register earthquake information handler (Code 551)
-  p2pquakeService.onQuake(async (quake) => {
-    try {
-      const maxIntensity = quake.earthquake.maxScale;
-
-      logger.info('Earthquake information received', {
-        maxIntensity,
-        time: quake.earthquake.time,
-        location: quake.earthquake.hypocenter?.name,
-      });
-
-      // Filter by minimum intensity
-      if (!shouldNotify(maxIntensity, config.minIntensity)) {
-        logger.debug('Earthquake intensity below threshold, skipping notification', {
-          maxIntensity,
-          threshold: config.minIntensity,
-        });
-        return;
-      }
-
-      // Format message
-      const blocks = formatQuakeMessage(quake);
-
-      // Send to Slack
-      await slackService.sendMessage(blocks);
-
-      logger.info('Earthquake notification sent successfully');
-    } catch (error) {
-      if (error instanceof Error) {
-        logger.error('Failed to process earthquake information', error);
-      }
-    }
-  });
-
-  // Register tsunami information handler (Code 552)
-  p2pquakeService.onTsunami(async (tsunami) => {
-    try {
-      logger.info('Tsunami information received', {
-        cancelled: tsunami.cancelled,
-        time: tsunami.time,
-        areas: tsunami.areas?.length || 0,
-      });
-
-      // Format message
-      const blocks = formatTsunamiMessage(tsunami);
-
-      // Send to Slack
-      await slackService.sendMessage(blocks);
-
-      logger.info('Tsunami notification sent successfully');
-    } catch (error) {
-      if (error instanceof Error) {
-        logger.error('Failed to process tsunami information', error);
-      }
-    }
-  });
-
-  // Register EEW handler (Code 556)
-  p2pquakeService.onEEW(async (eew) => {
-    try {
-      const maxIntensity =
-        eew.areas?.reduce((max, area) => Math.max(max, area.scaleTo || 0), 0) || 0;
-
-      logger.info('EEW information received', {
-        cancelled: eew.cancelled,
-        test: eew.test,
-        maxIntensity,
-        serial: eew.issue.serial,
-      });
-
-      // Format message
-      const blocks = formatEEWMessage(eew);
-
-      // Send to Slack
-      await slackService.sendMessage(blocks);
-
-      logger.info('EEW notification sent successfully');
-    } catch (error) {
-      if (error instanceof Error) {
-        logger.error('Failed to process EEW information', error);
-      }
-    }
+  // Initialize services and register handlers
+  const { eventStore, slackService, p2pquakeService, slackNotifier, notifiers } = createApp();
+
+  // Health check and metrics, plus the /quake slash command when a signing secret is configured
+  const httpServer = new HttpServer();
+  httpServer.route('GET', '/healthz', () => healthResponse(p2pquakeService.getStatus()));
+  httpServer.route(
+    'GET',
+    '/metrics',
+    () =>
+      new Response(metrics.render(), {
+        headers: { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' },
+      })
+  );
+  if (config.slackSigningSecret) {
+    const slashCommand = new SlashCommandHandler(
+      config.slackSigningSecret,
+      eventStore,
+      p2pquakeService
+    );
+    httpServer.route('POST', '/slack/commands', (request) => slashCommand.handle(request));
+  }
+  httpServer.start(config.httpPort);
+
+  // Recover events the WebSocket missed: periodically and right after every (re)connect
+  const historyPoller = new HistoryPoller(p2pquakeService, eventStore, {
+    baseUrl: config.p2pquakeApiUrl,
+    intervalMs: config.historyPollInterval * 1000,
+    maxAgeMs: config.historyMaxAge * 60 * 1000,
+    maxAttempts: config.historyMaxAttempts,
+    limit: 50,
   });
+  p2pquakeService.onConnect(() => void historyPoller.poll());
 
   // Connect to P2PQuake WebSocket
   try {
@@ -113,10 +109,58 @@ async function main() {
     process.exit(1);
   }
 
-  // Graceful shutdown
-  const shutdown = () => {
+  // Reconnect on disconnects and stalls, and alert the ops channel on long outages
+  const watchdog = new ConnectionWatchdog(p2pquakeService, slackService, {
+    checkIntervalMs: 5000,
+    stallTimeoutMs: config.stallTimeout * 1000,
+    reconnectBaseDelayMs: config.reconnectBaseDelay * 1000,
+    reconnectMaxDelayMs: config.reconnectMaxDelay * 1000,
+    alertAfterMs: config.outageAlertMinutes * 60 * 1000,
+    opsChannelId: config.opsChannelId,
+  });
+  watchdog.start();
+  historyPoller.start();
+
+  // Unpin the active tsunami messages whose cancellation was missed
+  const expireTsunamiMessages = () =>
+    void slackNotifier.expireTsunamiMessages(TSUNAMI_MESSAGE_MAX_AGE_MS);
+  expireTsunamiMessages();
+  const tsunamiExpiryTimer = setInterval(expireTsunamiMessages, 10 * 60 * 1000);
+
+  // Post the digests and activity reports on schedule, with the settings of
+  // the current configuration
+  let schedulers = createSchedulers(slackService, eventStore);
+  schedulers.forEach((scheduler) => scheduler.start());
+
+  // Apply configuration changes on SIGHUP and CONFIG_FILE edits, keeping the connection
+  const configReloader = new ConfigReloader({ pollIntervalMs: 2000 });
+  configReloader.onReload(() => {
+    schedulers.forEach((scheduler) => scheduler.stop());
+    schedulers = createSchedulers(slackService, eventStore);
+    schedulers.forEach((scheduler) => scheduler.start());
+  });
+  configReloader.start();
+
+  // Graceful shutdown: stop receiving, then deliver what is still queued
+  let shuttingDown = false;
+  const shutdown = async () => {
+    if (shuttingDown) {
+      return;
+    }
+    shuttingDown = true;
+
     logger.info('Shutting down...');
+    watchdog.stop();
+    historyPoller.stop();
+    clearInterval(tsunamiExpiryTimer);
+    configReloader.stop();
+    schedulers.forEach((scheduler) => scheduler.stop());
     p2pquakeService.disconnect();
+    httpServer.stop();
+    await Promise.all(
+      notifiers.map((notifier) => notifier.drain(config.shutdownDrainTimeout * 1000))
+    );
+    eventStore.close();
     process.exit(0);
   };
 
@@ -126,7 +170,7 @@ async function main() {
   // Handle unhandled errors
   process.on('uncaughtException', (error) => {
     logger.error('Uncaught exception', error);
-    shutdown();
+    void shutdown();
   });
 
   process.on('unhandledRejection', (reason) => {
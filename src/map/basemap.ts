@@ -0,0 +1,86 @@
+import prefectures from './prefectures.json';
+
+// [longitude, latitude] points of a closed outline
+export type Ring = [number, number][];
+
+// Prefecture names in ISO 3166-2 order, Hokkaido (JP-01) to Okinawa (JP-47)
+export const PREFECTURE_NAMES = [
+  '北海道',
+  '青森県',
+  '岩手県',
+  '宮城県',
+  '秋田県',
+  '山形県',
+  '福島県',
+  '茨城県',
+  '栃木県',
+  '群馬県',
+  '埼玉県',
+  '千葉県',
+  '東京都',
+  '神奈川県',
+  '新潟県',
+  '富山県',
+  '石川県',
+  '福井県',
+  '山梨県',
+  '長野県',
+  '岐阜県',
+  '静岡県',
+  '愛知県',
+  '三重県',
+  '滋賀県',
+  '京都府',
+  '大阪府',
+  '兵庫県',
+  '奈良県',
+  '和歌山県',
+  '鳥取県',
+  '島根県',
+  '岡山県',
+  '広島県',
+  '山口県',
+  '徳島県',
+  '香川県',
+  '愛媛県',
+  '高知県',
+  '福岡県',
+  '佐賀県',
+  '長崎県',
+  '熊本県',
+  '大分県',
+  '宮崎県',
+  '鹿児島県',
+  '沖縄県',
+];
+
+function isRing(value: unknown): value is Ring {
+  return (
+    Array.isArray(value) &&
+    value.length >= 3 &&
+    value.every(
+      (point) => Array.isArray(point) && point.length === 2 && point.every(Number.isFinite)
+    )
+  );
+}
+
+/**
+ * Check the outlines of every prefecture, so that a broken regeneration fails at startup
+ */
+function loadOutlines(data: Record<string, unknown>): Record<string, Ring[]> {
+  const outlines: Record<string, Ring[]> = {};
+  PREFECTURE_NAMES.forEach((name) => {
+    const rings = data[name];
+    if (!Array.isArray(rings) || !rings.every(isRing)) {
+      throw new Error(`Invalid outline of ${name} in prefectures.json`);
+    }
+    outlines[name] = rings;
+  });
+  return outlines;
+}
+
+/**
+ * Outlines of each prefecture, simplified from Natural Earth's 1:10m admin-1
+ * boundaries (public domain); regenerate them with `bun run basemap`
+ */
+export const PREFECTURE_OUTLINES = loadOutlines(prefectures);
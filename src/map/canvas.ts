@@ -0,0 +1,103 @@
+import { encodePng } from './png';
+
+export type Color = [r: number, g: number, b: number];
+
+export type Point = [x: number, y: number];
+
+/**
+ * Parse a "#RRGGBB" color
+ */
+export function parseHexColor(hex: string): Color {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+}
+
+/**
+ * Minimal RGBA raster with the primitives needed for the maps
+ */
+export class Canvas {
+  readonly width: number;
+  readonly height: number;
+  private pixels: Uint8Array;
+
+  constructor(width: number, height: number, background: Color) {
+    this.width = width;
+    this.height = height;
+    this.pixels = new Uint8Array(width * height * 4);
+
+    for (let i = 0; i < width * height; i++) {
+      this.pixels.set([...background, 255], i * 4);
+    }
+  }
+
+  private setPixel(x: number, y: number, color: Color): void {
+    if (x < 0 || y < 0 || x >= this.width || y >= this.height) {
+      return;
+    }
+    this.pixels.set(color, (y * this.width + x) * 4);
+  }
+
+  /**
+   * Fill a polygon with the even-odd rule
+   */
+  fillPolygon(points: Point[], color: Color): void {
+    const ys = points.map(([, y]) => y);
+    const minY = Math.max(0, Math.floor(Math.min(...ys)));
+    const maxY = Math.min(this.height - 1, Math.ceil(Math.max(...ys)));
+
+    for (let y = minY; y <= maxY; y++) {
+      const scanY = y + 0.5;
+      const crossings: number[] = [];
+
+      points.forEach(([x1, y1], i) => {
+        const [x2, y2] = points[(i + 1) % points.length];
+        if (y1 <= scanY !== y2 <= scanY) {
+          crossings.push(x1 + ((scanY - y1) / (y2 - y1)) * (x2 - x1));
+        }
+      });
+
+      crossings.sort((a, b) => a - b);
+      for (let i = 0; i + 1 < crossings.length; i += 2) {
+        const from = Math.max(0, Math.round(crossings[i]));
+        const to = Math.min(this.width - 1, Math.round(crossings[i + 1]) - 1);
+        for (let x = from; x <= to; x++) {
+          this.setPixel(x, y, color);
+        }
+      }
+    }
+  }
+
+  /**
+   * Draw a straight line of the given width
+   */
+  line([x1, y1]: Point, [x2, y2]: Point, color: Color, width = 1): void {
+    const steps = Math.max(1, Math.ceil(Math.hypot(x2 - x1, y2 - y1)));
+    for (let i = 0; i <= steps; i++) {
+      const x = x1 + ((x2 - x1) * i) / steps;
+      const y = y1 + ((y2 - y1) * i) / steps;
+      this.fillCircle([x, y], width / 2, color);
+    }
+  }
+
+  /**
+   * Draw the outline of a closed polygon
+   */
+  strokePolygon(points: Point[], color: Color, width = 1): void {
+    points.forEach((point, i) => this.line(point, points[(i + 1) % points.length], color, width));
+  }
+
+  fillCircle([cx, cy]: Point, radius: number, color: Color): void {
+    const r = Math.max(radius, 0.5);
+    for (let y = Math.floor(cy - r); y <= Math.ceil(cy + r); y++) {
+      for (let x = Math.floor(cx - r); x <= Math.ceil(cx + r); x++) {
+        if ((x + 0.5 - cx) ** 2 + (y + 0.5 - cy) ** 2 <= r * r) {
+          this.setPixel(x, y, color);
+        }
+      }
+    }
+  }
+
+  toPng(): Uint8Array {
+    return encodePng(this.width, this.height, this.pixels);
+  }
+}
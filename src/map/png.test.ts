@@ -0,0 +1,54 @@
+import { describe, expect, test } from 'bun:test';
+import { crc32 as zlibCrc32, inflateSync } from 'node:zlib';
+import { encodePng } from './png';
+
+interface Chunk {
+  type: string;
+  data: Uint8Array;
+  crc: number;
+}
+
+function readChunks(png: Uint8Array): Chunk[] {
+  const view = new DataView(png.buffer, png.byteOffset, png.byteLength);
+  const chunks: Chunk[] = [];
+  for (let offset = 8; offset < png.length; ) {
+    const length = view.getUint32(offset);
+    chunks.push({
+      type: new TextDecoder().decode(png.subarray(offset + 4, offset + 8)),
+      data: png.subarray(offset + 8, offset + 8 + length),
+      crc: view.getUint32(offset + 8 + length),
+    });
+    offset += 12 + length;
+  }
+  return chunks;
+}
+
+describe('encodePng', () => {
+  // 2x2 pixels: red, green / blue, half-transparent white
+  const pixels = new Uint8Array([
+    255, 0, 0, 255, 0, 255, 0, 255, 0, 0, 255, 255, 255, 255, 255, 128,
+  ]);
+  const png = encodePng(2, 2, pixels);
+  const chunks = readChunks(png);
+
+  test('writes the signature and the IHDR, IDAT and IEND chunks', () => {
+    expect([...png.subarray(0, 8)]).toEqual([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+    expect(chunks.map((chunk) => chunk.type)).toEqual(['IHDR', 'IDAT', 'IEND']);
+
+    const header = new DataView(chunks[0].data.buffer, chunks[0].data.byteOffset, 13);
+    expect([header.getUint32(0), header.getUint32(4)]).toEqual([2, 2]);
+    expect([chunks[0].data[8], chunks[0].data[9]]).toEqual([8, 6]);
+  });
+
+  test('checksums the type and data of every chunk', () => {
+    chunks.forEach(({ type, data, crc }) => {
+      const body = new Uint8Array([...new TextEncoder().encode(type), ...data]);
+      expect(crc).toBe(zlibCrc32(body));
+    });
+  });
+
+  test('stores unfiltered scanlines of the pixels', () => {
+    const raw = new Uint8Array(inflateSync(chunks[1].data));
+    expect([...raw]).toEqual([0, ...pixels.subarray(0, 8), 0, ...pixels.subarray(8)]);
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, expect, test } from 'bun:test';
+import { inflateSync } from 'node:zlib';
+import type { JMAQuake } from 'p2pquake-client';
+import { createEEW, createEEWArea } from '../test/eew';
+import { getIntensityColor } from '../utils/intensity';
+import { parseHexColor } from './canvas';
+import { renderEEWMap, renderQuakeMap } from './render';
+
+const EPICENTER_COLOR = '226,35,26';
+
+/**
+ * Number of pixels of each color in a PNG written by encodePng: one IDAT chunk of
+ * unfiltered scanlines
+ */
+function countColors(png: Uint8Array): Map<string, number> {
+  const view = new DataView(png.buffer, png.byteOffset, png.byteLength);
+  const width = view.getUint32(16);
+  // The IDAT chunk follows the 13-byte IHDR chunk
+  const raw = inflateSync(png.subarray(41, 41 + view.getUint32(33)));
+
+  const colors = new Map<string, number>();
+  for (let row = 0; row * (width * 4 + 1) < raw.length; row++) {
+    for (let x = 0; x < width; x++) {
+      const offset = row * (width * 4 + 1) + 1 + x * 4;
+      const color = `${raw[offset]},${raw[offset + 1]},${raw[offset + 2]}`;
+      colors.set(color, (colors.get(color) ?? 0) + 1);
+    }
+  }
+  return colors;
+}
+
+const intensityColor = (intensity: 10 | 40 | 50) =>
+  parseHexColor(getIntensityColor(intensity)).join(',');
+
+function quake(points: { pref: string; scale: number }[], hypocenter = true): JMAQuake {
+  return {
+    id: 'quake',
+    code: 551,
+    time: '2024/01/01 16:13:30.000',
+    earthquake: {
+      time: '2024/01/01 16:10:00',
+      hypocenter: hypocenter
+        ? { name: '石川県能登地方', latitude: 37.5, longitude: 137.3, depth: 10, magnitude: 5.8 }
+        : { name: '', latitude: -200, longitude: -200, depth: -1, magnitude: -1 },
+      maxScale: 50,
+    },
+    points: points.map((point) => ({ ...point, addr: '', isArea: false })),
+  } as unknown as JMAQuake;
+}
+
+describe('renderQuakeMap', () => {
+  test('shades each prefecture with its strongest observation and marks the epicenter', () => {
+    const png = renderQuakeMap(
+      quake([
+        { pref: '石川県', scale: 40 },
+        { pref: '石川県', scale: 50 },
+        { pref: '富山県', scale: 40 },
+      ])
+    );
+
+    // Whole prefectures are filled, far more pixels than a marker would take
+    const colors = countColors(png!);
+    expect(colors.get(intensityColor(50))).toBeGreaterThan(2000);
+    expect(colors.get(intensityColor(40))).toBeGreaterThan(2000);
+    expect(colors.has(intensityColor(10))).toBe(false);
+    expect(colors.has(EPICENTER_COLOR)).toBe(true);
+  });
+
+  test('renders observations without a hypocenter, and nothing without either', () => {
+    const shaded = renderQuakeMap(quake([{ pref: '富山県', scale: 40 }], false));
+    expect(countColors(shaded!).has(EPICENTER_COLOR)).toBe(false);
+
+    expect(renderQuakeMap(quake([{ pref: '不明', scale: 40 }], false))).toBeUndefined();
+  });
+});
+
+describe('renderEEWMap', () => {
+  test('shades the prefectures of the forecast areas', () => {
+    const png = renderEEWMap(createEEW(1, { areas: [createEEWArea(45, 50)] }));
+
+    expect(countColors(png!).get(intensityColor(50))).toBeGreaterThan(2000);
+  });
+
+  test('renders nothing for cancellations', () => {
+    expect(renderEEWMap(createEEW(1, { cancelled: true }))).toBeUndefined();
+  });
+});
@@ -0,0 +1,160 @@
+import type { JMAQuake, EEW, SeismicIntensity } from 'p2pquake-client';
+import { getIntensityColor, getPredictedIntensity } from '../utils/intensity';
+import { isValidCoordinate } from '../utils/geo';
+import { Canvas, parseHexColor } from './canvas';
+import type { Color, Point } from './canvas';
+import { PREFECTURE_OUTLINES } from './basemap';
+import type { Ring } from './basemap';
+
+const MAP_SIZE = 640;
+
+// Degrees of latitude around the plotted features
+const MARGIN_DEGREES = 1;
+const MIN_SPAN_DEGREES = 4;
+
+const SEA_COLOR: Color = [220, 234, 245];
+const LAND_COLOR: Color = [244, 241, 234];
+const BORDER_COLOR: Color = [150, 150, 150];
+const EPICENTER_COLOR: Color = [226, 35, 26];
+const WHITE: Color = [255, 255, 255];
+
+interface Epicenter {
+  latitude: number;
+  longitude: number;
+}
+
+/**
+ * Strongest intensity of each prefecture on the base map
+ *
+ * P2PQuake observation points and EEW forecast areas carry no coordinates,
+ * only their prefecture, so intensities are shown per prefecture.
+ */
+function intensitiesByPrefecture(
+  entries: { pref?: string; intensity: SeismicIntensity }[]
+): Map<string, SeismicIntensity> {
+  const strongest = new Map<string, SeismicIntensity>();
+  entries.forEach(({ pref, intensity }) => {
+    if (pref && PREFECTURE_OUTLINES[pref] && intensity >= 0 && intensity !== 99) {
+      strongest.set(pref, Math.max(strongest.get(pref) ?? 0, intensity) as SeismicIntensity);
+    }
+  });
+  return strongest;
+}
+
+/**
+ * Longest outline of a prefecture: its main landmass rather than a remote island
+ */
+function mainRing(pref: string): Ring {
+  return PREFECTURE_OUTLINES[pref].reduce((largest, ring) =>
+    ring.length > largest.length ? ring : largest
+  );
+}
+
+/**
+ * Draw the base map with the prefectures shaded by intensity and the epicenter
+ * at the hypocenter coordinates, framed around both
+ */
+function renderMap(intensities: Map<string, SeismicIntensity>, epicenter?: Epicenter): Uint8Array {
+  const framed = [...intensities.keys()].flatMap(mainRing);
+  if (epicenter) {
+    framed.push([epicenter.longitude, epicenter.latitude]);
+  }
+  const latitudes = framed.map(([, latitude]) => latitude);
+  const longitudes = framed.map(([longitude]) => longitude);
+
+  const centerLat = (Math.min(...latitudes) + Math.max(...latitudes)) / 2;
+  const centerLon = (Math.min(...longitudes) + Math.max(...longitudes)) / 2;
+  // Longitudes are shortened by cos(latitude) so the map keeps its proportions
+  const lonScale = Math.cos((centerLat * Math.PI) / 180);
+  const span = Math.max(
+    MIN_SPAN_DEGREES,
+    Math.max(...latitudes) - Math.min(...latitudes) + MARGIN_DEGREES * 2,
+    (Math.max(...longitudes) - Math.min(...longitudes)) * lonScale + MARGIN_DEGREES * 2
+  );
+  const pixelsPerDegree = MAP_SIZE / span;
+
+  const project = (latitude: number, longitude: number): Point => [
+    MAP_SIZE / 2 + (longitude - centerLon) * lonScale * pixelsPerDegree,
+    MAP_SIZE / 2 - (latitude - centerLat) * pixelsPerDegree,
+  ];
+
+  const canvas = new Canvas(MAP_SIZE, MAP_SIZE, SEA_COLOR);
+
+  // Prefectures outside the frame are skipped
+  const visible = (points: Point[]) =>
+    points.some(([x]) => x >= 0) &&
+    points.some(([x]) => x < MAP_SIZE) &&
+    points.some(([, y]) => y >= 0) &&
+    points.some(([, y]) => y < MAP_SIZE);
+  Object.entries(PREFECTURE_OUTLINES).forEach(([pref, rings]) => {
+    const intensity = intensities.get(pref);
+    const fill = intensity === undefined ? LAND_COLOR : parseHexColor(getIntensityColor(intensity));
+    rings
+      .map((ring) => ring.map(([longitude, latitude]) => project(latitude, longitude)))
+      .filter(visible)
+      .forEach((points) => {
+        canvas.fillPolygon(points, fill);
+        canvas.strokePolygon(points, BORDER_COLOR);
+      });
+  });
+
+  // Epicenter as a red cross with a white halo
+  if (epicenter) {
+    const [x, y] = project(epicenter.latitude, epicenter.longitude);
+    const size = Math.max(8, Math.min(16, pixelsPerDegree * 0.15));
+    [WHITE, EPICENTER_COLOR].forEach((color, index) => {
+      const width = index === 0 ? 7 : 4;
+      canvas.line([x - size, y - size], [x + size, y + size], color, width);
+      canvas.line([x - size, y + size], [x + size, y - size], color, width);
+    });
+  }
+
+  return canvas.toPng();
+}
+
+/**
+ * Render the epicenter and observed intensities of an earthquake report as a PNG
+ *
+ * Prefectures are shaded with the strongest intensity observed in them.
+ * Returns undefined when there is nothing to plot.
+ */
+export function renderQuakeMap(quake: JMAQuake): Uint8Array | undefined {
+  const hypocenter = quake.earthquake.hypocenter;
+  const epicenter = isValidCoordinate(hypocenter?.latitude, hypocenter?.longitude)
+    ? { latitude: hypocenter.latitude, longitude: hypocenter.longitude }
+    : undefined;
+  const intensities = intensitiesByPrefecture(
+    (quake.points ?? []).map((point) => ({ pref: point.pref, intensity: point.scale }))
+  );
+
+  if (!epicenter && intensities.size === 0) {
+    return undefined;
+  }
+
+  return renderMap(intensities, epicenter);
+}
+
+/**
+ * Render the epicenter and predicted intensities of an EEW as a PNG
+ *
+ * Returns undefined for cancellations and when there is nothing to plot.
+ */
+export function renderEEWMap(eew: EEW): Uint8Array | undefined {
+  if (eew.cancelled) {
+    return undefined;
+  }
+
+  const hypocenter = eew.earthquake?.hypocenter;
+  const epicenter = isValidCoordinate(hypocenter?.latitude, hypocenter?.longitude)
+    ? { latitude: hypocenter.latitude, longitude: hypocenter.longitude }
+    : undefined;
+  const intensities = intensitiesByPrefecture(
+    (eew.areas ?? []).map((area) => ({ pref: area.pref, intensity: getPredictedIntensity(area) }))
+  );
+
+  if (!epicenter && intensities.size === 0) {
+    return undefined;
+  }
+
+  return renderMap(intensities, epicenter);
+}
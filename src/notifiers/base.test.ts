@@ -0,0 +1,61 @@
+import { describe, expect, test } from 'bun:test';
+import type { EEW, SeismicIntensity } from 'p2pquake-client';
+import type { WebhookNotifierConfig } from '../config/env';
+import { createEEW, createEEWArea } from '../test/eew';
+import { QueuedNotifier } from './base';
+
+/**
+ * Notifier recording the EEW serials it is asked to send
+ */
+class RecordingNotifier extends QueuedNotifier<WebhookNotifierConfig> {
+  sent: number[] = [];
+
+  protected async sendQuake(): Promise<void> {}
+
+  protected async sendTsunami(): Promise<void> {}
+
+  protected async sendEEW(eew: EEW): Promise<string | undefined> {
+    this.sent.push(Number(eew.issue.serial));
+    return undefined;
+  }
+}
+
+function createNotifier(): RecordingNotifier {
+  return new RecordingNotifier({
+    type: 'webhook',
+    name: 'test',
+    url: 'http://localhost/hook',
+    events: ['eew'],
+    minIntensity: 30,
+    eewMinIntensity: 55,
+    locales: ['ja'],
+  });
+}
+
+function eew(serial: number, intensity: SeismicIntensity): EEW {
+  return createEEW(serial, { areas: [createEEWArea(intensity, intensity)] });
+}
+
+const context = { late: false };
+
+describe('QueuedNotifier EEW filter', () => {
+  test('sends forecasts reaching eewMinIntensity', async () => {
+    const notifier = createNotifier();
+    await notifier.notifyEEW(eew(1, 55), context);
+    expect(notifier.sent).toEqual([1]);
+  });
+
+  test('skips forecasts below eewMinIntensity', async () => {
+    const notifier = createNotifier();
+    await notifier.notifyEEW(eew(1, 50), context);
+    expect(notifier.sent).toEqual([]);
+  });
+
+  test('sends later serials of a delivered event, skipping duplicates', async () => {
+    const notifier = createNotifier();
+    await notifier.notifyEEW(eew(1, 55), context);
+    await notifier.notifyEEW(eew(1, 55), context);
+    await notifier.notifyEEW(eew(2, 45), context);
+    expect(notifier.sent).toEqual([1, 2]);
+  });
+});
@@ -0,0 +1,223 @@
+import type { JMAQuake, JMATsunami, EEW, SeismicIntensity } from 'p2pquake-client';
+import { config } from '../config/env';
+import type { NotifierConfig } from '../config/env';
+import { metrics } from '../utils/metrics';
+import { getMaxPredictedIntensity, shouldNotify } from '../utils/intensity';
+import { DeliveryQueue } from '../services/deliveryQueue';
+import type { DeliveryPriority, FailureDecision } from '../services/deliveryQueue';
+import type { Notifier, NotificationContext } from './types';
+
+// Number of EEW events whose delivery state is kept in memory
+const MAX_TRACKED_EEW_EVENTS = 100;
+
+/**
+ * Delivery failure of a notifier backend, with how it should be handled
+ */
+export class NotifierError extends Error {
+  readonly decision: FailureDecision;
+
+  constructor(message: string, decision: FailureDecision) {
+    super(message);
+    this.name = 'NotifierError';
+    this.decision = decision;
+  }
+}
+
+/**
+ * Decide whether a failed delivery should be retried
+ *
+ * Errors other than NotifierError come from the network (connection refused
+ * or reset, timeouts) and are worth another attempt.
+ */
+export function classifyNotifierError(error: unknown): FailureDecision {
+  if (error instanceof NotifierError) {
+    return error.decision;
+  }
+
+  return { code: 'request_error', retryable: true };
+}
+
+/**
+ * EEW event already delivered by a notifier
+ */
+export interface EEWDelivery {
+  serial: number;
+  // Highest predicted intensity delivered so far
+  maxIntensity: SeismicIntensity;
+  // Backend reference of the delivered message (e.g. a Discord message ID), if any
+  messageId?: string;
+}
+
+/**
+ * Base of the notifier backends other than Slack
+ *
+ * Applies the backend's event and intensity filters, tracks EEW events so
+ * that later serials reach the backend that saw the first one, and runs every
+ * delivery through the backend's own queue, so that one failing backend never
+ * delays or fails another.
+ */
+export abstract class QueuedNotifier<T extends NotifierConfig> implements Notifier {
+  readonly name: string;
+  protected settings: T;
+  private queue: DeliveryQueue;
+  private eewDeliveries = new Map<string, EEWDelivery>();
+  private eewChain: Promise<void> = Promise.resolve();
+
+  constructor(settings: T) {
+    this.name = settings.name;
+    this.settings = settings;
+    this.queue = new DeliveryQueue({
+      maxAttempts: config.deliveryMaxAttempts,
+      baseDelayMs: 1000,
+      maxDelayMs: 60_000,
+      classify: classifyNotifierError,
+    });
+  }
+
+  drain(timeoutMs: number): Promise<boolean> {
+    return this.queue.drain(timeoutMs);
+  }
+
+  async notifyQuake(quake: JMAQuake, context: NotificationContext): Promise<void> {
+    if (
+      !this.settings.events.includes('quake') ||
+      !shouldNotify(quake.earthquake.maxScale, this.settings.minIntensity)
+    ) {
+      return;
+    }
+
+    await this.deliver('quake', 'normal', () => this.sendQuake(quake, context));
+  }
+
+  async notifyTsunami(tsunami: JMATsunami, context: NotificationContext): Promise<void> {
+    if (!this.settings.events.includes('tsunami')) {
+      return;
+    }
+
+    await this.deliver('tsunami', 'high', () => this.sendTsunami(tsunami, context));
+  }
+
+  notifyEEW(eew: EEW, context: NotificationContext): Promise<void> {
+    if (!this.settings.events.includes('eew')) {
+      return Promise.resolve();
+    }
+
+    // Serialize serials so that a fast second serial never races the first delivery
+    const task = this.eewChain.then(() => this.deliverEEW(eew, context));
+    this.eewChain = task.then(
+      () => undefined,
+      () => undefined
+    );
+    return task;
+  }
+
+  /**
+   * Deliver an earthquake report
+   */
+  protected abstract sendQuake(quake: JMAQuake, context: NotificationContext): Promise<void>;
+
+  /**
+   * Deliver a tsunami bulletin
+   */
+  protected abstract sendTsunami(tsunami: JMATsunami, context: NotificationContext): Promise<void>;
+
+  /**
+   * Deliver an EEW serial, given the delivery of the event's earlier serials
+   *
+   * Returns the backend reference of the message, if the backend has one.
+   */
+  protected abstract sendEEW(
+    eew: EEW,
+    context: NotificationContext,
+    previous?: EEWDelivery
+  ): Promise<string | undefined>;
+
+  /**
+   * Whether a later serial of a delivered EEW event is delivered as well
+   *
+   * Backends that cannot edit their messages override this to skip serials
+   * that change nothing important.
+   */
+  protected shouldSendEEWUpdate(_eew: EEW, _previous: EEWDelivery): boolean {
+    return true;
+  }
+
+  private async deliverEEW(eew: EEW, context: NotificationContext): Promise<void> {
+    const eventId = eew.issue.eventId;
+    const serial = Number(eew.issue.serial);
+    const maxIntensity = getMaxPredictedIntensity(eew);
+    const previous = eventId ? this.eewDeliveries.get(eventId) : undefined;
+
+    if (!previous) {
+      const { eewMinIntensity } = this.settings;
+      if (
+        eewMinIntensity !== undefined &&
+        (eew.cancelled || !shouldNotify(maxIntensity, eewMinIntensity))
+      ) {
+        return;
+      }
+    } else if (serial < previous.serial || (serial === previous.serial && !eew.cancelled)) {
+      // Duplicates and serials that arrive after a newer one
+      return;
+    } else if (!this.shouldSendEEWUpdate(eew, previous)) {
+      this.trackEEW(eventId, { ...previous, serial });
+      return;
+    }
+
+    const messageId = await this.deliver('eew', 'high', () => this.sendEEW(eew, context, previous));
+
+    if (eventId) {
+      this.trackEEW(eventId, {
+        serial,
+        maxIntensity: Math.max(previous?.maxIntensity ?? 0, maxIntensity) as SeismicIntensity,
+        messageId: messageId ?? previous?.messageId,
+      });
+    }
+  }
+
+  private trackEEW(eventId: string, delivery: EEWDelivery): void {
+    this.eewDeliveries.delete(eventId);
+    this.eewDeliveries.set(eventId, delivery);
+
+    // Drop the oldest events (Map keeps insertion order)
+    while (this.eewDeliveries.size > MAX_TRACKED_EEW_EVENTS) {
+      const oldest = this.eewDeliveries.keys().next().value;
+      if (oldest === undefined) {
+        break;
+      }
+      this.eewDeliveries.delete(oldest);
+    }
+  }
+
+  /**
+   * Run a delivery through the queue, recording each attempt
+   */
+  private deliver<R>(
+    event: 'quake' | 'tsunami' | 'eew',
+    priority: DeliveryPriority,
+    run: () => Promise<R>
+  ): Promise<R> {
+    return this.queue.enqueue(priority, `${this.name}:${event}`, async () => {
+      try {
+        const result = await run();
+        metrics.notifierSends.inc({ notifier: this.name, event });
+        return result;
+      } catch (error) {
+        metrics.notifierFailures.inc({
+          notifier: this.name,
+          code: classifyNotifierError(error).code,
+        });
+        throw error;
+      }
+    });
+  }
+}
+
+/**
+ * Whether an EEW serial is worth a new message on a backend that cannot edit
+ *
+ * Cancellations and serials raising the maximum predicted intensity are.
+ */
+export function isSignificantEEWUpdate(eew: EEW, previous: EEWDelivery): boolean {
+  return eew.cancelled || getMaxPredictedIntensity(eew) > previous.maxIntensity;
+}
@@ -0,0 +1,293 @@
+import type { JMAQuake, JMATsunami, EEW, SeismicIntensity } from 'p2pquake-client';
+import { config } from '../config/env';
+import type { Locale } from '../i18n';
+import { createLocalizer } from '../i18n/localizer';
+import type { Localizer } from '../i18n/localizer';
+import { getIntensityColor, getMaxPredictedIntensity } from '../utils/intensity';
+import { estimateSites, getEEWHypocenter, getQuakeHypocenter } from '../utils/siteEstimate';
+import type { Hypocenter } from '../utils/siteEstimate';
+import { groupTsunamiAreas } from '../utils/tsunami';
+import type { NotificationContext } from './types';
+
+// Places listed per intensity or grade before the rest are only counted
+const MAX_PLACES = 10;
+const MAX_EEW_AREAS = 15;
+
+const TSUNAMI_COLORS: Record<string, string> = {
+  MajorWarning: '#C800FF',
+  Warning: '#E2231A',
+  Watch: '#F2C744',
+};
+const TSUNAMI_UNKNOWN_COLOR = '#3AA3E3';
+const CANCELLED_COLOR = '#2EB67D';
+
+export type Severity = 'resolved' | 'info' | 'warning' | 'critical';
+
+export interface ContentField {
+  name: string;
+  value: string;
+}
+
+export interface ContentSection {
+  title: string;
+  lines: string[];
+}
+
+/**
+ * Platform-neutral content of a notification in one language
+ *
+ * Built from the same parsed payloads and message catalogs as the Block Kit
+ * formatter, without any markup, so that each backend renders it its own way.
+ */
+export interface NotificationContent {
+  locale: Locale;
+  title: string;
+  description: string;
+  severity: Severity;
+  // Hex color reflecting the severity
+  color: string;
+  fields: ContentField[];
+  sections: ContentSection[];
+  footer: string;
+  url: string;
+}
+
+function getIntensitySeverity(intensity: SeismicIntensity): Severity {
+  return intensity >= 55 ? 'critical' : intensity >= 40 ? 'warning' : 'info';
+}
+
+function listPlaces(l: Localizer, names: string[]): string {
+  const places = names.slice(0, MAX_PLACES).map((name) => l.place(name));
+  const remaining = names.length - MAX_PLACES;
+  return `${places.join(l.m.listSeparator)}${remaining > 0 ? l.m.more(remaining) : ''}`;
+}
+
+function buildDescription(l: Localizer, body: string, time: string, late: boolean): string {
+  // Some catalog bodies carry Slack emphasis
+  const text = body.replace(/\*/g, '');
+  return late ? `${l.m.notifiers.late(l.dateTime(time))}\n\n${text}` : text;
+}
+
+function buildFooter(l: Localizer, time: string, prefix?: string): string {
+  const issuedAt = l.m.footer.issuedAt(l.dateTime(time));
+  return `${prefix ? `${prefix} | ` : ''}${issuedAt} | ${l.m.notifiers.jmaLink}`;
+}
+
+function buildHypocenterFields(
+  l: Localizer,
+  hypocenter: { name?: string; magnitude?: number; depth?: number } | undefined
+): ContentField[] {
+  const { m } = l;
+  const fields: ContentField[] = [];
+
+  if (hypocenter?.name) {
+    fields.push({ name: m.labels.hypocenter, value: l.place(hypocenter.name) });
+  }
+  if (hypocenter?.magnitude !== undefined && hypocenter.magnitude >= 0) {
+    fields.push({ name: m.labels.magnitude, value: `M${hypocenter.magnitude.toFixed(1)}` });
+  }
+  if (hypocenter?.depth !== undefined && hypocenter.depth >= 0) {
+    fields.push({ name: m.labels.depth, value: m.depth(hypocenter.depth) });
+  }
+
+  return fields;
+}
+
+function buildSiteSection(l: Localizer, hypocenter: Hypocenter | undefined): ContentSection[] {
+  if (config.sites.length === 0 || !hypocenter) {
+    return [];
+  }
+
+  const lines = estimateSites(config.sites, hypocenter).map((estimate) => {
+    const parts = [
+      l.m.sites.intensity(l.intensity(estimate.intensity)),
+      l.m.sites.distance(Math.round(estimate.distanceKm)),
+      l.m.sites.arrival(
+        l.m.timeWithSeconds(estimate.pArrival),
+        l.m.timeWithSeconds(estimate.sArrival)
+      ),
+    ];
+    return `${estimate.site.name}: ${parts.join(' | ')}`;
+  });
+
+  return [{ title: l.m.sites.title, lines: [...lines, l.m.sites.disclaimer] }];
+}
+
+/**
+ * Build the content of an earthquake report (Code 551)
+ */
+export function buildQuakeContent(
+  quake: JMAQuake,
+  context: NotificationContext,
+  locale: Locale
+): NotificationContent {
+  const l = createLocalizer(locale);
+  const { m } = l;
+  const maxIntensity = quake.earthquake.maxScale;
+
+  const fields: ContentField[] = [
+    { name: m.labels.maxIntensity, value: l.intensity(maxIntensity) },
+    { name: m.labels.originTime, value: l.dateTime(quake.earthquake.time) },
+    ...buildHypocenterFields(l, quake.earthquake.hypocenter),
+  ];
+  if (quake.earthquake.domesticTsunami) {
+    const tsunami = quake.earthquake.domesticTsunami;
+    fields.push({ name: m.labels.tsunami, value: m.domesticTsunami[tsunami] || tsunami });
+  }
+
+  // Observation points grouped by intensity, strongest first
+  const grouped = new Map<SeismicIntensity, string[]>();
+  (quake.points ?? []).forEach((point) => {
+    grouped.set(point.scale, [...(grouped.get(point.scale) ?? []), point.addr]);
+  });
+  const points = Array.from(grouped.entries())
+    .sort(([a], [b]) => b - a)
+    .map(([intensity, names]) => ({
+      title: l.intensity(intensity),
+      lines: [listPlaces(l, names)],
+    }));
+
+  return {
+    locale,
+    title: m.quake.title,
+    description: buildDescription(l, m.quake.body, quake.time, context.late),
+    severity: getIntensitySeverity(maxIntensity),
+    color: getIntensityColor(maxIntensity),
+    fields,
+    sections: [...buildSiteSection(l, getQuakeHypocenter(quake)), ...points],
+    footer: buildFooter(l, quake.time),
+    url: m.notifiers.jmaUrl,
+  };
+}
+
+/**
+ * Build the content of a tsunami bulletin (Code 552)
+ */
+export function buildTsunamiContent(
+  tsunami: JMATsunami,
+  context: NotificationContext,
+  locale: Locale
+): NotificationContent {
+  const l = createLocalizer(locale);
+  const { m } = l;
+
+  const groups = tsunami.cancelled ? [] : groupTsunamiAreas(tsunami.areas ?? []);
+  const sections = groups.map(([grade, areas]) => ({
+    title: `${m.tsunamiGrade[grade] || grade}${m.parenthesize(String(areas.length))}`,
+    lines: areas.map((area) => {
+      const details: string[] = [];
+      if (area.firstHeight?.arrivalTime) {
+        details.push(m.tsunami.firstWave(l.time(area.firstHeight.arrivalTime)));
+      }
+      if (area.firstHeight?.condition) {
+        const condition = area.firstHeight.condition;
+        details.push(m.tsunami.conditions[condition] ?? condition);
+      }
+      if (area.maxHeight?.description) {
+        const height = area.maxHeight.description;
+        details.push(m.tsunami.maxHeight(m.tsunami.heights[height] ?? height));
+      }
+      if (area.immediate) {
+        details.push(m.tsunami.immediate);
+      }
+      return details.length > 0
+        ? `${l.place(area.name)}: ${details.join(' | ')}`
+        : l.place(area.name);
+    }),
+  }));
+
+  const topGrade = groups[0]?.[0];
+  const color = tsunami.cancelled
+    ? CANCELLED_COLOR
+    : ((topGrade && TSUNAMI_COLORS[topGrade]) ?? TSUNAMI_UNKNOWN_COLOR);
+  const severity: Severity = tsunami.cancelled
+    ? 'resolved'
+    : topGrade === 'MajorWarning' || topGrade === 'Warning'
+      ? 'critical'
+      : topGrade === 'Watch'
+        ? 'warning'
+        : 'info';
+
+  return {
+    locale,
+    title: m.tsunami.title,
+    description: buildDescription(
+      l,
+      tsunami.cancelled ? m.tsunami.cancelled : m.tsunami.body,
+      tsunami.time,
+      context.late
+    ),
+    severity,
+    color,
+    fields: [],
+    sections,
+    footer: buildFooter(l, tsunami.time),
+    url: m.notifiers.jmaUrl,
+  };
+}
+
+/**
+ * Build the content of an EEW serial (Code 556)
+ */
+export function buildEEWContent(
+  eew: EEW,
+  context: NotificationContext,
+  locale: Locale
+): NotificationContent {
+  const l = createLocalizer(locale);
+  const { m } = l;
+  const maxPredictedIntensity = getMaxPredictedIntensity(eew);
+
+  const title = eew.cancelled ? m.eew.titleCancelled : eew.test ? m.eew.titleTest : m.eew.title;
+  const body = eew.cancelled
+    ? m.eew.cancelled
+    : eew.test
+      ? m.eew.test
+      : maxPredictedIntensity >= 50
+        ? m.eew.warning
+        : m.eew.received;
+
+  const fields: ContentField[] = [];
+  if (eew.earthquake?.originTime) {
+    fields.push({ name: m.labels.originTime, value: l.dateTime(eew.earthquake.originTime) });
+  }
+  fields.push(...buildHypocenterFields(l, eew.earthquake?.hypocenter));
+  if (maxPredictedIntensity > 0) {
+    fields.push({
+      name: m.labels.maxPredictedIntensity,
+      value: l.intensity(maxPredictedIntensity),
+    });
+  }
+
+  const sections: ContentSection[] = [];
+  if (!eew.cancelled) {
+    sections.push(...buildSiteSection(l, getEEWHypocenter(eew)));
+
+    const areas = eew.areas ?? [];
+    if (areas.length > 0) {
+      const lines = areas.slice(0, MAX_EEW_AREAS).map((area) => {
+        const from = area.scaleFrom ? l.intensity(area.scaleFrom) : m.eew.unknownIntensity;
+        const to =
+          area.scaleTo && area.scaleTo !== area.scaleFrom ? `〜${l.intensity(area.scaleTo)}` : '';
+        const arrival = area.arrivalTime ? m.parenthesize(l.time(area.arrivalTime)) : '';
+        return `${l.place(area.name)}: ${from}${to}${arrival}`;
+      });
+      if (areas.length > MAX_EEW_AREAS) {
+        lines.push(m.eew.moreAreas(areas.length - MAX_EEW_AREAS).trim());
+      }
+      sections.push({ title: m.eew.predictedIntensity, lines });
+    }
+  }
+
+  return {
+    locale,
+    title,
+    description: buildDescription(l, body, eew.time, context.late),
+    severity: eew.cancelled ? 'resolved' : getIntensitySeverity(maxPredictedIntensity),
+    color: eew.cancelled ? CANCELLED_COLOR : getIntensityColor(maxPredictedIntensity),
+    fields,
+    sections,
+    footer: buildFooter(l, eew.time, eew.test ? m.eew.testLabel : m.eew.serial(eew.issue.serial)),
+    url: m.notifiers.jmaUrl,
+  };
+}
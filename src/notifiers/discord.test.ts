@@ -0,0 +1,61 @@
+import { describe, expect, test } from 'bun:test';
+import type { NotificationContent } from './content';
+import { fitDiscordEmbeds, renderDiscordEmbed } from './discord';
+
+function content(sections: number, lineLength: number): NotificationContent {
+  return {
+    locale: 'ja',
+    title: '震源・震度情報',
+    description: '震度3以上が観測された地域をお知らせします。',
+    severity: 'warning',
+    color: '#ff9900',
+    fields: [{ name: '最大震度', value: '5弱' }],
+    sections: Array.from({ length: sections }, (_, index) => ({
+      title: `地域 ${index + 1}`,
+      lines: ['x'.repeat(lineLength)],
+    })),
+    footer: 'P2P地震情報',
+    url: 'https://www.p2pquake.net/',
+  };
+}
+
+function totalLength(embeds: ReturnType<typeof renderDiscordEmbed>[]): number {
+  return embeds.reduce(
+    (total, embed) =>
+      total +
+      embed.title.length +
+      embed.description.length +
+      embed.footer.text.length +
+      embed.fields.reduce((sum, field) => sum + field.name.length + field.value.length, 0),
+    0
+  );
+}
+
+describe('fitDiscordEmbeds', () => {
+  test('leaves messages within the limit as they are', () => {
+    const embeds = [renderDiscordEmbed(content(2, 100))];
+    expect(fitDiscordEmbeds(embeds)).toEqual(embeds);
+  });
+
+  test('keeps the embeds of every language within 6000 characters together', () => {
+    // Each embed is within Discord's per-field limits, but not the message total
+    const embeds = [content(10, 1000), content(10, 1000)].map(renderDiscordEmbed);
+    const fitted = fitDiscordEmbeds(embeds);
+
+    expect(totalLength(embeds)).toBeGreaterThan(6000);
+    expect(totalLength(fitted)).toBeLessThanOrEqual(6000);
+    fitted.forEach((embed) => {
+      expect(embed.title).toBe('震源・震度情報');
+      expect(embed.fields[0].name).toBe('最大震度');
+      expect(embed.fields.at(-1)?.name).not.toBe('地域 10');
+    });
+  });
+
+  test('cuts the description when dropping fields is not enough', () => {
+    const long = { ...content(0, 0), description: 'x'.repeat(4096) };
+    const fitted = fitDiscordEmbeds([long, long].map(renderDiscordEmbed));
+
+    expect(totalLength(fitted)).toBeLessThanOrEqual(6000);
+    expect(fitted[0].description.endsWith('…')).toBe(true);
+  });
+});
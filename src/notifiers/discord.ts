@@ -0,0 +1,189 @@
+import type { JMAQuake, JMATsunami, EEW } from 'p2pquake-client';
+import type { DiscordNotifierConfig } from '../config/env';
+import { formatEEWText, formatQuakeText, formatTsunamiText } from '../utils/formatter';
+import { QueuedNotifier } from './base';
+import type { EEWDelivery } from './base';
+import { buildEEWContent, buildQuakeContent, buildTsunamiContent } from './content';
+import type { NotificationContent } from './content';
+import { sendJson } from './http';
+import type { NotificationContext } from './types';
+
+// Discord rejects messages exceeding these limits
+const MAX_CONTENT = 2000;
+const MAX_TITLE = 256;
+const MAX_DESCRIPTION = 4096;
+const MAX_FIELDS = 25;
+const MAX_FIELD_NAME = 256;
+const MAX_FIELD_VALUE = 1024;
+const MAX_FOOTER = 2048;
+// Text of all the embeds of a message together
+const MAX_EMBEDS_TOTAL = 6000;
+
+interface DiscordEmbed {
+  title: string;
+  description: string;
+  url: string;
+  color: number;
+  fields: { name: string; value: string; inline: boolean }[];
+  footer: { text: string };
+}
+
+/**
+ * Discord execute-webhook payload
+ */
+export interface DiscordMessage {
+  username?: string;
+  content: string;
+  embeds: DiscordEmbed[];
+  // Never ping anyone from notification text
+  allowed_mentions: { parse: never[] };
+}
+
+function truncate(text: string, max: number): string {
+  return text.length <= max ? text : `${text.slice(0, max - 1)}…`;
+}
+
+/**
+ * Render notification content as a Discord embed
+ *
+ * Fields are shown inline; sections become full-width fields.
+ */
+export function renderDiscordEmbed(content: NotificationContent): DiscordEmbed {
+  const fields = [
+    ...content.fields.map((field) => ({ ...field, inline: true })),
+    ...content.sections.map((section) => ({
+      name: section.title,
+      value: section.lines.join('\n'),
+      inline: false,
+    })),
+  ];
+
+  return {
+    title: truncate(content.title, MAX_TITLE),
+    description: truncate(content.description, MAX_DESCRIPTION),
+    url: content.url,
+    color: parseInt(content.color.slice(1), 16),
+    fields: fields.slice(0, MAX_FIELDS).map((field) => ({
+      name: truncate(field.name, MAX_FIELD_NAME),
+      value: truncate(field.value, MAX_FIELD_VALUE),
+      inline: field.inline,
+    })),
+    footer: { text: truncate(content.footer, MAX_FOOTER) },
+  };
+}
+
+/**
+ * Characters of an embed that count towards MAX_EMBEDS_TOTAL
+ */
+function embedLength(embed: DiscordEmbed): number {
+  return (
+    embed.title.length +
+    embed.description.length +
+    embed.footer.text.length +
+    embed.fields.reduce((total, field) => total + field.name.length + field.value.length, 0)
+  );
+}
+
+/**
+ * Shrink the embeds of a message to the text Discord allows across all of them
+ *
+ * Each embed gets an equal share. Over its share, fields are dropped from the
+ * end (sections come last), then the description is cut.
+ */
+export function fitDiscordEmbeds(embeds: DiscordEmbed[]): DiscordEmbed[] {
+  const budget = Math.floor(MAX_EMBEDS_TOTAL / Math.max(embeds.length, 1));
+
+  return embeds.map((embed) => {
+    const fitted = { ...embed, fields: [...embed.fields] };
+    while (embedLength(fitted) > budget && fitted.fields.length > 0) {
+      fitted.fields.pop();
+    }
+
+    const excess = embedLength(fitted) - budget;
+    if (excess > 0) {
+      fitted.description = truncate(
+        fitted.description,
+        Math.max(1, fitted.description.length - excess)
+      );
+    }
+    return fitted;
+  });
+}
+
+/**
+ * Build a webhook URL for a path below the configured one, keeping its query (e.g. thread_id)
+ */
+function buildUrl(base: string, path: string, params: Record<string, string> = {}): URL {
+  const url = new URL(base);
+  url.pathname = `${url.pathname.replace(/\/$/, '')}${path}`;
+  Object.entries(params).forEach(([key, value]) => url.searchParams.set(key, value));
+  return url;
+}
+
+/**
+ * Notifier posting to a Discord channel webhook, one embed per language
+ *
+ * EEW serials edit the message of the event's first serial.
+ */
+export class DiscordNotifier extends QueuedNotifier<DiscordNotifierConfig> {
+  protected async sendQuake(quake: JMAQuake, context: NotificationContext): Promise<void> {
+    await this.post(
+      this.render(
+        formatQuakeText(quake, this.settings.locales),
+        this.settings.locales.map((locale) => buildQuakeContent(quake, context, locale))
+      )
+    );
+  }
+
+  protected async sendTsunami(tsunami: JMATsunami, context: NotificationContext): Promise<void> {
+    await this.post(
+      this.render(
+        formatTsunamiText(tsunami, this.settings.locales),
+        this.settings.locales.map((locale) => buildTsunamiContent(tsunami, context, locale))
+      )
+    );
+  }
+
+  protected async sendEEW(
+    eew: EEW,
+    context: NotificationContext,
+    previous?: EEWDelivery
+  ): Promise<string | undefined> {
+    const message = this.render(
+      formatEEWText(eew, this.settings.locales),
+      this.settings.locales.map((locale) => buildEEWContent(eew, context, locale))
+    );
+
+    if (previous?.messageId) {
+      await sendJson({
+        url: buildUrl(this.settings.url, `/messages/${previous.messageId}`),
+        method: 'PATCH',
+        body: JSON.stringify(message),
+      });
+      return previous.messageId;
+    }
+
+    return this.post(message);
+  }
+
+  private render(text: string, contents: NotificationContent[]): DiscordMessage {
+    return {
+      username: this.settings.username,
+      content: truncate(text, MAX_CONTENT),
+      embeds: fitDiscordEmbeds(contents.map(renderDiscordEmbed)),
+      allowed_mentions: { parse: [] },
+    };
+  }
+
+  /**
+   * Post a message and return its ID
+   */
+  private async post(message: DiscordMessage): Promise<string | undefined> {
+    const response = await sendJson({
+      url: buildUrl(this.settings.url, '', { wait: 'true' }),
+      body: JSON.stringify(message),
+    });
+    const posted = (await response.json()) as { id?: string };
+    return posted.id;
+  }
+}
@@ -0,0 +1,181 @@
+import { randomUUID } from 'node:crypto';
+import type { JMAQuake, JMATsunami, EEW } from 'p2pquake-client';
+import type { EmailNotifierConfig } from '../config/env';
+import { formatEEWText, formatQuakeText, formatTsunamiText } from '../utils/formatter';
+import { isSignificantEEWUpdate, QueuedNotifier } from './base';
+import type { EEWDelivery } from './base';
+import { buildEEWContent, buildQuakeContent, buildTsunamiContent } from './content';
+import type { NotificationContent } from './content';
+import { sendMail } from './smtp';
+import type { NotificationContext } from './types';
+
+/**
+ * Rendered email, before MIME encoding
+ */
+export interface EmailMessage {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function renderText(content: NotificationContent): string {
+  const lines = [content.title, '', content.description, ''];
+
+  content.fields.forEach((field) => lines.push(`${field.name}: ${field.value}`));
+  content.sections.forEach((section) => {
+    lines.push('', `[${section.title}]`, ...section.lines);
+  });
+  lines.push('', content.footer, content.url);
+
+  return lines.join('\n');
+}
+
+function renderHtml(content: NotificationContent): string {
+  const paragraphs = (text: string) => escapeHtml(text).replace(/\n/g, '<br>');
+  const parts = [
+    `<h2 style="border-left:6px solid ${content.color};padding-left:8px">${escapeHtml(content.title)}</h2>`,
+    `<p>${paragraphs(content.description)}</p>`,
+  ];
+
+  if (content.fields.length > 0) {
+    const rows = content.fields
+      .map(
+        (field) =>
+          `<tr><th align="left" style="padding-right:16px">${escapeHtml(field.name)}</th><td>${escapeHtml(field.value)}</td></tr>`
+      )
+      .join('');
+    parts.push(`<table>${rows}</table>`);
+  }
+
+  content.sections.forEach((section) => {
+    parts.push(
+      `<h3>${escapeHtml(section.title)}</h3>`,
+      `<p>${section.lines.map(paragraphs).join('<br>')}</p>`
+    );
+  });
+
+  parts.push(
+    `<p style="color:#666;font-size:small">${escapeHtml(content.footer)}<br>` +
+      `<a href="${escapeHtml(content.url)}">${escapeHtml(content.url)}</a></p>`
+  );
+
+  return parts.join('\n');
+}
+
+/**
+ * Render notification content in every language as a plain text and HTML email
+ */
+export function renderEmail(subject: string, contents: NotificationContent[]): EmailMessage {
+  return {
+    subject,
+    text: contents.map(renderText).join('\n\n----------\n\n'),
+    html: `<!DOCTYPE html>\n<html><body>\n${contents.map(renderHtml).join('\n<hr>\n')}\n</body></html>`,
+  };
+}
+
+/**
+ * Encode a header value as an RFC 2047 encoded word when it is not plain ASCII
+ */
+function encodeHeader(value: string): string {
+  return /^[\x00-\x7F]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+/**
+ * Base64 body part wrapped at 76 characters per line
+ */
+function encodeBody(text: string): string {
+  return (
+    Buffer.from(text, 'utf8')
+      .toString('base64')
+      .match(/.{1,76}/g)
+      ?.join('\r\n') ?? ''
+  );
+}
+
+/**
+ * Build the MIME message (multipart/alternative) of an email
+ */
+export function buildMimeMessage(
+  email: EmailMessage,
+  from: string,
+  to: string[],
+  date: Date = new Date()
+): string {
+  const boundary = `=_${randomUUID()}`;
+  const domain = from.split('@')[1] ?? 'localhost';
+
+  return [
+    `From: ${from}`,
+    `To: ${to.join(', ')}`,
+    `Subject: ${encodeHeader(email.subject)}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBody(email.text),
+    `--${boundary}`,
+    'Content-Type: text/html; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBody(email.html),
+    `--${boundary}--`,
+  ].join('\r\n');
+}
+
+/**
+ * Notifier sending emails through an SMTP server
+ *
+ * Emails cannot be edited, so later EEW serials are only sent when they
+ * raise the predicted intensity or cancel the warning.
+ */
+export class EmailNotifier extends QueuedNotifier<EmailNotifierConfig> {
+  protected async sendQuake(quake: JMAQuake, context: NotificationContext): Promise<void> {
+    await this.send(
+      formatQuakeText(quake, this.settings.locales),
+      this.settings.locales.map((locale) => buildQuakeContent(quake, context, locale))
+    );
+  }
+
+  protected async sendTsunami(tsunami: JMATsunami, context: NotificationContext): Promise<void> {
+    await this.send(
+      formatTsunamiText(tsunami, this.settings.locales),
+      this.settings.locales.map((locale) => buildTsunamiContent(tsunami, context, locale))
+    );
+  }
+
+  protected async sendEEW(eew: EEW, context: NotificationContext): Promise<undefined> {
+    await this.send(
+      formatEEWText(eew, this.settings.locales),
+      this.settings.locales.map((locale) => buildEEWContent(eew, context, locale))
+    );
+    return undefined;
+  }
+
+  protected shouldSendEEWUpdate(eew: EEW, previous: EEWDelivery): boolean {
+    return isSignificantEEWUpdate(eew, previous);
+  }
+
+  private async send(subject: string, contents: NotificationContent[]): Promise<void> {
+    const { from, to } = this.settings;
+    await sendMail(
+      this.settings,
+      { from, to },
+      buildMimeMessage(renderEmail(subject, contents), from, to)
+    );
+  }
+}
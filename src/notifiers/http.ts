@@ -0,0 +1,43 @@
+import { NotifierError } from './base';
+
+const REQUEST_TIMEOUT_MS = 10_000;
+
+export interface JsonRequest {
+  url: string | URL;
+  method?: 'POST' | 'PATCH';
+  body: string;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Parse a Retry-After header given in seconds
+ */
+function parseRetryAfter(value: string | null): number | undefined {
+  const seconds = Number(value);
+  return value && Number.isFinite(seconds) && seconds >= 0 ? seconds * 1000 : undefined;
+}
+
+/**
+ * Send a JSON request to a webhook endpoint
+ *
+ * Rejects with a NotifierError for HTTP errors: rate limits (429) and server
+ * errors (5xx) are retryable, other statuses are permanent.
+ */
+export async function sendJson(request: JsonRequest): Promise<Response> {
+  const response = await fetch(request.url, {
+    method: request.method ?? 'POST',
+    headers: { 'Content-Type': 'application/json', ...request.headers },
+    body: request.body,
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  });
+
+  if (!response.ok) {
+    throw new NotifierError(`HTTP ${response.status} ${await response.text()}`.trim(), {
+      code: `http_${response.status}`,
+      retryable: response.status === 429 || response.status >= 500,
+      retryAfterMs: parseRetryAfter(response.headers.get('Retry-After')),
+    });
+  }
+
+  return response;
+}
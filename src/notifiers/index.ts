@@ -0,0 +1,26 @@
+import type { NotifierConfig } from '../config/env';
+import { DiscordNotifier } from './discord';
+import { EmailNotifier } from './email';
+import { TeamsNotifier } from './teams';
+import { WebhookNotifier } from './webhook';
+import type { Notifier } from './types';
+
+export type { Notifier, NotificationContext } from './types';
+export { SlackNotifier, assertDelivered, fanOut, selectUndelivered } from './slack';
+export { classifyNotifierError } from './base';
+
+/**
+ * Create the notifier of a NOTIFIERS backend
+ */
+export function createNotifier(settings: NotifierConfig): Notifier {
+  switch (settings.type) {
+    case 'discord':
+      return new DiscordNotifier(settings);
+    case 'teams':
+      return new TeamsNotifier(settings);
+    case 'webhook':
+      return new WebhookNotifier(settings);
+    case 'email':
+      return new EmailNotifier(settings);
+  }
+}
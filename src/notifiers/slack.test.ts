@@ -0,0 +1,195 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import type { EEW, JMAQuake, JMATsunami } from 'p2pquake-client';
+import { EventStore } from '../services/eventStore';
+import { createEEW } from '../test/eew';
+import { RecordingSlackService } from '../test/recordingSlack';
+import { SlackNotifier } from './slack';
+
+const CHANNEL = 'C0123456789';
+
+describe('SlackNotifier EEW messages', () => {
+  let store: EventStore;
+
+  beforeEach(() => {
+    store = new EventStore(':memory:');
+  });
+
+  afterEach(() => {
+    store.close();
+  });
+
+  // Deliver an EEW the way the event pipeline does: recorded first, then notified
+  async function deliver(notifier: SlackNotifier, payload: EEW): Promise<void> {
+    store.claim(payload);
+    await notifier.notifyEEW(payload, { late: false });
+    store.completeDelivery(payload.id);
+  }
+
+  test('updates the message of the first serial', async () => {
+    const slack = new RecordingSlackService();
+    const notifier = new SlackNotifier(slack, store);
+
+    await deliver(notifier, createEEW(1));
+    await deliver(notifier, createEEW(2));
+
+    const [post, update, reply] = slack.calls;
+    expect(post).toMatchObject({ action: 'post', channel: CHANNEL });
+    expect(update).toMatchObject({ action: 'update', ts: post.ts });
+    expect(reply).toMatchObject({ action: 'reply', threadTs: post.ts });
+  });
+
+  test('keeps updating the same message after a restart', async () => {
+    const before = new RecordingSlackService();
+    await deliver(new SlackNotifier(before, store), createEEW(1));
+
+    const after = new RecordingSlackService();
+    await deliver(new SlackNotifier(after, store), createEEW(2));
+
+    expect(after.calls[0]).toMatchObject({ action: 'update', ts: before.calls[0].ts });
+    expect(after.calls.some((call) => call.action === 'post' && !call.threadTs)).toBe(false);
+  });
+
+  test('skips serials older than the delivered one', async () => {
+    const slack = new RecordingSlackService();
+    const notifier = new SlackNotifier(slack, store);
+
+    await deliver(notifier, createEEW(2));
+    await deliver(notifier, createEEW(1));
+
+    expect(slack.calls.map((call) => call.action)).toEqual(['post']);
+  });
+});
+
+describe('SlackNotifier earthquake reports', () => {
+  test('reply in the thread of the matching EEW, also after a restart', async () => {
+    const store = new EventStore(':memory:');
+    const before = new RecordingSlackService();
+    const first = createEEW(1);
+    store.claim(first);
+    await new SlackNotifier(before, store).notifyEEW(first, { late: false });
+
+    const quake = {
+      id: 'quake-1',
+      code: 551,
+      time: '2024/01/01 16:13:00.000',
+      issue: { type: 'DetailScale' },
+      earthquake: {
+        time: '2024/01/01 16:10:00',
+        hypocenter: {
+          name: '石川県能登地方',
+          latitude: 37.5,
+          longitude: 137.2,
+          depth: 10,
+          magnitude: 7.6,
+        },
+        maxScale: 70,
+      },
+      points: [],
+    } as unknown as JMAQuake;
+    const after = new RecordingSlackService();
+    store.claim(quake);
+    await new SlackNotifier(after, store).notifyQuake(quake, { late: false });
+
+    expect(after.calls[0]).toMatchObject({ action: 'post', threadTs: before.calls[0].ts });
+    store.close();
+  });
+});
+
+function tsunami(id: string, cancelled = false): JMATsunami {
+  return {
+    id,
+    code: 552,
+    time: '2024/01/01 16:14:00.000',
+    cancelled,
+    issue: { source: '気象庁', time: '2024/01/01 16:14:00', type: 'Focus' },
+    areas: cancelled
+      ? []
+      : [
+          {
+            grade: 'Warning',
+            immediate: true,
+            name: '石川県能登',
+            firstHeight: { arrivalTime: '2024/01/01 16:20:00', condition: '' },
+            maxHeight: { description: '３ｍ', value: 3 },
+          },
+        ],
+  } as unknown as JMATsunami;
+}
+
+describe('SlackNotifier tsunami messages', () => {
+  let store: EventStore;
+  let slack: RecordingSlackService;
+  let notifier: SlackNotifier;
+
+  beforeEach(() => {
+    store = new EventStore(':memory:');
+    slack = new RecordingSlackService();
+    notifier = new SlackNotifier(slack, store);
+  });
+
+  afterEach(() => {
+    store.close();
+  });
+
+  async function deliver(payload: JMATsunami): Promise<void> {
+    store.claim(payload);
+    await notifier.notifyTsunami(payload, { late: false });
+  }
+
+  const actions = () => slack.calls.map((call) => call.action);
+
+  test('pins the first bulletin, revises it and unpins it on cancellation', async () => {
+    await deliver(tsunami('t1'));
+    await deliver(tsunami('t2'));
+    await deliver(tsunami('t3', true));
+
+    const ts = slack.calls[0].ts;
+    expect(actions()).toEqual([
+      'post',
+      'pin',
+      'reply',
+      'update',
+      'reply',
+      'update',
+      'unpin',
+      'reply',
+    ]);
+    expect(slack.calls.every((call) => call.ts === ts)).toBe(true);
+    expect(store.getPinnedMessage(CHANNEL)).toBeUndefined();
+  });
+
+  test('revises the pinned message after a failed revision', async () => {
+    await deliver(tsunami('t1'));
+    slack.failingChannels.add(CHANNEL);
+    await expect(deliver(tsunami('t2'))).rejects.toThrow();
+    slack.failingChannels.delete(CHANNEL);
+    await deliver(tsunami('t3'));
+
+    expect(actions().filter((action) => action === 'pin')).toHaveLength(1);
+    expect(store.getPinnedMessage(CHANNEL)).toMatchObject({ eventId: 't3', ts: slack.calls[0].ts });
+  });
+
+  test('does not fail the delivery for a channel the bot cannot post to', async () => {
+    slack.missingChannels.add(CHANNEL);
+
+    await deliver(tsunami('t1'));
+
+    expect(slack.calls).toEqual([]);
+  });
+
+  test('unpins messages left without a new bulletin', async () => {
+    await deliver(tsunami('t1'));
+    const later = new Date(Date.now() + 25 * 60 * 60 * 1000);
+    await notifier.expireTsunamiMessages(24 * 60 * 60 * 1000, later);
+
+    expect(actions().slice(-2)).toEqual(['unpin', 'reply']);
+    expect(store.getPinnedMessage(CHANNEL)).toBeUndefined();
+  });
+
+  test('keeps messages revised recently', async () => {
+    await deliver(tsunami('t1'));
+    await notifier.expireTsunamiMessages(24 * 60 * 60 * 1000);
+
+    expect(store.getPinnedMessage(CHANNEL)).toBeDefined();
+  });
+});
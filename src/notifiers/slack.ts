@@ -0,0 +1,441 @@
+import type { JMAQuake, JMATsunami, EEW } from 'p2pquake-client';
+import { config } from '../config/env';
+import { logger } from '../utils/logger';
+import { metrics } from '../utils/metrics';
+import {
+  formatQuakeMessage,
+  formatTsunamiMessage,
+  formatTsunamiSummary,
+  formatTsunamiExpiredNote,
+  formatEEWMessage,
+  formatEEWSummary,
+  formatMapTitle,
+  formatQuakeText,
+  formatTsunamiText,
+  formatEEWText,
+} from '../utils/formatter';
+import { getMaxPredictedIntensity } from '../utils/intensity';
+import {
+  selectQuakeRoutes,
+  selectTsunamiRoutes,
+  selectEEWRoutes,
+  selectDigestRoutes,
+} from '../utils/routing';
+import type { RouteMatch } from '../utils/routing';
+import { getMentions, withMentions } from '../utils/escalation';
+import { findEEWMessage } from '../utils/correlation';
+import { parseEventTime } from '../utils/time';
+import {
+  eewOverridesQuietHours,
+  isQuietTime,
+  quakeOverridesQuietHours,
+  tsunamiOverridesQuietHours,
+} from '../utils/digest';
+import { classifySlackError } from '../services/slack';
+import type { EEWMessage, SlackService } from '../services/slack';
+import type { EventStore } from '../services/eventStore';
+import { renderQuakeMap, renderEEWMap } from '../map/render';
+import type { Locale } from '../i18n';
+import type { Notifier, NotificationContext } from './types';
+
+/**
+ * Outcome of delivering a notification to every route
+ */
+export interface FanOutResult {
+  delivered: number;
+  // Errors of the routes that were not delivered to
+  errors: unknown[];
+}
+
+/**
+ * Deliver a notification to every route, isolating failures per channel
+ */
+export async function fanOut(
+  matches: RouteMatch[],
+  send: (match: RouteMatch) => Promise<unknown>
+): Promise<FanOutResult> {
+  const results = await Promise.allSettled(matches.map((match) => send(match)));
+  const errors: unknown[] = [];
+
+  results.forEach((result, index) => {
+    if (result.status === 'rejected') {
+      errors.push(result.reason);
+      logger.warn('Failed to deliver notification to route', {
+        route: matches[index].route.name,
+        channel: matches[index].route.channelId,
+        error: classifySlackError(result.reason).code,
+      });
+    }
+  });
+
+  return { delivered: results.length - errors.length, errors };
+}
+
+/**
+ * Fail when some routes were not delivered to, so that the event is retried
+ *
+ * Routes that failed for good (e.g. the bot is not in the channel) are only
+ * logged, as retrying cannot fix them.
+ */
+export function assertDelivered(label: string, { delivered, errors }: FanOutResult): void {
+  if (errors.some((error) => classifySlackError(error).retryable)) {
+    throw new Error(`Delivered ${label} to ${delivered} of ${delivered + errors.length} routes`);
+  }
+}
+
+/**
+ * Drop the routes whose channel already got the event, when a failed delivery is retried
+ */
+export function selectUndelivered(
+  eventStore: EventStore,
+  eventId: string,
+  routes: RouteMatch[]
+): RouteMatch[] {
+  const channels = new Set(eventStore.getDeliveries(eventId).map((delivery) => delivery.channelId));
+  return routes.filter(({ route }) => !channels.has(route.channelId));
+}
+
+/**
+ * Render a map image if MAP_IMAGES is enabled
+ *
+ * Rendering problems are logged and only cost the image, never the message.
+ */
+function renderMapImage(render: () => Uint8Array | undefined): Uint8Array | undefined {
+  if (!config.mapImages) {
+    return undefined;
+  }
+
+  try {
+    return render();
+  } catch (error) {
+    if (error instanceof Error) {
+      logger.error('Failed to render map image', error);
+    }
+    return undefined;
+  }
+}
+
+/**
+ * Notifier posting Block Kit messages to the Slack channels of the routing table
+ */
+export class SlackNotifier implements Notifier {
+  readonly name = 'slack';
+  private slackService: SlackService;
+  private eventStore: EventStore;
+  private eewChain: Promise<void> = Promise.resolve();
+
+  constructor(slackService: SlackService, eventStore: EventStore) {
+    this.slackService = slackService;
+    this.eventStore = eventStore;
+  }
+
+  drain(timeoutMs: number): Promise<boolean> {
+    return this.slackService.drain(timeoutMs);
+  }
+
+  async notifyQuake(quake: JMAQuake, { late }: NotificationContext): Promise<void> {
+    // Filter by each route's minimum intensity and watched regions
+    const routes = selectUndelivered(
+      this.eventStore,
+      quake.id,
+      selectQuakeRoutes(config.routes, quake)
+    );
+
+    // Weaker reports go to the digest of the routes that record them, and
+    // during quiet hours so do the ones that are not strong enough to override
+    const digestRoutes =
+      config.digestMinIntensity !== undefined
+        ? selectDigestRoutes(config.routes, quake, config.digestMinIntensity)
+        : [];
+    const held =
+      isQuietTime(config.quietHours, new Date()) &&
+      !quakeOverridesQuietHours(quake, config.quietMinIntensity);
+    [...digestRoutes, ...(held ? routes : [])].forEach(({ route }) =>
+      this.eventStore.addDigestEntry(quake.id, route.channelId)
+    );
+
+    if (held && routes.length > 0) {
+      logger.info('Quiet hours, earthquake information held for the digest', {
+        maxIntensity: quake.earthquake.maxScale,
+        routes: routes.length,
+      });
+      return;
+    }
+
+    if (routes.length === 0) {
+      metrics.notificationsFiltered.inc({ code: 551 });
+      logger.debug('Earthquake intensity below every route threshold, skipping notification', {
+        maxIntensity: quake.earthquake.maxScale,
+      });
+      return;
+    }
+
+    const map = renderMapImage(() => renderQuakeMap(quake));
+
+    // Format message per route and send to Slack (in the thread of the matching EEW, if any)
+    const result = await fanOut(routes, async ({ route, regions }) => {
+      const ts = await this.slackService.sendQuakeMessage(
+        route.channelId,
+        withMentions(
+          {
+            blocks: formatQuakeMessage(quake, { regions, late, locales: route.locales }),
+            text: formatQuakeText(quake, route.locales),
+          },
+          getMentions(config.escalations, route.channelId, { event: 'quake', quake })
+        ),
+        map && {
+          data: map,
+          filename: `quake-${quake.id}.png`,
+          title: formatMapTitle('quake', route.locales),
+        },
+        this.findEEWThread(route.channelId, quake)
+      );
+      this.eventStore.recordDelivery(quake.id, route.channelId, ts);
+    });
+
+    logger.info('Earthquake notification sent', {
+      delivered: result.delivered,
+      routes: routes.length,
+    });
+    assertDelivered('earthquake information', result);
+  }
+
+  async notifyTsunami(tsunami: JMATsunami, { late }: NotificationContext): Promise<void> {
+    let routes = selectUndelivered(this.eventStore, tsunami.id, selectTsunamiRoutes(config.routes));
+    if (routes.length === 0) {
+      return;
+    }
+
+    // While a channel has an active (pinned) message, this bulletin revises
+    // it; after a cancellation a new tsunami event starts
+    const getActive = (channelId: string) => {
+      const pinned = this.eventStore.getPinnedMessage(channelId);
+      const bulletin = pinned && this.eventStore.getEvent<JMATsunami>(pinned.eventId);
+      return pinned && bulletin ? { ts: pinned.ts, tsunami: bulletin.payload } : undefined;
+    };
+
+    // During quiet hours, bulletins below the override grades only revise
+    // messages already posted; new ones are held for the digest
+    if (
+      isQuietTime(config.quietHours, new Date()) &&
+      !tsunamiOverridesQuietHours(tsunami, config.quietTsunamiGrades)
+    ) {
+      const held = routes.filter(({ route }) => !getActive(route.channelId));
+      held.forEach(({ route }) => this.eventStore.addDigestEntry(tsunami.id, route.channelId));
+      routes = routes.filter(({ route }) => getActive(route.channelId));
+
+      if (held.length > 0) {
+        logger.info('Quiet hours, tsunami information held for the digest', {
+          routes: held.length,
+        });
+      }
+      if (routes.length === 0) {
+        return;
+      }
+    }
+
+    // Format message per route and update the channel's active tsunami message
+    const result = await fanOut(routes, async ({ route }) => {
+      const active = getActive(route.channelId);
+      const mentions = getMentions(config.escalations, route.channelId, {
+        event: 'tsunami',
+        tsunami,
+      });
+      const message = withMentions(
+        {
+          blocks: formatTsunamiMessage(tsunami, {
+            late,
+            locales: route.locales,
+            previousTsunami: active?.tsunami,
+          }),
+          text: formatTsunamiText(tsunami, route.locales),
+        },
+        mentions
+      );
+      // A revision only mentions again when its escalation changed
+      const escalated =
+        !active ||
+        mentions !==
+          getMentions(config.escalations, route.channelId, {
+            event: 'tsunami',
+            tsunami: active.tsunami,
+          });
+
+      const ts = await this.slackService.sendTsunamiMessage(
+        route.channelId,
+        tsunami,
+        escalated ? message : { ...message, mentions: undefined },
+        formatTsunamiSummary(tsunami, active?.tsunami, route.locales),
+        active?.ts
+      );
+      this.eventStore.recordDelivery(tsunami.id, route.channelId, ts);
+      if (tsunami.cancelled) {
+        this.eventStore.removePinnedMessage(route.channelId);
+      } else {
+        this.eventStore.setPinnedMessage(route.channelId, tsunami.id, ts);
+      }
+    });
+
+    logger.info('Tsunami notification sent', {
+      delivered: result.delivered,
+      routes: routes.length,
+    });
+    assertDelivered('tsunami information', result);
+  }
+
+  /**
+   * Unpin the active tsunami messages left without a new bulletin for longer than maxAgeMs
+   *
+   * JMA keeps revising active bulletins and ends them with a cancellation, so
+   * a message this old missed its cancellation (e.g. in an outage longer than
+   * the history polling covers). A note in its thread says so.
+   */
+  async expireTsunamiMessages(maxAgeMs: number, now = new Date()): Promise<void> {
+    const expired = this.eventStore
+      .getPinnedMessages()
+      .filter((pinned) => now.getTime() - Date.parse(pinned.updatedAt) > maxAgeMs);
+
+    for (const pinned of expired) {
+      const locales =
+        config.routes.find((route) => route.channelId === pinned.channelId)?.locales ??
+        config.locales;
+      logger.warn('Active tsunami message expired without a cancellation, unpinning', {
+        channel: pinned.channelId,
+        eventId: pinned.eventId,
+      });
+
+      try {
+        await this.slackService.unpinMessage(pinned.channelId, pinned.ts);
+        await this.slackService.sendThreadReply(
+          pinned.channelId,
+          pinned.ts,
+          formatTsunamiExpiredNote(Math.round(maxAgeMs / 3_600_000), locales)
+        );
+        this.eventStore.removePinnedMessage(pinned.channelId);
+      } catch (error) {
+        if (error instanceof Error) {
+          logger.error('Failed to expire the active tsunami message', error);
+        }
+      }
+    }
+  }
+
+  notifyEEW(eew: EEW, context: NotificationContext): Promise<void> {
+    // Serialize serials so that a fast second serial never races the first post
+    const task = this.eewChain.then(() => this.deliverEEW(eew, context));
+    this.eewChain = task.then(
+      () => undefined,
+      () => undefined
+    );
+    return task;
+  }
+
+  /**
+   * Find the message of the EEW that an earthquake report follows up in a channel
+   */
+  private findEEWThread(channelId: string, quake: JMAQuake): string | undefined {
+    const tolerance = {
+      timeSeconds: config.eewMatchTimeTolerance,
+      distanceKm: config.eewMatchDistanceKm,
+    };
+    // EEWs are received after the origin time, reports follow within hours
+    const originTime = parseEventTime(quake.earthquake.time);
+    if (Number.isNaN(originTime)) {
+      return undefined;
+    }
+
+    const since = new Date(originTime - tolerance.timeSeconds * 1000);
+    return findEEWMessage(
+      quake,
+      this.eventStore.getEEWDeliveriesSince<EEW>(channelId, since),
+      tolerance
+    );
+  }
+
+  /**
+   * Get the message of an EEW event in a channel from the serials delivered to it
+   */
+  private getEEWMessage(channelId: string, eew: EEW, locales: Locale[]): EEWMessage | undefined {
+    const eventId = eew.issue.eventId;
+    const delivered = eventId ? this.eventStore.getEEWDeliveries<EEW>(channelId, eventId) : [];
+    const latest = delivered[delivered.length - 1];
+    if (!latest) {
+      return undefined;
+    }
+
+    return {
+      ts: latest.ts,
+      serial: Number(latest.event.payload.issue.serial),
+      summary: formatEEWSummary(latest.event.payload, locales),
+      mentioned: delivered.some(
+        ({ event }) =>
+          getMentions(config.escalations, channelId, { event: 'eew', eew: event.payload }) !==
+          undefined
+      ),
+    };
+  }
+
+  private async deliverEEW(eew: EEW, { late }: NotificationContext): Promise<void> {
+    const isTracked = (channelId: string) =>
+      eew.issue.eventId !== undefined &&
+      this.eventStore.getEEWDeliveries(channelId, eew.issue.eventId).length > 0;
+    let routes = selectUndelivered(
+      this.eventStore,
+      eew.id,
+      selectEEWRoutes(config.routes, eew, isTracked)
+    );
+
+    // During quiet hours, only EEWs that override them are posted; later
+    // serials of posted ones still update their messages
+    if (
+      routes.length > 0 &&
+      isQuietTime(config.quietHours, new Date()) &&
+      !eewOverridesQuietHours(eew, config.quietMinIntensity)
+    ) {
+      routes = routes.filter(({ route }) => isTracked(route.channelId));
+      if (routes.length === 0) {
+        logger.info('Quiet hours, EEW not posted', {
+          maxIntensity: getMaxPredictedIntensity(eew),
+        });
+        return;
+      }
+    }
+
+    if (routes.length === 0) {
+      metrics.notificationsFiltered.inc({ code: 556 });
+      logger.debug('EEW predicted intensity below every route threshold, skipping', {
+        maxIntensity: getMaxPredictedIntensity(eew),
+      });
+      return;
+    }
+
+    const map = renderMapImage(() => renderEEWMap(eew));
+
+    // Post the first serial, then update the same message for later serials
+    const result = await fanOut(routes, async ({ route, regions }) => {
+      const ts = await this.slackService.sendEEWMessage(
+        route.channelId,
+        eew,
+        withMentions(
+          {
+            blocks: formatEEWMessage(eew, { regions, late, locales: route.locales }),
+            text: formatEEWText(eew, route.locales),
+          },
+          getMentions(config.escalations, route.channelId, { event: 'eew', eew })
+        ),
+        this.getEEWMessage(route.channelId, eew, route.locales),
+        map && {
+          data: map,
+          filename: `eew-${eew.issue.eventId}.png`,
+          title: formatMapTitle('eew', route.locales),
+        }
+      );
+      if (ts) {
+        this.eventStore.recordDelivery(eew.id, route.channelId, ts);
+      }
+    });
+
+    logger.info('EEW notification sent', { delivered: result.delivered, routes: routes.length });
+    assertDelivered('EEW', result);
+  }
+}
@@ -0,0 +1,147 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import net from 'node:net';
+import type { AddressInfo } from 'node:net';
+import { NotifierError } from './base';
+import { sendMail } from './smtp';
+
+type Replies = Record<string, string>;
+
+const DEFAULT_REPLIES: Replies = {
+  EHLO: '250-mail.example.com\r\n250-SIZE 10240000\r\n250 8BITMIME',
+  MAIL: '250 OK',
+  RCPT: '250 OK',
+  DATA: '354 End data with <CR><LF>.<CR><LF>',
+  QUIT: '221 Bye',
+};
+
+/**
+ * Plain-text SMTP server answering each command verb with a canned reply
+ */
+function startServer(replies: Replies = {}) {
+  const commands: string[] = [];
+  let message = '';
+
+  const server = net.createServer((socket) => {
+    let buffer = '';
+    let inData = false;
+    socket.write('220 mail.example.com ESMTP\r\n');
+
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString('utf8');
+      let index = buffer.indexOf('\r\n');
+      while (index !== -1) {
+        const line = buffer.slice(0, index);
+        buffer = buffer.slice(index + 2);
+        index = buffer.indexOf('\r\n');
+
+        if (inData) {
+          if (line === '.') {
+            inData = false;
+            socket.write('250 Queued\r\n');
+          } else {
+            message += `${line}\r\n`;
+          }
+          continue;
+        }
+
+        commands.push(line);
+        const verb = line.split(' ')[0].toUpperCase();
+        const reply = { ...DEFAULT_REPLIES, ...replies }[verb] ?? '502 Not implemented';
+        inData = verb === 'DATA' && reply.startsWith('354');
+        socket.write(`${reply}\r\n`);
+        if (verb === 'QUIT') {
+          socket.end();
+        }
+      }
+    });
+  });
+
+  return new Promise<{
+    server: net.Server;
+    port: number;
+    commands: string[];
+    message: () => string;
+  }>((resolve) => {
+    server.listen(0, '127.0.0.1', () =>
+      resolve({
+        server,
+        port: (server.address() as AddressInfo).port,
+        commands,
+        message: () => message,
+      })
+    );
+  });
+}
+
+const envelope = { from: 'bot@example.com', to: ['a@example.com', 'b@example.com'] };
+
+describe('sendMail', () => {
+  let server: net.Server | undefined;
+
+  afterEach(() => {
+    server?.close();
+    server = undefined;
+  });
+
+  test('sends the envelope and the dot-stuffed message', async () => {
+    const smtp = await startServer();
+    server = smtp.server;
+
+    await sendMail(
+      { host: '127.0.0.1', port: smtp.port, secure: false },
+      envelope,
+      'Subject: test\n\n.hidden line\nbody'
+    );
+
+    expect(smtp.commands.map((command) => command.split(' ')[0])).toEqual([
+      'EHLO',
+      'MAIL',
+      'RCPT',
+      'RCPT',
+      'DATA',
+      'QUIT',
+    ]);
+    expect(smtp.commands[1]).toBe('MAIL FROM:<bot@example.com>');
+    expect(smtp.commands.slice(2, 4)).toEqual([
+      'RCPT TO:<a@example.com>',
+      'RCPT TO:<b@example.com>',
+    ]);
+    expect(smtp.message()).toBe('Subject: test\r\n\r\n..hidden line\r\nbody\r\n');
+  });
+
+  test('refuses to send credentials without STARTTLS', async () => {
+    const smtp = await startServer();
+    server = smtp.server;
+
+    const error = await sendMail(
+      { host: '127.0.0.1', port: smtp.port, secure: false, username: 'bot', password: 'secret' },
+      envelope,
+      'body'
+    ).catch((error: unknown) => error);
+
+    expect(error).toBeInstanceOf(NotifierError);
+    expect((error as NotifierError).decision).toEqual({ code: 'smtp_insecure', retryable: false });
+    expect(smtp.commands.some((command) => command.startsWith('AUTH'))).toBe(false);
+  });
+
+  test('retries transient replies but not permanent ones', async () => {
+    for (const [reply, retryable] of [
+      ['451 Try again later', true],
+      ['550 No such user', false],
+    ] as const) {
+      const smtp = await startServer({ RCPT: reply });
+
+      const error = await sendMail(
+        { host: '127.0.0.1', port: smtp.port, secure: false },
+        envelope,
+        'body'
+      ).catch((error: unknown) => error);
+      smtp.server.close();
+
+      expect((error as NotifierError).decision).toEqual({
+        code: `smtp_${reply.slice(0, 3)}`,
+        retryable,
+      });
+    }
+  });
+});
@@ -0,0 +1,219 @@
+import net from 'node:net';
+import tls from 'node:tls';
+import { hostname } from 'node:os';
+import { NotifierError } from './base';
+
+const SMTP_TIMEOUT_MS = 30_000;
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  // Connect with TLS from the start; otherwise STARTTLS is used when offered
+  secure: boolean;
+  username?: string;
+  password?: string;
+}
+
+export interface SmtpEnvelope {
+  from: string;
+  to: string[];
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+/**
+ * Turn a negative SMTP reply into a NotifierError
+ *
+ * Transient (4xx) replies are retryable, permanent (5xx) ones are not.
+ */
+function replyError(command: string, reply: SmtpReply): NotifierError {
+  return new NotifierError(`SMTP ${command} failed: ${reply.code} ${reply.lines.join(' ')}`, {
+    code: `smtp_${reply.code}`,
+    retryable: reply.code < 500,
+  });
+}
+
+/**
+ * Minimal SMTP client session: one connection, read replies, write commands
+ */
+class SmtpSession {
+  private socket: net.Socket;
+  private buffer = '';
+  private lines: string[] = [];
+  private waiting?: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void };
+  private failure?: Error;
+
+  constructor(socket: net.Socket) {
+    this.socket = socket;
+    this.attach(socket);
+  }
+
+  /**
+   * Upgrade the connection to TLS after a successful STARTTLS
+   */
+  async startTls(host: string): Promise<void> {
+    this.socket.removeAllListeners('data');
+    this.socket.removeAllListeners('error');
+    this.socket.removeAllListeners('close');
+
+    const secure = tls.connect({ socket: this.socket, servername: host });
+    await new Promise<void>((resolve, reject) => {
+      secure.once('secureConnect', resolve);
+      secure.once('error', reject);
+    });
+
+    this.socket = secure;
+    this.attach(secure);
+  }
+
+  /**
+   * Send a command (if any) and read the reply, failing unless its code is expected
+   */
+  async command(line: string | undefined, expected: number[], label = line): Promise<SmtpReply> {
+    if (line !== undefined) {
+      this.socket.write(`${line}\r\n`);
+    }
+
+    const reply = await this.read();
+    if (!expected.includes(reply.code)) {
+      throw replyError(label ?? 'greeting', reply);
+    }
+    return reply;
+  }
+
+  /**
+   * Send the message data, dot-stuffed and terminated by a lone dot
+   */
+  async data(message: string): Promise<void> {
+    await this.command('DATA', [354]);
+    const stuffed = message.replace(/\r?\n/g, '\r\n').replace(/^\./gm, '..');
+    this.socket.write(`${stuffed}\r\n.\r\n`);
+    await this.command(undefined, [250], 'message data');
+  }
+
+  close(): void {
+    this.socket.end();
+  }
+
+  private attach(socket: net.Socket): void {
+    socket.setTimeout(SMTP_TIMEOUT_MS, () =>
+      socket.destroy(new Error('SMTP connection timed out'))
+    );
+    socket.on('data', (chunk: Buffer) => {
+      this.buffer += chunk.toString('utf8');
+      this.flush();
+    });
+    socket.on('error', (error) => this.fail(error));
+    socket.on('close', () => this.fail(new Error('SMTP connection closed')));
+  }
+
+  private read(): Promise<SmtpReply> {
+    if (this.failure) {
+      return Promise.reject(this.failure);
+    }
+
+    return new Promise<SmtpReply>((resolve, reject) => {
+      this.waiting = { resolve, reject };
+      this.flush();
+    });
+  }
+
+  /**
+   * Hand a complete reply to the pending read; multi-line replies use "250-" continuations
+   */
+  private flush(): void {
+    let index = this.buffer.indexOf('\r\n');
+    while (index !== -1 && this.waiting) {
+      const line = this.buffer.slice(0, index);
+      this.buffer = this.buffer.slice(index + 2);
+      this.lines.push(line.slice(4));
+
+      if (line[3] !== '-') {
+        const reply = { code: Number(line.slice(0, 3)), lines: this.lines };
+        const { resolve } = this.waiting;
+        this.lines = [];
+        this.waiting = undefined;
+        resolve(reply);
+      }
+      index = this.buffer.indexOf('\r\n');
+    }
+  }
+
+  private fail(error: Error): void {
+    this.failure ??= error;
+    const waiting = this.waiting;
+    this.waiting = undefined;
+    waiting?.reject(error);
+  }
+}
+
+function connect(options: SmtpOptions): Promise<net.Socket> {
+  return new Promise<net.Socket>((resolve, reject) => {
+    const socket = options.secure
+      ? tls.connect({ host: options.host, port: options.port, servername: options.host })
+      : net.connect({ host: options.host, port: options.port });
+
+    socket.setTimeout(SMTP_TIMEOUT_MS, () =>
+      socket.destroy(new Error('SMTP connection timed out'))
+    );
+    socket.once(options.secure ? 'secureConnect' : 'connect', () => resolve(socket));
+    socket.once('error', reject);
+  });
+}
+
+/**
+ * Deliver a message over SMTP
+ *
+ * Uses STARTTLS when the server offers it on a plain connection, and AUTH
+ * PLAIN when credentials are given. Credentials are never sent unencrypted.
+ */
+export async function sendMail(
+  options: SmtpOptions,
+  envelope: SmtpEnvelope,
+  message: string
+): Promise<void> {
+  const session = new SmtpSession(await connect(options));
+  let encrypted = options.secure;
+
+  try {
+    await session.command(undefined, [220]);
+    const ehlo = await session.command(`EHLO ${hostname()}`, [250]);
+
+    if (!encrypted && ehlo.lines.some((line) => line.toUpperCase().startsWith('STARTTLS'))) {
+      await session.command('STARTTLS', [220]);
+      await session.startTls(options.host);
+      encrypted = true;
+      await session.command(`EHLO ${hostname()}`, [250]);
+    }
+
+    if (options.username) {
+      if (!encrypted) {
+        throw new NotifierError(
+          'SMTP server does not support STARTTLS; refusing to send password',
+          {
+            code: 'smtp_insecure',
+            retryable: false,
+          }
+        );
+      }
+
+      const credentials = Buffer.from(
+        `\0${options.username}\0${options.password ?? ''}`,
+        'utf8'
+      ).toString('base64');
+      await session.command(`AUTH PLAIN ${credentials}`, [235], 'AUTH');
+    }
+
+    await session.command(`MAIL FROM:<${envelope.from}>`, [250]);
+    for (const recipient of envelope.to) {
+      await session.command(`RCPT TO:<${recipient}>`, [250, 251]);
+    }
+    await session.data(message);
+    await session.command('QUIT', [221]).catch(() => undefined);
+  } finally {
+    session.close();
+  }
+}
@@ -0,0 +1,79 @@
+import { afterAll, beforeEach, describe, expect, test } from 'bun:test';
+import type { TeamsNotifierConfig } from '../config/env';
+import { createEEW, createEEWArea } from '../test/eew';
+import { NotifierError } from './base';
+import { TeamsNotifier } from './teams';
+import type { TeamsMessage } from './teams';
+
+const messages: TeamsMessage[] = [];
+let status = 200;
+
+const server = Bun.serve({
+  port: 0,
+  fetch: async (request) => {
+    messages.push((await request.json()) as TeamsMessage);
+    return new Response(status === 200 ? '1' : 'Bad payload', { status });
+  },
+});
+
+afterAll(() => {
+  server.stop(true);
+});
+
+function createNotifier(): TeamsNotifier {
+  const settings: TeamsNotifierConfig = {
+    type: 'teams',
+    name: 'teams',
+    url: `http://localhost:${server.port}/webhook`,
+    events: ['eew'],
+    minIntensity: 30,
+    locales: ['ja', 'en'],
+  };
+  return new TeamsNotifier(settings);
+}
+
+const context = { late: false };
+
+describe('TeamsNotifier', () => {
+  beforeEach(() => {
+    messages.length = 0;
+    status = 200;
+  });
+
+  test('posts an Adaptive Card with the languages after the first below a separator', async () => {
+    await createNotifier().notifyEEW(createEEW(), context);
+
+    const [{ content }] = messages[0].attachments;
+    const titles = content.body.filter((element) => element.size === 'Large');
+    expect(content.type).toBe('AdaptiveCard');
+    expect(titles).toHaveLength(2);
+    expect(titles.map((element) => element.separator)).toEqual([undefined, true]);
+    expect(content.actions).toEqual([
+      expect.objectContaining({ type: 'Action.OpenUrl', title: 'JMA' }),
+    ]);
+  });
+
+  test('posts later EEW serials only when they raise the intensity or cancel', async () => {
+    const notifier = createNotifier();
+
+    await notifier.notifyEEW(createEEW(1), context);
+    await notifier.notifyEEW(createEEW(2), context);
+    await notifier.notifyEEW(createEEW(3, { areas: [createEEWArea(55, 55)] }), context);
+    await notifier.notifyEEW(createEEW(4, { areas: [createEEWArea(50, 50)] }), context);
+    await notifier.notifyEEW(createEEW(5, { cancelled: true }), context);
+
+    expect(messages).toHaveLength(3);
+  });
+
+  test('gives up on a rejected card without retrying', async () => {
+    status = 400;
+
+    const error = await createNotifier()
+      .notifyEEW(createEEW(), context)
+      .catch((error: unknown) => error);
+
+    expect(error).toBeInstanceOf(NotifierError);
+    expect((error as NotifierError).decision).toEqual({ code: 'http_400', retryable: false });
+    expect(messages).toHaveLength(1);
+  });
+});
@@ -0,0 +1,146 @@
+import type { JMAQuake, JMATsunami, EEW } from 'p2pquake-client';
+import type { TeamsNotifierConfig } from '../config/env';
+import { formatEEWText, formatQuakeText, formatTsunamiText } from '../utils/formatter';
+import { isSignificantEEWUpdate, QueuedNotifier } from './base';
+import type { EEWDelivery } from './base';
+import { buildEEWContent, buildQuakeContent, buildTsunamiContent } from './content';
+import type { NotificationContent, Severity } from './content';
+import { sendJson } from './http';
+import type { NotificationContext } from './types';
+
+type AdaptiveElement = Record<string, unknown>;
+
+/**
+ * Teams incoming webhook payload carrying an Adaptive Card
+ */
+export interface TeamsMessage {
+  type: 'message';
+  summary: string;
+  attachments: {
+    contentType: 'application/vnd.microsoft.card.adaptive';
+    content: {
+      $schema: string;
+      type: 'AdaptiveCard';
+      version: string;
+      msteams: { width: 'Full' };
+      body: AdaptiveElement[];
+      actions: AdaptiveElement[];
+    };
+  }[];
+}
+
+// Adaptive Card text colors of the title by severity
+const SEVERITY_COLORS: Record<Severity, string> = {
+  resolved: 'Good',
+  info: 'Accent',
+  warning: 'Warning',
+  critical: 'Attention',
+};
+
+/**
+ * Render notification content as Adaptive Card elements
+ */
+export function renderTeamsElements(content: NotificationContent): AdaptiveElement[] {
+  const elements: AdaptiveElement[] = [
+    {
+      type: 'TextBlock',
+      text: content.title,
+      size: 'Large',
+      weight: 'Bolder',
+      color: SEVERITY_COLORS[content.severity],
+      wrap: true,
+    },
+    { type: 'TextBlock', text: content.description, wrap: true },
+  ];
+
+  if (content.fields.length > 0) {
+    elements.push({
+      type: 'FactSet',
+      facts: content.fields.map((field) => ({ title: field.name, value: field.value })),
+    });
+  }
+
+  content.sections.forEach((section) => {
+    elements.push(
+      { type: 'TextBlock', text: section.title, weight: 'Bolder', wrap: true },
+      ...section.lines.map((line) => ({
+        type: 'TextBlock',
+        text: line,
+        spacing: 'None',
+        wrap: true,
+      }))
+    );
+  });
+
+  elements.push({
+    type: 'TextBlock',
+    text: content.footer,
+    size: 'Small',
+    isSubtle: true,
+    wrap: true,
+  });
+
+  return elements;
+}
+
+/**
+ * Notifier posting Adaptive Cards to a Microsoft Teams incoming webhook
+ *
+ * Teams webhooks cannot edit messages, so later EEW serials are only posted
+ * when they raise the predicted intensity or cancel the warning.
+ */
+export class TeamsNotifier extends QueuedNotifier<TeamsNotifierConfig> {
+  protected async sendQuake(quake: JMAQuake, context: NotificationContext): Promise<void> {
+    await this.post(
+      formatQuakeText(quake, this.settings.locales),
+      this.settings.locales.map((locale) => buildQuakeContent(quake, context, locale))
+    );
+  }
+
+  protected async sendTsunami(tsunami: JMATsunami, context: NotificationContext): Promise<void> {
+    await this.post(
+      formatTsunamiText(tsunami, this.settings.locales),
+      this.settings.locales.map((locale) => buildTsunamiContent(tsunami, context, locale))
+    );
+  }
+
+  protected async sendEEW(eew: EEW, context: NotificationContext): Promise<undefined> {
+    await this.post(
+      formatEEWText(eew, this.settings.locales),
+      this.settings.locales.map((locale) => buildEEWContent(eew, context, locale))
+    );
+    return undefined;
+  }
+
+  protected shouldSendEEWUpdate(eew: EEW, previous: EEWDelivery): boolean {
+    return isSignificantEEWUpdate(eew, previous);
+  }
+
+  private async post(summary: string, contents: NotificationContent[]): Promise<void> {
+    // Languages after the first start below a separator line
+    const body = contents.flatMap((content, index) => {
+      const elements = renderTeamsElements(content);
+      return index === 0 ? elements : [{ ...elements[0], separator: true }, ...elements.slice(1)];
+    });
+
+    const message: TeamsMessage = {
+      type: 'message',
+      summary,
+      attachments: [
+        {
+          contentType: 'application/vnd.microsoft.card.adaptive',
+          content: {
+            $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+            type: 'AdaptiveCard',
+            version: '1.4',
+            msteams: { width: 'Full' },
+            body,
+            actions: [{ type: 'Action.OpenUrl', title: 'JMA', url: contents[0].url }],
+          },
+        },
+      ],
+    };
+
+    await sendJson({ url: this.settings.url, body: JSON.stringify(message) });
+  }
+}
@@ -0,0 +1,25 @@
+import type { JMAQuake, JMATsunami, EEW } from 'p2pquake-client';
+
+export interface NotificationContext {
+  // The event was missed by the WebSocket and is delivered late
+  late: boolean;
+}
+
+/**
+ * Destination of earthquake, tsunami and EEW notifications
+ *
+ * Each notifier applies its own filters and handles its own delivery
+ * failures; a rejected call only means that this notifier failed.
+ */
+export interface Notifier {
+  readonly name: string;
+  notifyQuake(quake: JMAQuake, context: NotificationContext): Promise<void>;
+  notifyTsunami(tsunami: JMATsunami, context: NotificationContext): Promise<void>;
+  notifyEEW(eew: EEW, context: NotificationContext): Promise<void>;
+  /**
+   * Wait until every pending delivery has finished
+   *
+   * Returns false when the timeout elapsed first.
+   */
+  drain(timeoutMs: number): Promise<boolean>;
+}
@@ -0,0 +1,92 @@
+import { afterAll, beforeEach, describe, expect, test } from 'bun:test';
+import { createHmac } from 'node:crypto';
+import type { WebhookNotifierConfig } from '../config/env';
+import { createEEW } from '../test/eew';
+import { NotifierError } from './base';
+import { WebhookNotifier } from './webhook';
+import type { WebhookPayload } from './webhook';
+
+const requests: { headers: Headers; body: string }[] = [];
+// Responses of the next requests, then 204
+const responses: Response[] = [];
+
+const server = Bun.serve({
+  port: 0,
+  fetch: async (request) => {
+    requests.push({ headers: request.headers, body: await request.text() });
+    return responses.shift() ?? new Response(null, { status: 204 });
+  },
+});
+
+afterAll(() => {
+  server.stop(true);
+});
+
+function createNotifier(secret?: string): WebhookNotifier {
+  const settings: WebhookNotifierConfig = {
+    type: 'webhook',
+    name: 'hook',
+    url: `http://localhost:${server.port}/hook`,
+    secret,
+    events: ['eew'],
+    minIntensity: 30,
+    locales: ['ja', 'en'],
+  };
+  return new WebhookNotifier(settings);
+}
+
+const context = { late: false };
+
+describe('WebhookNotifier', () => {
+  beforeEach(() => {
+    requests.length = 0;
+    responses.length = 0;
+  });
+
+  test('posts the event with its content in every language', async () => {
+    const eew = createEEW();
+    await createNotifier().notifyEEW(eew, context);
+
+    const payload = JSON.parse(requests[0].body) as WebhookPayload;
+    expect(payload).toMatchObject({ event: 'eew', code: 556, id: eew.id, late: false, data: eew });
+    expect(payload.content.map((content) => content.locale)).toEqual(['ja', 'en']);
+    expect(requests[0].headers.get('X-Quake-Alert-Event')).toBe('eew');
+  });
+
+  test('signs the timestamp and the body with the secret', async () => {
+    await createNotifier('s3cret').notifyEEW(createEEW(), context);
+
+    const [{ headers, body }] = requests;
+    const timestamp = headers.get('X-Quake-Alert-Timestamp');
+    const expected = createHmac('sha256', 's3cret').update(`${timestamp}.${body}`).digest('hex');
+    expect(Math.abs(Number(timestamp) - Date.now() / 1000)).toBeLessThan(5);
+    expect(headers.get('X-Quake-Alert-Signature')).toBe(`sha256=${expected}`);
+  });
+
+  test('leaves requests unsigned without a secret', async () => {
+    await createNotifier().notifyEEW(createEEW(), context);
+
+    expect(requests[0].headers.has('X-Quake-Alert-Signature')).toBe(false);
+  });
+
+  test('retries a rate-limited request after the Retry-After delay', async () => {
+    responses.push(new Response('slow down', { status: 429, headers: { 'Retry-After': '0' } }));
+
+    await createNotifier().notifyEEW(createEEW(), context);
+
+    expect(requests).toHaveLength(2);
+  });
+
+  test('gives up on client errors without retrying', async () => {
+    responses.push(new Response('no such hook', { status: 404 }));
+
+    const error = await createNotifier()
+      .notifyEEW(createEEW(), context)
+      .catch((error: unknown) => error);
+
+    expect(error).toBeInstanceOf(NotifierError);
+    expect((error as NotifierError).message).toBe('HTTP 404 no such hook');
+    expect((error as NotifierError).decision).toEqual({ code: 'http_404', retryable: false });
+    expect(requests).toHaveLength(1);
+  });
+});
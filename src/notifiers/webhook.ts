@@ -0,0 +1,101 @@
+import { createHmac } from 'node:crypto';
+import type { JMAQuake, JMATsunami, EEW } from 'p2pquake-client';
+import type { WebhookNotifierConfig } from '../config/env';
+import { formatEEWText, formatQuakeText, formatTsunamiText } from '../utils/formatter';
+import { QueuedNotifier } from './base';
+import { buildEEWContent, buildQuakeContent, buildTsunamiContent } from './content';
+import type { NotificationContent } from './content';
+import { sendJson } from './http';
+import type { NotificationContext } from './types';
+
+/**
+ * JSON body posted to a generic webhook
+ */
+export interface WebhookPayload {
+  event: 'quake' | 'tsunami' | 'eew';
+  code: 551 | 552 | 556;
+  id: string;
+  time: string;
+  late: boolean;
+  // One-line summary, the same as the Slack notification text
+  text: string;
+  // Rendered content, one entry per configured language
+  content: NotificationContent[];
+  // Parsed P2PQuake payload
+  data: JMAQuake | JMATsunami | EEW;
+}
+
+/**
+ * Compute the signature header value of a webhook request
+ *
+ * The signature is the HMAC-SHA256 of `<timestamp>.<body>` in hex, so that
+ * receivers can reject both tampered and replayed requests.
+ */
+export function signWebhookRequest(secret: string, timestamp: number, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+/**
+ * Notifier posting every event, including each EEW serial, as JSON to a URL
+ */
+export class WebhookNotifier extends QueuedNotifier<WebhookNotifierConfig> {
+  protected async sendQuake(quake: JMAQuake, context: NotificationContext): Promise<void> {
+    await this.post({
+      event: 'quake',
+      code: 551,
+      id: quake.id,
+      time: quake.time,
+      late: context.late,
+      text: formatQuakeText(quake, this.settings.locales),
+      content: this.settings.locales.map((locale) => buildQuakeContent(quake, context, locale)),
+      data: quake,
+    });
+  }
+
+  protected async sendTsunami(tsunami: JMATsunami, context: NotificationContext): Promise<void> {
+    await this.post({
+      event: 'tsunami',
+      code: 552,
+      id: tsunami.id,
+      time: tsunami.time,
+      late: context.late,
+      text: formatTsunamiText(tsunami, this.settings.locales),
+      content: this.settings.locales.map((locale) => buildTsunamiContent(tsunami, context, locale)),
+      data: tsunami,
+    });
+  }
+
+  protected async sendEEW(eew: EEW, context: NotificationContext): Promise<undefined> {
+    await this.post({
+      event: 'eew',
+      code: 556,
+      id: eew.id,
+      time: eew.time,
+      late: context.late,
+      text: formatEEWText(eew, this.settings.locales),
+      content: this.settings.locales.map((locale) => buildEEWContent(eew, context, locale)),
+      data: eew,
+    });
+    return undefined;
+  }
+
+  private async post(payload: WebhookPayload): Promise<void> {
+    const body = JSON.stringify(payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+
+    const headers: Record<string, string> = {
+      'User-Agent': 'slack-quake-alert',
+      'X-Quake-Alert-Event': payload.event,
+      'X-Quake-Alert-Timestamp': String(timestamp),
+    };
+    if (this.settings.secret) {
+      headers['X-Quake-Alert-Signature'] = signWebhookRequest(
+        this.settings.secret,
+        timestamp,
+        body
+      );
+    }
+
+    await sendJson({ url: this.settings.url, body, headers });
+  }
+}
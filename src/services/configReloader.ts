@@ -0,0 +1,119 @@
+import { unwatchFile, watchFile } from 'node:fs';
+import type { Stats } from 'node:fs';
+import { config, reloadConfig } from '../config/env';
+import type { Config } from '../config/env';
+import { reloadTemplates } from '../templates';
+import { logger } from '../utils/logger';
+
+// Settings read once when the services are created, applied on the next start
+const RESTART_SETTINGS: (keyof Config)[] = [
+  'output',
+  'dryRunFormat',
+  'dryRunDir',
+  'nodeEnv',
+  'eventStorePath',
+  'slackApiUrl',
+  'deliveryMaxAttempts',
+  'p2pquakeWsUrl',
+  'p2pquakeApiUrl',
+  'eventCodes',
+  'userquakeWindow',
+  'userquakeMinConfidence',
+  'userquakeMinReports',
+  'historyPollInterval',
+  'historyMaxAge',
+  'historyMaxAttempts',
+  'httpPort',
+  'opsChannelId',
+  'outageAlertMinutes',
+  'stallTimeout',
+  'reconnectBaseDelay',
+  'reconnectMaxDelay',
+];
+
+type ReloadHandler = () => void;
+
+export interface ConfigReloaderOptions {
+  // Interval between checks of CONFIG_FILE for changes
+  pollIntervalMs: number;
+}
+
+/**
+ * Reloads the configuration and message templates on SIGHUP and when CONFIG_FILE changes
+ *
+ * Services look the configuration up when they handle an event, so routes,
+ * filters and formatting apply to the next event without reconnecting.
+ */
+export class ConfigReloader {
+  private options: ConfigReloaderOptions;
+  private reloadHandler?: ReloadHandler;
+  private watchedFile?: string;
+
+  constructor(options: ConfigReloaderOptions) {
+    this.options = options;
+  }
+
+  start(): void {
+    process.on('SIGHUP', this.handleSignal);
+
+    this.watchedFile = config.configFile;
+    if (this.watchedFile) {
+      watchFile(this.watchedFile, { interval: this.options.pollIntervalMs }, this.handleChange);
+    }
+  }
+
+  stop(): void {
+    process.off('SIGHUP', this.handleSignal);
+
+    if (this.watchedFile) {
+      unwatchFile(this.watchedFile, this.handleChange);
+      this.watchedFile = undefined;
+    }
+  }
+
+  /**
+   * Register handler called after every successful reload
+   */
+  onReload(handler: ReloadHandler): void {
+    this.reloadHandler = handler;
+  }
+
+  /**
+   * Reload the configuration, then the templates; an invalid one keeps the previous one
+   */
+  reload(reason: string): boolean {
+    const previous = config;
+    if (!reloadConfig()) {
+      logger.warn('Configuration reload failed, keeping the previous configuration', { reason });
+      return false;
+    }
+
+    if (!reloadTemplates()) {
+      logger.warn('Template reload failed, keeping the previous templates', { reason });
+    }
+
+    const restart = RESTART_SETTINGS.filter(
+      (key) => JSON.stringify(previous[key]) !== JSON.stringify(config[key])
+    );
+    if (restart.length > 0) {
+      logger.warn('Some changed settings only apply after a restart', { settings: restart });
+    }
+
+    logger.info('Configuration reloaded', {
+      reason,
+      routes: config.routes.map((route) => route.name),
+    });
+    this.reloadHandler?.();
+    return true;
+  }
+
+  private handleSignal = (): void => {
+    this.reload('SIGHUP');
+  };
+
+  private handleChange = (current: Stats, previous: Stats): void => {
+    if (current.mtimeMs !== previous.mtimeMs) {
+      this.reload('file change');
+    }
+  };
+}
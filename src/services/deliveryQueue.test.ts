@@ -0,0 +1,99 @@
+import { describe, expect, test } from 'bun:test';
+import { DeliveryQueue } from './deliveryQueue';
+import type { FailureDecision } from './deliveryQueue';
+
+class TestError extends Error {
+  constructor(readonly decision: FailureDecision) {
+    super(decision.code);
+  }
+}
+
+function createQueue(maxAttempts = 3): DeliveryQueue {
+  return new DeliveryQueue({
+    maxAttempts,
+    baseDelayMs: 1,
+    maxDelayMs: 10,
+    classify: (error) =>
+      error instanceof TestError ? error.decision : { code: 'unknown', retryable: true },
+  });
+}
+
+describe('DeliveryQueue', () => {
+  test('runs high-priority tasks before the normal ones waiting', async () => {
+    const queue = createQueue();
+    const order: string[] = [];
+    const task = (label: string) => async () => {
+      order.push(label);
+      return label;
+    };
+
+    const first = queue.enqueue('normal', 'first', task('first'));
+    const quake = queue.enqueue('normal', 'quake', task('quake'));
+    const eew = queue.enqueue('high', 'eew', task('eew'));
+    const tsunami = queue.enqueue('high', 'tsunami', task('tsunami'));
+
+    expect(await Promise.all([first, quake, eew, tsunami])).toEqual([
+      'first',
+      'quake',
+      'eew',
+      'tsunami',
+    ]);
+    expect(order).toEqual(['first', 'eew', 'tsunami', 'quake']);
+  });
+
+  test('retries a retryable failure ahead of the other tasks of its priority', async () => {
+    const queue = createQueue();
+    const order: string[] = [];
+    let failures = 1;
+
+    const flaky = queue.enqueue('normal', 'flaky', async () => {
+      order.push('flaky');
+      if (failures-- > 0) {
+        throw new TestError({ code: 'rate_limited', retryable: true, retryAfterMs: 5 });
+      }
+    });
+    const next = queue.enqueue('normal', 'next', async () => {
+      order.push('next');
+    });
+
+    await Promise.all([flaky, next]);
+    expect(order).toEqual(['flaky', 'flaky', 'next']);
+  });
+
+  test('gives up after the maximum attempts or a permanent failure', async () => {
+    const queue = createQueue(2);
+    let attempts = 0;
+
+    const transient = queue.enqueue('normal', 'transient', async () => {
+      attempts += 1;
+      throw new Error('ECONNRESET');
+    });
+    await expect(transient).rejects.toThrow('ECONNRESET');
+    expect(attempts).toBe(2);
+
+    attempts = 0;
+    const permanent = queue.enqueue('normal', 'permanent', async () => {
+      attempts += 1;
+      throw new TestError({ code: 'channel_not_found', retryable: false });
+    });
+    await expect(permanent).rejects.toThrow('channel_not_found');
+    expect(attempts).toBe(1);
+  });
+
+  test('drains the pending tasks within the timeout', async () => {
+    const queue = createQueue();
+    expect(await queue.drain(10)).toBe(true);
+
+    let delivered = false;
+    void queue.enqueue('normal', 'slow', async () => {
+      await Bun.sleep(20);
+      delivered = true;
+    });
+    expect(await queue.drain(1000)).toBe(true);
+    expect(delivered).toBe(true);
+
+    void queue.enqueue('normal', 'stuck', () => Bun.sleep(200));
+    expect(await queue.drain(10)).toBe(false);
+    expect(await queue.drain(1000)).toBe(true);
+  });
+});
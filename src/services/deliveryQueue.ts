@@ -0,0 +1,191 @@
+import { logger } from '../utils/logger';
+
+/**
+ * Delivery priority; high-priority tasks (EEW, tsunami) run before normal ones
+ */
+export type DeliveryPriority = 'high' | 'normal';
+
+/**
+ * How a failed delivery should be handled
+ */
+export interface FailureDecision {
+  // Error code used in logs
+  code: string;
+  // Whether the delivery may succeed if attempted again
+  retryable: boolean;
+  // Delay requested by the server (e.g. Retry-After), overrides the backoff
+  retryAfterMs?: number;
+}
+
+export interface DeliveryQueueOptions {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  classify: (error: unknown) => FailureDecision;
+}
+
+interface DeliveryTask {
+  priority: DeliveryPriority;
+  label: string;
+  attempts: number;
+  run: () => Promise<unknown>;
+  resolve: (value: unknown) => void;
+  reject: (error: unknown) => void;
+}
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Serial outbound delivery queue with priorities and retries
+ *
+ * Tasks run one at a time. A retryable failure pauses the whole queue for the
+ * server-requested delay or an exponential backoff, then the task is retried
+ * ahead of the other tasks of its priority.
+ */
+export class DeliveryQueue {
+  private tasks: DeliveryTask[] = [];
+  private running = false;
+  private pausedUntil = 0;
+  private idleWaiters: (() => void)[] = [];
+  private options: DeliveryQueueOptions;
+
+  constructor(options: DeliveryQueueOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Number of tasks waiting to run
+   */
+  get size(): number {
+    return this.tasks.length;
+  }
+
+  /**
+   * Add a task to the queue and resolve with its result once delivered
+   */
+  enqueue<T>(priority: DeliveryPriority, label: string, run: () => Promise<T>): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      this.insert(
+        {
+          priority,
+          label,
+          attempts: 0,
+          run,
+          resolve: resolve as (value: unknown) => void,
+          reject,
+        },
+        false
+      );
+      void this.process();
+    });
+  }
+
+  /**
+   * Wait until every queued task has finished
+   *
+   * Returns false when the timeout elapsed first.
+   */
+  drain(timeoutMs: number): Promise<boolean> {
+    if (!this.running && this.tasks.length === 0) {
+      return Promise.resolve(true);
+    }
+
+    logger.info('Draining delivery queue...', { pending: this.tasks.length });
+
+    return new Promise<boolean>((resolve) => {
+      const timer = setTimeout(() => {
+        logger.warn('Delivery queue drain timed out', { pending: this.tasks.length });
+        resolve(false);
+      }, timeoutMs);
+
+      this.idleWaiters.push(() => {
+        clearTimeout(timer);
+        resolve(true);
+      });
+    });
+  }
+
+  /**
+   * Insert a task after every task of equal or higher priority, or before the
+   * tasks of its priority when it is being retried
+   */
+  private insert(task: DeliveryTask, retry: boolean): void {
+    const index =
+      task.priority === 'high'
+        ? retry
+          ? 0
+          : this.tasks.findIndex((queued) => queued.priority === 'normal')
+        : retry
+          ? this.tasks.findIndex((queued) => queued.priority === 'normal')
+          : -1;
+
+    if (index === -1) {
+      this.tasks.push(task);
+    } else {
+      this.tasks.splice(index, 0, task);
+    }
+  }
+
+  private async process(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+
+    try {
+      while (this.tasks.length > 0) {
+        const wait = this.pausedUntil - Date.now();
+        if (wait > 0) {
+          await sleep(wait);
+        }
+
+        const task = this.tasks.shift();
+        if (task) {
+          await this.runTask(task);
+        }
+      }
+    } finally {
+      this.running = false;
+    }
+
+    const waiters = this.idleWaiters;
+    this.idleWaiters = [];
+    waiters.forEach((notify) => notify());
+  }
+
+  private async runTask(task: DeliveryTask): Promise<void> {
+    task.attempts += 1;
+
+    try {
+      task.resolve(await task.run());
+    } catch (error) {
+      const decision = this.options.classify(error);
+
+      if (!decision.retryable || task.attempts >= this.options.maxAttempts) {
+        logger.warn('Delivery failed permanently', {
+          label: task.label,
+          code: decision.code,
+          attempts: task.attempts,
+        });
+        task.reject(error);
+        return;
+      }
+
+      const backoff = Math.min(
+        this.options.baseDelayMs * 2 ** (task.attempts - 1),
+        this.options.maxDelayMs
+      );
+      const delay = decision.retryAfterMs ?? backoff;
+
+      logger.warn('Delivery failed, retrying', {
+        label: task.label,
+        code: decision.code,
+        attempt: task.attempts,
+        retryInMs: delay,
+      });
+
+      this.pausedUntil = Date.now() + delay;
+      this.insert(task, true);
+    }
+  }
+}
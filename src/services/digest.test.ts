@@ -0,0 +1,60 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import type { JMAQuake } from 'p2pquake-client';
+import { RecordingSlackService } from '../test/recordingSlack';
+import { DigestScheduler } from './digest';
+import { EventStore } from './eventStore';
+
+const CHANNEL = 'C0123456789';
+
+const quake = {
+  id: 'quake-1',
+  code: 551,
+  time: '2024/01/01 08:30:00.000',
+  earthquake: {
+    time: '2024/01/01 08:25:00',
+    maxScale: 10,
+    hypocenter: { name: '茨城県南部', magnitude: 3.1 },
+  },
+} as unknown as JMAQuake;
+
+// Digests at 09:00 every day, local time
+const options = { checkIntervalMs: 60_000, intervalHours: 0, times: [9 * 60], quietHours: [] };
+
+describe('DigestScheduler', () => {
+  let store: EventStore;
+  let slack: RecordingSlackService;
+
+  beforeEach(() => {
+    store = new EventStore(':memory:');
+    slack = new RecordingSlackService();
+  });
+
+  afterEach(() => {
+    store.close();
+  });
+
+  test('keeps the time of the last digest across restarts', async () => {
+    await new DigestScheduler(slack, store, options).flush(new Date(2024, 0, 1, 9, 0));
+    expect(store.getLastDigestFlush()).toEqual(new Date(2024, 0, 1, 9, 0));
+
+    store.record(quake);
+    store.addDigestEntry(quake.id, CHANNEL);
+
+    const restarted = new DigestScheduler(slack, store, options);
+    await restarted.check(new Date(2024, 0, 1, 10, 0));
+    expect(slack.calls).toHaveLength(0);
+
+    await restarted.check(new Date(2024, 0, 2, 9, 5));
+    expect(slack.calls.map((call) => call.channel)).toEqual([CHANNEL]);
+    expect(store.getDigestEntries()).toHaveLength(0);
+  });
+
+  test('starts the schedule from now without a previous digest', async () => {
+    expect(store.getLastDigestFlush()).toBeUndefined();
+
+    store.record(quake);
+    store.addDigestEntry(quake.id, CHANNEL);
+    await new DigestScheduler(slack, store, options).check(new Date(2024, 0, 2, 9, 5));
+    expect(slack.calls).toHaveLength(0);
+  });
+});
@@ -0,0 +1,122 @@
+import type { JMAQuake, JMATsunami } from 'p2pquake-client';
+import type { TimeWindow } from '../config/env';
+import { config } from '../config/env';
+import { logger } from '../utils/logger';
+import { formatDigestMessage, formatDigestText } from '../utils/formatter';
+import { getLatestDigestSlot, isQuietTime } from '../utils/digest';
+import type { DigestEntry, EventStore } from './eventStore';
+import type { SlackService } from './slack';
+
+export interface DigestSchedulerOptions {
+  // Interval between schedule checks
+  checkIntervalMs: number;
+  // Hours between digests, counted from midnight; ignored when `times` is set
+  intervalHours: number;
+  // Times of day (minutes since midnight) at which digests are posted
+  times: number[];
+  // Digests are not posted in these windows, and follow right after them instead
+  quietHours: TimeWindow[];
+}
+
+/**
+ * Posts the events held back in each channel's digest on a schedule
+ *
+ * Entries and the time of the last digest live in the event store, so that a
+ * restart neither loses them nor posts a digest that was already posted.
+ */
+export class DigestScheduler {
+  private slackService: SlackService;
+  private eventStore: EventStore;
+  private options: DigestSchedulerOptions;
+  private timer?: ReturnType<typeof setInterval>;
+  private lastFlush: Date;
+  private wasQuiet = false;
+  private flushing = false;
+
+  constructor(slackService: SlackService, eventStore: EventStore, options: DigestSchedulerOptions) {
+    this.slackService = slackService;
+    this.eventStore = eventStore;
+    this.options = options;
+    this.lastFlush = eventStore.getLastDigestFlush() ?? new Date();
+  }
+
+  start(): void {
+    this.timer = setInterval(() => void this.check(), this.options.checkIntervalMs);
+  }
+
+  stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * Post the digests when a scheduled time has passed or quiet hours have just ended
+   */
+  async check(now: Date = new Date()): Promise<void> {
+    const quiet = isQuietTime(this.options.quietHours, now);
+    const quietEnded = this.wasQuiet && !quiet;
+    this.wasQuiet = quiet;
+
+    if (quiet) {
+      return;
+    }
+
+    const slot = getLatestDigestSlot(now, this.options.intervalHours, this.options.times);
+    if (quietEnded || slot > this.lastFlush) {
+      await this.flush(now);
+    }
+  }
+
+  /**
+   * Post every channel's pending digest
+   *
+   * Entries of a channel whose digest fails stay in the store for the next one.
+   */
+  async flush(now: Date = new Date()): Promise<void> {
+    if (this.flushing) {
+      return;
+    }
+    this.flushing = true;
+    this.lastFlush = now;
+    this.eventStore.setLastDigestFlush(now);
+
+    try {
+      const byChannel = new Map<string, DigestEntry[]>();
+      this.eventStore.getDigestEntries().forEach((entry) => {
+        byChannel.set(entry.channelId, [...(byChannel.get(entry.channelId) ?? []), entry]);
+      });
+
+      for (const [channelId, entries] of byChannel) {
+        await this.post(channelId, entries, now);
+      }
+    } finally {
+      this.flushing = false;
+    }
+  }
+
+  private async post(channelId: string, entries: DigestEntry[], now: Date): Promise<void> {
+    const locales =
+      config.routes.find((route) => route.channelId === channelId)?.locales ?? config.locales;
+    const from = new Date(
+      Math.min(...entries.map((entry) => new Date(entry.event.receivedAt).getTime()))
+    );
+    const events = entries.map((entry) => entry.event.payload as JMAQuake | JMATsunami);
+
+    try {
+      await this.slackService.sendMessage(
+        channelId,
+        formatDigestMessage(events, from, now, { locales }),
+        { text: formatDigestText(events.length, locales) }
+      );
+      this.eventStore.removeDigestEntries(
+        channelId,
+        entries.map((entry) => entry.event.id)
+      );
+      logger.info('Digest posted', { channel: channelId, events: events.length });
+    } catch (error) {
+      if (error instanceof Error) {
+        logger.error('Failed to post digest', error);
+      }
+    }
+  }
+}
@@ -0,0 +1,151 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, test } from 'bun:test';
+import { config, reloadConfig } from '../config/env';
+import { createEEW } from '../test/eew';
+import { SlackDoctor } from './doctor';
+import type { CheckResult } from './doctor';
+import { createSlackClient } from './slack';
+
+const CHANNEL = 'C0123456789';
+
+type Handler = (params: URLSearchParams) => Record<string, unknown>;
+
+const DEFAULT_HANDLERS: Record<string, Handler> = {
+  'auth.test': () => ({ ok: true, user: 'quake-bot', team: 'Example' }),
+  'conversations.info': () => ({ ok: true, channel: { name: 'quake', is_member: true } }),
+  'chat.postMessage': () => ({ ok: true, ts: '1700000000.000100' }),
+  'chat.delete': () => ({ ok: true }),
+};
+
+let handlers: Record<string, Handler> = {};
+let missingImages: string[] = [];
+// Slack API methods called, with their parameters
+const calls: [string, URLSearchParams][] = [];
+
+/**
+ * Slack Web API stand-in granting every scope, which also serves the message images
+ */
+const server = Bun.serve({
+  port: 0,
+  fetch: async (request) => {
+    const { pathname } = new URL(request.url);
+    if (pathname.startsWith('/images/')) {
+      return missingImages.includes(pathname.slice('/images/'.length))
+        ? new Response('Not Found', { status: 404 })
+        : new Response(null, { headers: { 'Content-Type': 'image/png' } });
+    }
+
+    const method = pathname.slice('/api/'.length);
+    const params = new URLSearchParams(await request.text());
+    calls.push([method, params]);
+    const response = (handlers[method] ?? DEFAULT_HANDLERS[method])(params);
+    return Response.json(response, {
+      headers: { 'X-OAuth-Scopes': 'chat:write,pins:write,files:write,channels:read' },
+    });
+  },
+});
+
+const ENV = {
+  SLACK_API_URL: `http://localhost:${server.port}/api/`,
+  GITHUB_IMAGE_BASE_URL: `http://localhost:${server.port}/images`,
+  SLACK_ROUTES: JSON.stringify([{ name: 'eew', channel: CHANNEL, codes: [551, 556] }]),
+};
+
+beforeAll(() => {
+  Object.assign(process.env, ENV);
+  expect(reloadConfig()).toBe(true);
+});
+
+afterAll(() => {
+  Object.keys(ENV).forEach((key) => delete process.env[key]);
+  reloadConfig();
+  server.stop(true);
+});
+
+async function runDoctor(postSamples = false): Promise<CheckResult[]> {
+  const doctor = new SlackDoctor(createSlackClient(config.slackBotToken), {
+    samples: postSamples ? [createEEW()] : undefined,
+    imageTimeoutMs: 1000,
+  });
+  return doctor.run();
+}
+
+const statuses = (results: CheckResult[]) =>
+  results.map((result) => [result.name.split(' ')[0], result.status]);
+
+describe('SlackDoctor', () => {
+  beforeEach(() => {
+    handlers = {};
+    missingImages = [];
+    calls.length = 0;
+  });
+
+  test('passes a token, channel and images set up correctly', async () => {
+    const results = await runDoctor();
+
+    expect(results.every((result) => result.status === 'pass')).toBe(true);
+    expect(results[0].detail).toBe('Authenticated as quake-bot in Example');
+    expect(results[2].name).toBe(`channel ${CHANNEL} (route eew)`);
+  });
+
+  test('stops at a rejected token with its remediation hint', async () => {
+    handlers['auth.test'] = () => ({ ok: false, error: 'invalid_auth' });
+
+    const [auth, ...rest] = await runDoctor();
+
+    expect(auth).toMatchObject({
+      status: 'fail',
+      hint: 'Invalid authentication. Please check SLACK_BOT_TOKEN.',
+    });
+    expect(rest.every((result) => result.name.startsWith('image'))).toBe(true);
+  });
+
+  test('fails channels the bot is not a member of, without posting samples', async () => {
+    handlers['conversations.info'] = () => ({
+      ok: true,
+      channel: { name: 'quake', is_member: false },
+    });
+
+    const results = await runDoctor(true);
+
+    expect(results[2]).toMatchObject({
+      status: 'fail',
+      detail: 'The bot is not a member of #quake',
+    });
+    expect(calls.map(([method]) => method)).toEqual(['auth.test', 'conversations.info']);
+  });
+
+  test('posts and deletes a sample of each event the route accepts', async () => {
+    const results = await runDoctor(true);
+
+    expect(statuses(results).filter(([name]) => name === 'sample')).toEqual([
+      ['sample', 'skip'],
+      ['sample', 'pass'],
+    ]);
+    const deleted = calls.find(([method]) => method === 'chat.delete')?.[1];
+    expect(deleted?.get('channel')).toBe(CHANNEL);
+    expect(deleted?.get('ts')).toBe('1700000000.000100');
+  });
+
+  test('fails a sample post that returns no timestamp', async () => {
+    handlers['chat.postMessage'] = () => ({ ok: true });
+
+    const results = await runDoctor(true);
+
+    expect(results.find((result) => result.name.startsWith('sample EEW'))).toMatchObject({
+      status: 'fail',
+      detail: 'Slack returned no timestamp for the posted message',
+    });
+    expect(calls.some(([method]) => method === 'chat.delete')).toBe(false);
+  });
+
+  test('fails images that do not resolve', async () => {
+    missingImages = ['ocean.png'];
+
+    const results = await runDoctor();
+
+    expect(results.find((result) => result.name === 'image ocean.png')).toMatchObject({
+      status: 'fail',
+      detail: `HTTP 404 for ${ENV.GITHUB_IMAGE_BASE_URL}/ocean.png`,
+    });
+  });
+});
@@ -0,0 +1,281 @@
+import type { KnownBlock, WebClient } from '@slack/web-api';
+import type { JMAQuake, JMATsunami, EEW } from 'p2pquake-client';
+import { config } from '../config/env';
+import type { Route } from '../config/env';
+import {
+  formatEEWMessage,
+  formatQuakeMessage,
+  formatTsunamiMessage,
+  getImageUrl,
+  MESSAGE_IMAGES,
+} from '../utils/formatter';
+import type { Locale } from '../i18n';
+import { getSlackErrorHint } from './slack';
+import type { SupportedPayload } from './p2pquake';
+
+export type CheckStatus = 'pass' | 'warn' | 'fail' | 'skip';
+
+export interface CheckResult {
+  name: string;
+  status: CheckStatus;
+  detail: string;
+  // What to do about a failure or warning
+  hint?: string;
+}
+
+export interface DoctorOptions {
+  // Payloads posted, then deleted, in every channel accepting their event code; none skips the check
+  samples?: SupportedPayload[];
+  // Time allowed for each image request
+  imageTimeoutMs: number;
+}
+
+// Event codes of the sample messages, with their label in the report
+const SAMPLE_CODES: Record<number, string> = {
+  551: 'earthquake information',
+  552: 'tsunami forecast',
+  556: 'EEW',
+};
+
+// Push notification text of the sample messages, which are deleted right away
+const SAMPLE_TEXT = 'Setup check by the doctor command (this message is deleted right away)';
+
+/**
+ * A channel that messages are posted to, with the settings that use it
+ */
+interface CheckedChannel {
+  channelId: string;
+  uses: string[];
+  route?: Route;
+}
+
+/**
+ * Preflight checks of the Slack setup: token, scopes, channel membership and
+ * message images, and optionally a post of each message type
+ *
+ * Checks use the same API calls as the notifications, so they fail the same way.
+ */
+export class SlackDoctor {
+  private client: WebClient;
+  private options: DoctorOptions;
+
+  constructor(client: WebClient, options: DoctorOptions) {
+    this.client = client;
+    this.options = options;
+  }
+
+  async run(): Promise<CheckResult[]> {
+    const results: CheckResult[] = [];
+
+    const auth = await this.checkAuth();
+    results.push(auth.result);
+    if (auth.result.status === 'pass') {
+      results.push(this.checkScopes(auth.scopes));
+      for (const channel of this.getChannels()) {
+        const membership = await this.checkChannel(channel);
+        results.push(membership);
+        if (membership.status !== 'fail' && this.options.samples) {
+          results.push(...(await this.checkSamples(channel, this.options.samples)));
+        }
+      }
+    }
+
+    results.push(...(await this.checkImages()));
+    return results;
+  }
+
+  private async checkAuth(): Promise<{ result: CheckResult; scopes?: string[] }> {
+    try {
+      const response = await this.client.auth.test();
+      return {
+        result: {
+          name: 'auth.test',
+          status: 'pass',
+          detail: `Authenticated as ${response.user} in ${response.team}`,
+        },
+        scopes: response.response_metadata?.scopes,
+      };
+    } catch (error) {
+      return { result: this.failure('auth.test', error) };
+    }
+  }
+
+  /**
+   * Compare the scopes granted to the token with the ones the settings need
+   */
+  private checkScopes(granted?: string[]): CheckResult {
+    if (!granted) {
+      return {
+        name: 'scopes',
+        status: 'warn',
+        detail: 'The API did not report the granted scopes',
+        hint: 'Check the Bot Token Scopes under "OAuth & Permissions" by hand.',
+      };
+    }
+
+    const required = ['chat:write', 'pins:write'];
+    if (config.mapImages) {
+      required.push('files:write');
+    }
+    const missing = required.filter((scope) => !granted.includes(scope));
+
+    return missing.length === 0
+      ? { name: 'scopes', status: 'pass', detail: `Granted ${required.join(', ')}` }
+      : {
+          name: 'scopes',
+          status: 'fail',
+          detail: `Missing ${missing.join(', ')}`,
+          hint: 'Add the scopes under "OAuth & Permissions", then reinstall the app.',
+        };
+  }
+
+  /**
+   * Channels of the routes, the ops alerts and the activity reports
+   */
+  private getChannels(): CheckedChannel[] {
+    const channels = new Map<string, CheckedChannel>();
+    const add = (channelId: string, use: string, route?: Route) => {
+      const channel = channels.get(channelId) ?? { channelId, uses: [] };
+      channel.uses.push(use);
+      channel.route ??= route;
+      channels.set(channelId, channel);
+    };
+
+    config.routes.forEach((route) => add(route.channelId, `route ${route.name}`, route));
+    if (config.opsChannelId) {
+      add(config.opsChannelId, 'ops alerts');
+    }
+    if (config.reportSchedule) {
+      add(config.reportChannelId, 'activity reports');
+    }
+
+    return [...channels.values()];
+  }
+
+  private async checkChannel(channel: CheckedChannel): Promise<CheckResult> {
+    const name = `channel ${channel.channelId} (${channel.uses.join(', ')})`;
+
+    try {
+      const response = await this.client.conversations.info({ channel: channel.channelId });
+      if (!response.channel?.is_member) {
+        return {
+          name,
+          status: 'fail',
+          detail: `The bot is not a member of #${response.channel?.name}`,
+          hint: 'Invite the bot with /invite @your-bot-name in the channel.',
+        };
+      }
+      return { name, status: 'pass', detail: `The bot is a member of #${response.channel.name}` };
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('missing_scope')) {
+        return {
+          name,
+          status: 'warn',
+          detail: 'Membership could not be checked',
+          hint: 'Add the channels:read scope (groups:read for private channels) to check membership, or run with --post-samples.',
+        };
+      }
+      return this.failure(name, error);
+    }
+  }
+
+  /**
+   * Post and delete one message per event type that the channel's route accepts
+   *
+   * Channels only used for ops alerts or reports get no sample.
+   */
+  private async checkSamples(
+    channel: CheckedChannel,
+    samples: SupportedPayload[]
+  ): Promise<CheckResult[]> {
+    const codes = (channel.route?.codes ?? []).filter((code) => code in SAMPLE_CODES);
+    const locales = channel.route?.locales ?? config.locales;
+    const results: CheckResult[] = [];
+
+    for (const code of codes) {
+      const name = `sample ${SAMPLE_CODES[code]} in ${channel.channelId}`;
+      const payload = samples.find((sample) => sample.code === code);
+      if (!payload) {
+        results.push({ name, status: 'skip', detail: `No Code ${code} payload in the samples` });
+        continue;
+      }
+
+      try {
+        const posted = await this.client.chat.postMessage({
+          channel: channel.channelId,
+          blocks: formatSample(payload, locales),
+          text: SAMPLE_TEXT,
+        });
+        if (!posted.ts) {
+          results.push({
+            name,
+            status: 'fail',
+            detail: 'Slack returned no timestamp for the posted message',
+            hint: 'Delete the sample message in the channel by hand.',
+          });
+          continue;
+        }
+        await this.client.chat.delete({ channel: channel.channelId, ts: posted.ts });
+        results.push({ name, status: 'pass', detail: 'Posted and deleted' });
+      } catch (error) {
+        results.push(this.failure(name, error));
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Check that the images of the built-in messages resolve under GITHUB_IMAGE_BASE_URL
+   */
+  private async checkImages(): Promise<CheckResult[]> {
+    return Promise.all(
+      MESSAGE_IMAGES.map(async (filename): Promise<CheckResult> => {
+        const url = getImageUrl(filename);
+        const name = `image ${filename}`;
+        const hint =
+          'Check GITHUB_IMAGE_BASE_URL; Slack rejects messages whose images cannot be fetched.';
+
+        try {
+          const response = await fetch(url, {
+            method: 'HEAD',
+            signal: AbortSignal.timeout(this.options.imageTimeoutMs),
+          });
+          const contentType = response.headers.get('content-type') ?? '';
+          if (!response.ok) {
+            return { name, status: 'fail', detail: `HTTP ${response.status} for ${url}`, hint };
+          }
+          if (!contentType.startsWith('image/')) {
+            return { name, status: 'fail', detail: `${url} is ${contentType}`, hint };
+          }
+          return { name, status: 'pass', detail: url };
+        } catch (error) {
+          return { name, status: 'fail', detail: `${url}: ${(error as Error).message}`, hint };
+        }
+      })
+    );
+  }
+
+  private failure(name: string, error: unknown): CheckResult {
+    return {
+      name,
+      status: 'fail',
+      detail: error instanceof Error ? error.message : String(error),
+      hint: getSlackErrorHint(error),
+    };
+  }
+}
+
+/**
+ * Format a sample payload as its notification would be
+ */
+function formatSample(payload: SupportedPayload, locales: Locale[]): KnownBlock[] {
+  switch (payload.code) {
+    case 551:
+      return formatQuakeMessage(payload as JMAQuake, { locales });
+    case 552:
+      return formatTsunamiMessage(payload as JMATsunami, { locales });
+    default:
+      return formatEEWMessage(payload as EEW, { locales });
+  }
+}
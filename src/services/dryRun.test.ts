@@ -0,0 +1,108 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from 'bun:test';
+import { mkdtempSync, readdirSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { KnownBlock } from '@slack/web-api';
+import { DryRunSlackService, getBlockKitBuilderUrl } from './dryRun';
+
+const CHANNEL = 'C0123456789';
+const blocks: KnownBlock[] = [{ type: 'section', text: { type: 'mrkdwn', text: '*震度5弱*' } }];
+
+describe('DryRunSlackService', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'dry-run-'));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  const readRecord = (file: string) => JSON.parse(readFileSync(join(directory, file), 'utf8'));
+
+  test('writes each API call as a JSON record, threading with the returned ts', async () => {
+    const service = new DryRunSlackService('file', 'json', directory);
+
+    const ts = await service.sendMessage(CHANNEL, blocks, { text: 'EEW' });
+    await service.updateMessage(CHANNEL, ts, blocks, { text: 'EEW (2)' });
+    await service.sendThreadReply(CHANNEL, ts, 'Cancelled');
+    await service.pinMessage(CHANNEL, ts);
+
+    // Files are named after the ts, whose seconds may move on before the reply
+    const [post, update, pin, reply] = readdirSync(directory).sort();
+    expect([post, update, pin, reply].map((file) => file.replace(/^\d+-/, ''))).toEqual([
+      '000001-chat-postMessage.json',
+      '000001-chat-update.json',
+      '000001-pins-add.json',
+      '000002-chat-postMessage.json',
+    ]);
+    expect(readRecord(post)).toEqual({
+      action: 'chat.postMessage',
+      channel: CHANNEL,
+      ts,
+      text: 'EEW',
+      blocks,
+    });
+    expect(readRecord(update)).toMatchObject({ action: 'chat.update', ts, text: 'EEW (2)' });
+    expect(readRecord(reply)).toMatchObject({
+      threadTs: ts,
+      text: 'Cancelled',
+    });
+  });
+
+  test('writes Block Kit Builder previews of the messages in url format', async () => {
+    const service = new DryRunSlackService('file', 'url', directory);
+
+    const ts = await service.sendMessage(CHANNEL, blocks);
+    await service.pinMessage(CHANNEL, ts);
+
+    const prefix = ts.replace('.', '-');
+    expect(readdirSync(directory).sort()).toEqual([
+      `${prefix}-chat-postMessage.txt`,
+      `${prefix}-pins-add.json`,
+    ]);
+    expect(readFileSync(join(directory, `${prefix}-chat-postMessage.txt`), 'utf8')).toBe(
+      `chat.postMessage ${CHANNEL} ${ts}\n${getBlockKitBuilderUrl(blocks)}\n`
+    );
+  });
+
+  test('saves uploaded images next to their record', async () => {
+    const service = new DryRunSlackService('file', 'json', directory);
+    const data = new Uint8Array([0x89, 0x50, 0x4e, 0x47]);
+
+    await service.uploadImage(CHANNEL, '1700000000.000001', {
+      data,
+      filename: 'map.png',
+      title: 'Intensity map',
+    });
+
+    const [recordFile, imageFile] = readdirSync(directory).sort();
+    expect(imageFile.endsWith('-map.png')).toBe(true);
+    expect(new Uint8Array(readFileSync(join(directory, imageFile)))).toEqual(data);
+    expect(readRecord(recordFile)).toMatchObject({ action: 'files.uploadV2', file: imageFile });
+  });
+
+  test('prints the records to stdout without writing files', async () => {
+    const write = spyOn(process.stdout, 'write').mockImplementation(() => true);
+    try {
+      const service = new DryRunSlackService('stdout', 'json', directory);
+      await service.sendMessage(CHANNEL, blocks, { text: 'EEW' });
+
+      expect(JSON.parse(String(write.mock.calls.at(-1)?.[0]))).toMatchObject({
+        action: 'chat.postMessage',
+        text: 'EEW',
+      });
+    } finally {
+      write.mockRestore();
+    }
+    expect(readdirSync(directory)).toEqual([]);
+  });
+});
+
+describe('getBlockKitBuilderUrl', () => {
+  test('encodes the blocks in the URL fragment', () => {
+    const url = new URL(getBlockKitBuilderUrl(blocks));
+    expect(JSON.parse(decodeURIComponent(url.hash.slice(1)))).toEqual({ blocks });
+  });
+});
@@ -0,0 +1,152 @@
+import { mkdirSync } from 'node:fs';
+import { join } from 'node:path';
+import type { KnownBlock } from '@slack/web-api';
+import { logger } from '../utils/logger';
+import { SlackService } from './slack';
+import type { MessageImage, SendMessageOptions, UpdateMessageOptions } from './slack';
+import type { DeliveryPriority } from './deliveryQueue';
+
+export type DryRunOutput = 'stdout' | 'file';
+export type DryRunFormat = 'json' | 'url';
+
+interface DryRunRecord {
+  action: 'chat.postMessage' | 'chat.update' | 'files.uploadV2' | 'pins.add' | 'pins.remove';
+  channel: string;
+  ts: string;
+  threadTs?: string;
+  text?: string;
+  blocks?: KnownBlock[];
+  // Uploaded file: its title, and where it was written (file output only)
+  title?: string;
+  file?: string;
+}
+
+/**
+ * Build a Block Kit Builder URL that previews the blocks
+ */
+export function getBlockKitBuilderUrl(blocks: KnownBlock[]): string {
+  return `https://app.slack.com/block-kit-builder#${encodeURIComponent(JSON.stringify({ blocks }))}`;
+}
+
+/**
+ * Slack service that renders messages to stdout or files instead of calling Slack
+ *
+ * Only the Slack API calls are replaced, so threading and EEW updates behave
+ * exactly as they would against Slack.
+ */
+export class DryRunSlackService extends SlackService {
+  private output: DryRunOutput;
+  private format: DryRunFormat;
+  private directory: string;
+  private sequence = 0;
+
+  constructor(output: DryRunOutput, format: DryRunFormat, directory: string) {
+    super('');
+    this.output = output;
+    this.format = format;
+    this.directory = directory;
+
+    if (output === 'file') {
+      mkdirSync(directory, { recursive: true });
+    }
+
+    logger.info('Dry run: messages are not sent to Slack', { output, format, directory });
+  }
+
+  override async sendMessage(
+    channelId: string,
+    blocks: KnownBlock[],
+    options: SendMessageOptions = {}
+  ): Promise<string> {
+    const ts = this.nextTs();
+    await this.write({
+      action: 'chat.postMessage',
+      channel: channelId,
+      ts,
+      threadTs: options.threadTs,
+      text: options.text,
+      blocks,
+    });
+    return ts;
+  }
+
+  override async updateMessage(
+    channelId: string,
+    ts: string,
+    blocks: KnownBlock[],
+    options: UpdateMessageOptions = {}
+  ): Promise<void> {
+    await this.write({ action: 'chat.update', channel: channelId, ts, text: options.text, blocks });
+  }
+
+  override async sendThreadReply(
+    channelId: string,
+    threadTs: string,
+    text: string,
+    _priority?: DeliveryPriority
+  ): Promise<void> {
+    await this.write({
+      action: 'chat.postMessage',
+      channel: channelId,
+      ts: this.nextTs(),
+      threadTs,
+      text,
+    });
+  }
+
+  override async pinMessage(channelId: string, ts: string): Promise<void> {
+    await this.write({ action: 'pins.add', channel: channelId, ts });
+  }
+
+  override async unpinMessage(channelId: string, ts: string): Promise<void> {
+    await this.write({ action: 'pins.remove', channel: channelId, ts });
+  }
+
+  override async uploadImage(
+    channelId: string,
+    threadTs: string,
+    image: MessageImage
+  ): Promise<void> {
+    const ts = this.nextTs();
+    let file: string | undefined;
+
+    if (this.output === 'file') {
+      file = `${ts.replace('.', '-')}-${image.filename}`;
+      await Bun.write(join(this.directory, file), image.data);
+    }
+
+    await this.write({
+      action: 'files.uploadV2',
+      channel: channelId,
+      ts,
+      threadTs,
+      title: image.title,
+      file,
+    });
+  }
+
+  /**
+   * Generate a message timestamp in Slack's "seconds.sequence" format
+   */
+  private nextTs(): string {
+    this.sequence += 1;
+    return `${Math.floor(Date.now() / 1000)}.${this.sequence.toString().padStart(6, '0')}`;
+  }
+
+  private async write(record: DryRunRecord): Promise<void> {
+    const content =
+      this.format === 'url' && record.blocks
+        ? `${record.action} ${record.channel} ${record.ts}\n${getBlockKitBuilderUrl(record.blocks)}\n`
+        : `${JSON.stringify(record, null, 2)}\n`;
+
+    if (this.output === 'stdout') {
+      process.stdout.write(content);
+      return;
+    }
+
+    const extension = this.format === 'url' && record.blocks ? 'txt' : 'json';
+    const filename = `${record.ts.replace('.', '-')}-${record.action.replace('.', '-')}.${extension}`;
+    await Bun.write(join(this.directory, filename), content);
+    logger.debug('Dry run output written', { file: filename });
+  }
+}
@@ -0,0 +1,69 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { EventStore } from './eventStore';
+
+const payload = { id: 'quake-1', code: 551, time: '2024/01/01 16:13:00.000' };
+
+describe('EventStore deliveries', () => {
+  let store: EventStore;
+
+  beforeEach(() => {
+    store = new EventStore(':memory:');
+  });
+
+  afterEach(() => {
+    store.close();
+  });
+
+  test('claims new events once', () => {
+    expect(store.claim(payload)).toEqual({});
+    expect(store.claim(payload)).toBeUndefined();
+    expect(store.needsDelivery(payload.id)).toBe(false);
+  });
+
+  test('does not claim delivered events again', () => {
+    store.claim(payload);
+    store.completeDelivery(payload.id);
+    expect(store.claim(payload)).toBeUndefined();
+  });
+
+  test('claims failed events again for the destinations that failed', () => {
+    store.claim(payload);
+    store.failDelivery(payload.id, ['discord']);
+    expect(store.needsDelivery(payload.id)).toBe(true);
+    expect(store.claim(payload)).toEqual({ retry: true, targets: ['discord'] });
+    expect(store.needsDelivery(payload.id)).toBe(false);
+  });
+
+  test('retries every destination of failures without targets', () => {
+    store.claim(payload);
+    store.failDelivery(payload.id);
+    expect(store.claim(payload)).toEqual({ retry: true, targets: undefined });
+  });
+
+  test('lists failed events until they run out of attempts', () => {
+    store.claim(payload);
+    store.failDelivery(payload.id);
+    expect(store.getFailedEvents(3)).toMatchObject([{ event: { id: payload.id }, attempts: 1 }]);
+
+    store.claim(payload);
+    store.failDelivery(payload.id);
+    expect(store.getFailedEvents(3)).toMatchObject([{ attempts: 2 }]);
+
+    store.claim(payload);
+    store.failDelivery(payload.id);
+    expect(store.getFailedEvents(3)).toEqual([]);
+  });
+
+  test('marks interrupted deliveries as failed', () => {
+    store.claim(payload);
+    expect(store.failInterrupted()).toBe(1);
+    expect(store.needsDelivery(payload.id)).toBe(true);
+  });
+
+  test('records the Slack messages of an event', () => {
+    store.recordDelivery(payload.id, 'C0123456789', '1704093180.000100');
+    expect(store.getDeliveries(payload.id)).toMatchObject([
+      { eventId: payload.id, channelId: 'C0123456789', ts: '1704093180.000100' },
+    ]);
+  });
+});
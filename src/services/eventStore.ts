@@ -0,0 +1,496 @@
+import { Database } from 'bun:sqlite';
+import { mkdirSync } from 'node:fs';
+import { dirname } from 'node:path';
+import { logger } from '../utils/logger';
+
+/**
+ * Minimal shape shared by every P2PQuake payload
+ */
+export interface P2PQuakePayload {
+  id: string;
+  code: number;
+  time: string;
+}
+
+export interface StoredEvent<T = unknown> {
+  id: string;
+  code: number;
+  time: string;
+  receivedAt: string;
+  payload: T;
+}
+
+/**
+ * Delivery state of a recorded event
+ *
+ * Events are `pending` while their handler runs. `failed` events are
+ * delivered again by the history poller, to the destinations that failed,
+ * until they run out of attempts.
+ */
+export type DeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+/**
+ * Delivery of an event taken up by a handler
+ */
+export interface DeliveryClaim {
+  // Set when a failed delivery is retried
+  retry?: boolean;
+  // Destinations that failed last time; every destination when unset
+  targets?: string[];
+}
+
+export interface StoredDelivery {
+  eventId: string;
+  channelId: string;
+  ts: string;
+  deliveredAt: string;
+}
+
+/**
+ * Event whose delivery failed, waiting to be delivered again
+ */
+export interface FailedEvent<T = unknown> {
+  event: StoredEvent<T>;
+  // Deliveries taken up so far
+  attempts: number;
+}
+
+/**
+ * Event with the Slack message it produced in a channel
+ */
+export interface DeliveredEvent<T = unknown> {
+  ts: string;
+  event: StoredEvent<T>;
+}
+
+/**
+ * Active tsunami message pinned in a channel, with the last bulletin it shows
+ */
+export interface PinnedMessage {
+  channelId: string;
+  eventId: string;
+  ts: string;
+  // When the message was last posted or revised
+  updatedAt: string;
+}
+
+/**
+ * Event waiting in a channel's digest
+ */
+export interface DigestEntry<T = unknown> {
+  channelId: string;
+  event: StoredEvent<T>;
+}
+
+interface EventRow {
+  id: string;
+  code: number;
+  time: string;
+  received_at: string;
+  payload: string;
+}
+
+interface StatusRow {
+  status: DeliveryStatus;
+  failed_targets: string | null;
+}
+
+interface PinnedMessageRow {
+  channel_id: string;
+  event_id: string;
+  ts: string;
+  updated_at: string;
+}
+
+interface DeliveryRow {
+  event_id: string;
+  channel_id: string;
+  ts: string;
+  delivered_at: string;
+}
+
+function toStoredEvent<T>(row: EventRow): StoredEvent<T> {
+  return {
+    id: row.id,
+    code: row.code,
+    time: row.time,
+    receivedAt: row.received_at,
+    payload: JSON.parse(row.payload) as T,
+  };
+}
+
+function toPinnedMessage(row: PinnedMessageRow): PinnedMessage {
+  return {
+    channelId: row.channel_id,
+    eventId: row.event_id,
+    ts: row.ts,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Persistent store of received P2PQuake events and the Slack messages they produced
+ */
+export class EventStore {
+  private db: Database;
+
+  constructor(path: string) {
+    if (path !== ':memory:') {
+      mkdirSync(dirname(path), { recursive: true });
+    }
+
+    this.db = new Database(path, { create: true });
+    this.db.exec('PRAGMA journal_mode = WAL');
+    this.migrate();
+
+    logger.info('Event store opened', { path });
+  }
+
+  private migrate(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS events (
+        id TEXT PRIMARY KEY,
+        code INTEGER NOT NULL,
+        time TEXT NOT NULL,
+        received_at TEXT NOT NULL,
+        payload TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS events_code_received_at ON events (code, received_at);
+      CREATE TABLE IF NOT EXISTS deliveries (
+        event_id TEXT NOT NULL,
+        channel_id TEXT NOT NULL,
+        ts TEXT NOT NULL,
+        delivered_at TEXT NOT NULL,
+        PRIMARY KEY (event_id, channel_id)
+      );
+      CREATE TABLE IF NOT EXISTS pinned_messages (
+        channel_id TEXT PRIMARY KEY,
+        event_id TEXT NOT NULL,
+        ts TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS digest_entries (
+        event_id TEXT NOT NULL,
+        channel_id TEXT NOT NULL,
+        added_at TEXT NOT NULL,
+        PRIMARY KEY (event_id, channel_id)
+      );
+      CREATE TABLE IF NOT EXISTS digest_flushes (
+        id INTEGER PRIMARY KEY CHECK (id = 1),
+        flushed_at TEXT NOT NULL
+      );
+    `);
+
+    // Stores created before delivery states only hold delivered events
+    const columns = this.db.query('PRAGMA table_info(events)').all() as { name: string }[];
+    if (!columns.some((column) => column.name === 'status')) {
+      this.db.exec(`
+        ALTER TABLE events ADD COLUMN status TEXT NOT NULL DEFAULT 'delivered';
+        ALTER TABLE events ADD COLUMN failed_targets TEXT;
+      `);
+    }
+    // Stores created before retry limits count each event as attempted once
+    if (!columns.some((column) => column.name === 'attempts')) {
+      this.db.exec('ALTER TABLE events ADD COLUMN attempts INTEGER NOT NULL DEFAULT 1');
+    }
+  }
+
+  /**
+   * Check whether an event still has to be delivered: it is new, or its delivery failed
+   */
+  needsDelivery(id: string): boolean {
+    const row = this.db.query('SELECT status FROM events WHERE id = ?').get(id) as Pick<
+      StatusRow,
+      'status'
+    > | null;
+
+    return row === null || row.status === 'failed';
+  }
+
+  /**
+   * Record a received event, pending delivery
+   *
+   * Returns false when the event was already recorded.
+   */
+  record(payload: P2PQuakePayload): boolean {
+    const result = this.db
+      .query(
+        `INSERT OR IGNORE INTO events (id, code, time, received_at, payload, status, attempts)
+         VALUES (?, ?, ?, ?, ?, 'pending', 1)`
+      )
+      .run(
+        payload.id,
+        payload.code,
+        payload.time,
+        new Date().toISOString(),
+        JSON.stringify(payload)
+      );
+
+    return result.changes > 0;
+  }
+
+  /**
+   * Take up the delivery of an event: record a new one, or retry a failed one
+   *
+   * Every delivery taken up counts as an attempt. Returns undefined when the
+   * event is delivered or being delivered.
+   */
+  claim(payload: P2PQuakePayload): DeliveryClaim | undefined {
+    return this.db.transaction(() => {
+      if (this.record(payload)) {
+        return {};
+      }
+
+      const row = this.db
+        .query("SELECT status, failed_targets FROM events WHERE id = ? AND status = 'failed'")
+        .get(payload.id) as StatusRow | null;
+      if (!row) {
+        return undefined;
+      }
+
+      this.db
+        .query("UPDATE events SET status = 'pending', attempts = attempts + 1 WHERE id = ?")
+        .run(payload.id);
+      return {
+        retry: true,
+        targets: row.failed_targets ? (JSON.parse(row.failed_targets) as string[]) : undefined,
+      };
+    })();
+  }
+
+  /**
+   * Mark an event as delivered to every destination
+   */
+  completeDelivery(id: string): void {
+    this.db
+      .query("UPDATE events SET status = 'delivered', failed_targets = NULL WHERE id = ?")
+      .run(id);
+  }
+
+  /**
+   * Mark the delivery of an event as failed for some destinations (all when unset)
+   */
+  failDelivery(id: string, targets?: string[]): void {
+    this.db
+      .query("UPDATE events SET status = 'failed', failed_targets = ? WHERE id = ?")
+      .run(targets ? JSON.stringify(targets) : null, id);
+  }
+
+  /**
+   * Mark the deliveries cut short by a restart as failed, so that they are retried
+   *
+   * Returns the number of events marked.
+   */
+  failInterrupted(): number {
+    return this.db.query("UPDATE events SET status = 'failed' WHERE status = 'pending'").run()
+      .changes;
+  }
+
+  /**
+   * Record the Slack message produced for an event in a channel
+   */
+  recordDelivery(eventId: string, channelId: string, ts: string): void {
+    this.db
+      .query(
+        'INSERT OR REPLACE INTO deliveries (event_id, channel_id, ts, delivered_at) VALUES (?, ?, ?, ?)'
+      )
+      .run(eventId, channelId, ts, new Date().toISOString());
+  }
+
+  /**
+   * Get the Slack messages produced for an event
+   */
+  getDeliveries(eventId: string): StoredDelivery[] {
+    const rows = this.db
+      .query('SELECT * FROM deliveries WHERE event_id = ? ORDER BY delivered_at')
+      .all(eventId) as DeliveryRow[];
+
+    return rows.map((row) => ({
+      eventId: row.event_id,
+      channelId: row.channel_id,
+      ts: row.ts,
+      deliveredAt: row.delivered_at,
+    }));
+  }
+
+  /**
+   * Get the serials of an EEW event delivered to a channel, oldest serial first
+   *
+   * Every serial of an event is delivered to the same message, so this maps
+   * the EEW event (issue.eventId) to its message.
+   */
+  getEEWDeliveries<T>(channelId: string, eewEventId: string): DeliveredEvent<T>[] {
+    const rows = this.db
+      .query(
+        `SELECT deliveries.ts AS delivery_ts, events.* FROM deliveries
+         JOIN events ON events.id = deliveries.event_id
+         WHERE deliveries.channel_id = ? AND events.code = 556
+           AND json_extract(events.payload, '$.issue.eventId') = ?
+         ORDER BY CAST(json_extract(events.payload, '$.issue.serial') AS INTEGER),
+           deliveries.delivered_at`
+      )
+      .all(channelId, eewEventId) as (EventRow & { delivery_ts: string })[];
+
+    return rows.map((row) => ({ ts: row.delivery_ts, event: toStoredEvent<T>(row) }));
+  }
+
+  /**
+   * Get the EEW serials delivered to a channel that were received since a time, oldest first
+   */
+  getEEWDeliveriesSince<T>(channelId: string, since: Date): DeliveredEvent<T>[] {
+    const rows = this.db
+      .query(
+        `SELECT deliveries.ts AS delivery_ts, events.* FROM deliveries
+         JOIN events ON events.id = deliveries.event_id
+         WHERE deliveries.channel_id = ? AND events.code = 556 AND events.received_at >= ?
+         ORDER BY events.received_at`
+      )
+      .all(channelId, since.toISOString()) as (EventRow & { delivery_ts: string })[];
+
+    return rows.map((row) => ({ ts: row.delivery_ts, event: toStoredEvent<T>(row) }));
+  }
+
+  /**
+   * Get an event by its id
+   */
+  getEvent<T>(id: string): StoredEvent<T> | undefined {
+    const row = this.db.query('SELECT * FROM events WHERE id = ?').get(id) as EventRow | null;
+
+    return row ? toStoredEvent<T>(row) : undefined;
+  }
+
+  /**
+   * Get the failed events with attempts left, oldest first
+   */
+  getFailedEvents<T>(maxAttempts: number): FailedEvent<T>[] {
+    const rows = this.db
+      .query(
+        "SELECT * FROM events WHERE status = 'failed' AND attempts < ? ORDER BY time, received_at"
+      )
+      .all(maxAttempts) as (EventRow & { attempts: number })[];
+
+    return rows.map((row) => ({ event: toStoredEvent<T>(row), attempts: row.attempts }));
+  }
+
+  /**
+   * Get the active tsunami message pinned in a channel
+   */
+  getPinnedMessage(channelId: string): PinnedMessage | undefined {
+    const row = this.db
+      .query('SELECT * FROM pinned_messages WHERE channel_id = ?')
+      .get(channelId) as PinnedMessageRow | null;
+
+    return row ? toPinnedMessage(row) : undefined;
+  }
+
+  /**
+   * Get the active tsunami messages pinned in every channel
+   */
+  getPinnedMessages(): PinnedMessage[] {
+    const rows = this.db.query('SELECT * FROM pinned_messages').all() as PinnedMessageRow[];
+
+    return rows.map(toPinnedMessage);
+  }
+
+  /**
+   * Record the active tsunami message of a channel and the bulletin it now shows
+   */
+  setPinnedMessage(channelId: string, eventId: string, ts: string): void {
+    this.db
+      .query(
+        'INSERT OR REPLACE INTO pinned_messages (channel_id, event_id, ts, updated_at) VALUES (?, ?, ?, ?)'
+      )
+      .run(channelId, eventId, ts, new Date().toISOString());
+  }
+
+  /**
+   * Forget the active tsunami message of a channel once it is unpinned
+   */
+  removePinnedMessage(channelId: string): void {
+    this.db.query('DELETE FROM pinned_messages WHERE channel_id = ?').run(channelId);
+  }
+
+  /**
+   * Get the most recently received event with the given code
+   */
+  getLatest<T>(code: number): StoredEvent<T> | undefined {
+    const row = this.db
+      .query('SELECT * FROM events WHERE code = ? ORDER BY received_at DESC LIMIT 1')
+      .get(code) as EventRow | null;
+
+    return row ? toStoredEvent<T>(row) : undefined;
+  }
+
+  /**
+   * Get the events with the given code received in [from, to)
+   */
+  getEvents<T>(code: number, from: Date, to: Date): StoredEvent<T>[] {
+    const rows = this.db
+      .query(
+        'SELECT * FROM events WHERE code = ? AND received_at >= ? AND received_at < ? ORDER BY received_at'
+      )
+      .all(code, from.toISOString(), to.toISOString()) as EventRow[];
+
+    return rows.map((row) => toStoredEvent<T>(row));
+  }
+
+  /**
+   * Add a recorded event to a channel's digest
+   */
+  addDigestEntry(eventId: string, channelId: string): void {
+    this.db
+      .query(
+        'INSERT OR IGNORE INTO digest_entries (event_id, channel_id, added_at) VALUES (?, ?, ?)'
+      )
+      .run(eventId, channelId, new Date().toISOString());
+  }
+
+  /**
+   * Get the events waiting in every channel's digest, oldest first
+   */
+  getDigestEntries(): DigestEntry[] {
+    const rows = this.db
+      .query(
+        `SELECT digest_entries.channel_id, events.* FROM digest_entries
+         JOIN events ON events.id = digest_entries.event_id
+         ORDER BY events.time, events.received_at`
+      )
+      .all() as (EventRow & { channel_id: string })[];
+
+    return rows.map((row) => ({ channelId: row.channel_id, event: toStoredEvent(row) }));
+  }
+
+  /**
+   * Remove events from a channel's digest once it has been posted
+   */
+  removeDigestEntries(channelId: string, eventIds: string[]): void {
+    const remove = this.db.query(
+      'DELETE FROM digest_entries WHERE channel_id = ? AND event_id = ?'
+    );
+    this.db.transaction(() => eventIds.forEach((eventId) => remove.run(channelId, eventId)))();
+  }
+
+  /**
+   * Get when the digests were last posted, if ever
+   */
+  getLastDigestFlush(): Date | undefined {
+    const row = this.db.query('SELECT flushed_at FROM digest_flushes WHERE id = 1').get() as {
+      flushed_at: string;
+    } | null;
+
+    return row ? new Date(row.flushed_at) : undefined;
+  }
+
+  /**
+   * Record when the digests were posted, so that a restart keeps the schedule
+   */
+  setLastDigestFlush(flushedAt: Date): void {
+    this.db
+      .query('INSERT OR REPLACE INTO digest_flushes (id, flushed_at) VALUES (1, ?)')
+      .run(flushedAt.toISOString());
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
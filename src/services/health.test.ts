@@ -0,0 +1,39 @@
+import { describe, expect, test } from 'bun:test';
+import { healthResponse } from './health';
+
+const now = new Date('2024-01-01T07:10:00Z');
+
+describe('healthResponse', () => {
+  test('responds 200 with the age of the last message while connected', async () => {
+    const response = healthResponse(
+      {
+        connected: true,
+        since: new Date('2024-01-01T07:00:00Z'),
+        lastMessageAt: new Date('2024-01-01T07:09:30Z'),
+      },
+      now
+    );
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      status: 'ok',
+      connected: true,
+      since: '2024-01-01T07:00:00.000Z',
+      lastMessageAt: '2024-01-01T07:09:30.000Z',
+      lastMessageAgeSeconds: 30,
+    });
+  });
+
+  test('responds 503 while disconnected', async () => {
+    const response = healthResponse({ connected: false }, now);
+
+    expect(response.status).toBe(503);
+    expect(await response.json()).toEqual({
+      status: 'disconnected',
+      connected: false,
+      since: null,
+      lastMessageAt: null,
+      lastMessageAgeSeconds: null,
+    });
+  });
+});
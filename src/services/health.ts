@@ -0,0 +1,24 @@
+import type { ConnectionStatus } from './p2pquake';
+
+/**
+ * Build the /healthz response from the WebSocket connection state
+ *
+ * Responds 200 while connected and 503 otherwise, so container health checks
+ * fail when the bot can no longer receive events.
+ */
+export function healthResponse(status: ConnectionStatus, now: Date = new Date()): Response {
+  const lastMessageAgeSeconds = status.lastMessageAt
+    ? Math.round((now.getTime() - status.lastMessageAt.getTime()) / 1000)
+    : null;
+
+  return Response.json(
+    {
+      status: status.connected ? 'ok' : 'disconnected',
+      connected: status.connected,
+      since: status.since?.toISOString() ?? null,
+      lastMessageAt: status.lastMessageAt?.toISOString() ?? null,
+      lastMessageAgeSeconds,
+    },
+    { status: status.connected ? 200 : 503 }
+  );
+}
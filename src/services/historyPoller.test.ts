@@ -0,0 +1,75 @@
+import { afterAll, describe, expect, test } from 'bun:test';
+import { EventStore } from './eventStore';
+import { HistoryPoller } from './historyPoller';
+import type { P2PQuakeService, SupportedPayload } from './p2pquake';
+import { formatEventTime } from '../utils/time';
+
+// Recent enough for the poller's maximum age
+function jstTime(offsetMs: number): string {
+  return formatEventTime(Date.now() + offsetMs);
+}
+
+const history = [
+  { id: 'delivered', code: 551, time: jstTime(-120_000) },
+  { id: 'failed', code: 551, time: jstTime(-60_000) },
+  { id: 'missed', code: 552, time: jstTime(-30_000) },
+  { id: 'stale', code: 551, time: jstTime(-3_600_000) },
+];
+
+const server = Bun.serve({ port: 0, fetch: () => Response.json(history) });
+
+afterAll(() => {
+  server.stop(true);
+});
+
+describe('HistoryPoller', () => {
+  function poll(store: EventStore, baseUrl = `http://localhost:${server.port}`) {
+    const dispatched: string[] = [];
+    const service = {
+      dispatch: async (payload: SupportedPayload) => {
+        dispatched.push(payload.id);
+      },
+    } as unknown as P2PQuakeService;
+
+    const poller = new HistoryPoller(service, store, {
+      baseUrl,
+      intervalMs: 0,
+      maxAgeMs: 600_000,
+      maxAttempts: 3,
+      limit: 10,
+    });
+    return poller.poll().then(() => dispatched);
+  }
+
+  test('delivers missed and failed events, oldest first', async () => {
+    const store = new EventStore(':memory:');
+    store.claim(history[0]);
+    store.completeDelivery('delivered');
+    store.claim(history[1]);
+    store.failDelivery('failed', ['slack']);
+
+    expect(await poll(store)).toEqual(['failed', 'missed']);
+    store.close();
+  });
+
+  test('retries failed events from the store, even when the history no longer has them', async () => {
+    const store = new EventStore(':memory:');
+    const detection = { id: 'detection', code: 554, time: jstTime(-7_200_000) };
+    store.claim(detection);
+    store.failDelivery(detection.id);
+
+    expect(await poll(store, 'http://localhost:1')).toEqual(['detection']);
+    store.close();
+  });
+
+  test('gives up on events that ran out of attempts', async () => {
+    const store = new EventStore(':memory:');
+    for (let attempt = 0; attempt < 3; attempt++) {
+      store.claim(history[1]);
+      store.failDelivery('failed');
+    }
+
+    expect(await poll(store)).toEqual(['delivered', 'missed']);
+    store.close();
+  });
+});
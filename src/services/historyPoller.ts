@@ -0,0 +1,139 @@
+import { logger } from '../utils/logger';
+import { parseEventTime } from '../utils/time';
+import type { EventStore } from './eventStore';
+import type { P2PQuakeService, SupportedPayload } from './p2pquake';
+
+const HISTORY_CODES = [551, 552, 556];
+
+export interface HistoryPollerOptions {
+  // Base URL of the P2PQuake REST API, e.g. https://api.p2pquake.net/v2
+  baseUrl: string;
+  // Interval between periodic polls (0 only polls after connecting)
+  intervalMs: number;
+  // Missed events published longer ago than this are not delivered
+  maxAgeMs: number;
+  // Deliveries of an event taken up before its failures are no longer retried
+  maxAttempts: number;
+  // Number of events requested per poll
+  limit: number;
+}
+
+/**
+ * Redundant ingestion path polling the P2PQuake REST history
+ *
+ * Events that the WebSocket missed (outages, restarts) are dispatched as late
+ * deliveries. Events are merged with the WebSocket stream by payload id, so
+ * whichever path sees an event first delivers it. Events whose delivery
+ * failed are dispatched again from the event store, for the destinations that
+ * failed, until they run out of attempts.
+ */
+export class HistoryPoller {
+  private p2pquakeService: P2PQuakeService;
+  private eventStore: EventStore;
+  private options: HistoryPollerOptions;
+  private timer?: ReturnType<typeof setInterval>;
+  private polling = false;
+
+  constructor(
+    p2pquakeService: P2PQuakeService,
+    eventStore: EventStore,
+    options: HistoryPollerOptions
+  ) {
+    this.p2pquakeService = p2pquakeService;
+    this.eventStore = eventStore;
+    this.options = options;
+  }
+
+  start(): void {
+    if (this.options.intervalMs > 0) {
+      this.timer = setInterval(() => void this.poll(), this.options.intervalMs);
+    }
+  }
+
+  stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * Deliver the events missed by the WebSocket and retry the failed ones, oldest first
+   */
+  async poll(): Promise<void> {
+    if (this.polling) {
+      return;
+    }
+    this.polling = true;
+
+    try {
+      const missed = await this.findMissed();
+      const failed = this.eventStore.getFailedEvents<SupportedPayload>(this.options.maxAttempts);
+      const payloads = [...missed, ...failed.map(({ event }) => event.payload)].sort(
+        (a, b) => parseEventTime(a.time) - parseEventTime(b.time)
+      );
+
+      for (const payload of payloads) {
+        const retry = failed.find(({ event }) => event.id === payload.id);
+        logger.info(
+          retry
+            ? 'Retrying event whose delivery failed'
+            : 'Delivering event missed by the WebSocket',
+          {
+            id: payload.id,
+            code: payload.code,
+            time: payload.time,
+            attempt: retry && `${retry.attempts + 1}/${this.options.maxAttempts}`,
+          }
+        );
+        await this.p2pquakeService.dispatch(payload, { late: true });
+      }
+    } catch (error) {
+      if (error instanceof Error) {
+        logger.error('Failed to deliver missed or failed events', error);
+      }
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  /**
+   * Fetch the recent history and keep the events never received, within the maximum age
+   *
+   * A failed request is logged and finds nothing, so failed events are still retried.
+   */
+  private async findMissed(): Promise<SupportedPayload[]> {
+    try {
+      const payloads = await this.fetchHistory();
+      const now = Date.now();
+
+      const missed = payloads
+        .filter((payload) => payload.id && !this.eventStore.getEvent(payload.id))
+        .filter((payload) => now - parseEventTime(payload.time) <= this.options.maxAgeMs);
+
+      logger.debug('History polled', { events: payloads.length, missed: missed.length });
+      return missed;
+    } catch (error) {
+      if (error instanceof Error) {
+        logger.error('Failed to poll P2PQuake history', error);
+      }
+      return [];
+    }
+  }
+
+  private async fetchHistory(): Promise<SupportedPayload[]> {
+    const url = new URL(`${this.options.baseUrl.replace(/\/$/, '')}/history`);
+    HISTORY_CODES.forEach((code) => url.searchParams.append('codes', String(code)));
+    url.searchParams.set('limit', String(this.options.limit));
+
+    const response = await fetch(url, { signal: AbortSignal.timeout(10_000) });
+    if (!response.ok) {
+      throw new Error(`P2PQuake history request failed: HTTP ${response.status}`);
+    }
+
+    const body: unknown = await response.json();
+    if (!Array.isArray(body)) {
+      throw new Error('P2PQuake history response is not an array');
+    }
+
+    return (body as SupportedPayload[]).filter((payload) => HISTORY_CODES.includes(payload.code));
+  }
+}
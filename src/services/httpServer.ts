@@ -0,0 +1,56 @@
+import { logger } from '../utils/logger';
+
+type RouteHandler = (request: Request) => Response | Promise<Response>;
+
+/**
+ * Minimal HTTP server dispatching requests by method and path
+ */
+export class HttpServer {
+  private routes = new Map<string, RouteHandler>();
+  private server?: ReturnType<typeof Bun.serve>;
+
+  /**
+   * Register a handler for a method and path
+   */
+  route(method: string, path: string, handler: RouteHandler): void {
+    this.routes.set(`${method.toUpperCase()} ${path}`, handler);
+  }
+
+  /**
+   * Start listening on the given port
+   */
+  start(port: number): void {
+    this.server = Bun.serve({
+      port,
+      fetch: (request) => this.handle(request),
+    });
+
+    logger.info('HTTP server listening', { port: this.server.port });
+  }
+
+  /**
+   * Stop listening
+   */
+  stop(): void {
+    this.server?.stop();
+    this.server = undefined;
+  }
+
+  private async handle(request: Request): Promise<Response> {
+    const { pathname } = new URL(request.url);
+    const handler = this.routes.get(`${request.method} ${pathname}`);
+
+    if (!handler) {
+      return new Response('Not Found', { status: 404 });
+    }
+
+    try {
+      return await handler(request);
+    } catch (error) {
+      if (error instanceof Error) {
+        logger.error('HTTP handler failed', error);
+      }
+      return new Response('Internal Server Error', { status: 500 });
+    }
+  }
+}
@@ -1,95 +1,390 @@
 import { P2PQuakeWebSocketClient, WS_ENDPOINTS } from 'p2pquake-client';
 import type { JMAQuake, JMATsunami, EEW } from 'p2pquake-client';
 import { logger } from '../utils/logger';
+import { metrics } from '../utils/metrics';
 import { config } from '../config/env';
+import type { RouteEventCode } from '../config/env';
+import type { DeliveryClaim, EventStore, P2PQuakePayload } from './eventStore';
 
-type QuakeHandler = (quake: JMAQuake) => void;
-type TsunamiHandler = (tsunami: JMATsunami) => void;
-type EEWHandler = (eew: EEW) => void;
+/**
+ * EEW detection (Code 554): P2PQuake peers detected an EEW broadcast
+ */
+export interface EEWDetection {
+  id: string;
+  code: 554;
+  time: string;
+  // Full: a warning was detected, Chime: only the chime was heard
+  type: 'Full' | 'Chime';
+}
+
+/**
+ * Number of P2PQuake peers per area (Code 555)
+ */
+export interface Areapeers {
+  id: string;
+  code: 555;
+  time: string;
+  areas: { id: number; peer: number }[];
+}
+
+/**
+ * Shaking reported by a P2PQuake user (Code 561)
+ */
+export interface Userquake {
+  id: string;
+  code: 561;
+  time: string;
+  // P2PQuake area code of the reporting user
+  area: number;
+}
+
+/**
+ * P2PQuake's evaluation of a burst of user reports (Code 9611)
+ */
+export interface UserquakeEvaluation {
+  id: string;
+  code: 9611;
+  time: string;
+  count: number;
+  // Probability (0 to 1) that the reports describe a real earthquake
+  confidence: number;
+  started_at: string;
+  updated_at: string;
+  area_confidences: Record<string, { confidence: number; count: number; display: string }>;
+}
+
+/**
+ * How an event reached the bot
+ */
+export interface EventContext {
+  // Missed by the WebSocket and recovered later (e.g. from the REST history)
+  late: boolean;
+  // Set when a failed delivery is retried
+  retry?: boolean;
+  // Destinations to deliver to again after a failed delivery; all of them when unset
+  targets?: string[];
+}
+
+/**
+ * Thrown by a handler when some destinations failed; the event is retried for them
+ */
+export class DeliveryError extends Error {
+  readonly targets: string[];
+
+  constructor(message: string, targets: string[]) {
+    super(message);
+    this.name = 'DeliveryError';
+    this.targets = targets;
+  }
+}
+
+type QuakeHandler = (quake: JMAQuake, context: EventContext) => void | Promise<void>;
+type TsunamiHandler = (tsunami: JMATsunami, context: EventContext) => void | Promise<void>;
+type EEWHandler = (eew: EEW, context: EventContext) => void | Promise<void>;
+type EEWDetectionHandler = (detection: EEWDetection, context: EventContext) => void | Promise<void>;
+type AreapeersHandler = (areapeers: Areapeers, context: EventContext) => void | Promise<void>;
+type UserquakeHandler = (report: Userquake, context: EventContext) => void | Promise<void>;
+type UserquakeEvaluationHandler = (
+  evaluation: UserquakeEvaluation,
+  context: EventContext
+) => void | Promise<void>;
+type ConnectHandler = () => void;
+
+export type SupportedPayload =
+  | JMAQuake
+  | JMATsunami
+  | EEW
+  | EEWDetection
+  | Areapeers
+  | Userquake
+  | UserquakeEvaluation;
+
+// High-volume codes that never produce a message of their own; not kept in the event store
+const UNSTORED_CODES = new Set([555, 561]);
+
+/**
+ * Snapshot of the WebSocket connection state
+ */
+export interface ConnectionStatus {
+  connected: boolean;
+  // When the connection state last changed
+  since?: Date;
+  // When the last payload was received
+  lastMessageAt?: Date;
+}
+
+/**
+ * Event codes to subscribe the WebSocket to
+ *
+ * Some codes are subscribed even when no route posts them. With stall detection
+ * on, peer counts (555) serve the watchdog as a heartbeat: P2PQuake sends them
+ * regularly, also while there is no earthquake. Evaluations (9611) decide
+ * whether user reports (561) are convincing enough to alert.
+ */
+function getSubscribedCodes(): RouteEventCode[] {
+  const codes = new Set(config.eventCodes);
+  if (config.stallTimeout > 0) {
+    codes.add(555);
+  }
+  if (codes.has(561)) {
+    codes.add(9611);
+  }
+  return [...codes];
+}
 
 export class P2PQuakeService {
   private client: P2PQuakeWebSocketClient;
   private quakeHandler?: QuakeHandler;
   private tsunamiHandler?: TsunamiHandler;
   private eewHandler?: EEWHandler;
+  private eewDetectionHandler?: EEWDetectionHandler;
+  private areapeersHandler?: AreapeersHandler;
+  private userquakeHandler?: UserquakeHandler;
+  private userquakeEvaluationHandler?: UserquakeEvaluationHandler;
+  private connectHandler?: ConnectHandler;
+  private eventStore?: EventStore;
+  private connected = false;
+  private connectionChangedAt?: Date;
+  private lastMessageAt?: Date;
+  private connectCount = 0;
 
-  constructor() {
+  constructor(eventStore?: EventStore) {
+    this.eventStore = eventStore;
     this.client = new P2PQuakeWebSocketClient({
-      url: config.nodeEnv === 'production' ? WS_ENDPOINTS.PRODUCTION : WS_ENDPOINTS.SANDBOX,
-      eventCodes: [551, 552, 556],
+      url:
+        config.p2pquakeWsUrl ??
+        (config.nodeEnv === 'production' ? WS_ENDPOINTS.PRODUCTION : WS_ENDPOINTS.SANDBOX),
+      eventCodes: getSubscribedCodes(),
     });
     this.setupEventHandlers();
   }
 
+  /**
+   * Take up the delivery of the event in the store
+   *
+   * Returns undefined when the event is delivered or being delivered.
+   */
+  private claim(data: P2PQuakePayload): DeliveryClaim | undefined {
+    if (!this.eventStore || !data.id || UNSTORED_CODES.has(data.code)) {
+      return {};
+    }
+
+    const claim = this.eventStore.claim(data);
+    if (!claim) {
+      logger.debug('Skipping already processed event', {
+        id: data.id,
+        code: data.code,
+      });
+    }
+    return claim;
+  }
+
+  /**
+   * Record the outcome of a delivery taken up with claim()
+   *
+   * A failure without targets is retried for every destination.
+   */
+  private settle(data: P2PQuakePayload, failure?: DeliveryClaim): void {
+    if (!this.eventStore || !data.id || UNSTORED_CODES.has(data.code)) {
+      return;
+    }
+
+    if (failure) {
+      this.eventStore.failDelivery(data.id, failure.targets);
+    } else {
+      this.eventStore.completeDelivery(data.id);
+    }
+  }
+
   private setupEventHandlers(): void {
     // Connection established
     this.client.on('connect', () => {
+      this.setConnected(true);
+      this.connectCount += 1;
+      if (this.connectCount > 1) {
+        metrics.reconnects.inc();
+      }
       logger.info('Connected to P2PQuake WebSocket');
+      this.connectHandler?.();
     });
 
     // Connection closed
     this.client.on('disconnect', () => {
+      this.setConnected(false);
       logger.warn('Disconnected from P2PQuake WebSocket');
     });
 
     // Error occurred
     this.client.on('error', (error) => {
+      metrics.websocketErrors.inc();
       logger.error('P2PQuake WebSocket error', error);
     });
 
     // JMA earthquake information received (Code 551)
     this.client.on(551, (data: JMAQuake) => {
-      logger.debug('Received JMA earthquake information', {
-        code: data.code,
-        time: data.time,
-      });
-
-      if (this.quakeHandler) {
-        try {
-          this.quakeHandler(data);
-        } catch (error) {
-          if (error instanceof Error) {
-            logger.error('Error in quake handler', error);
-          }
-        }
-      }
+      void this.receive(data);
     });
 
     // JMA tsunami information received (Code 552)
     this.client.on(552, (data: JMATsunami) => {
-      logger.debug('Received JMA tsunami information', {
-        code: data.code,
-        time: data.time,
-      });
-
-      if (this.tsunamiHandler) {
-        try {
-          this.tsunamiHandler(data);
-        } catch (error) {
-          if (error instanceof Error) {
-            logger.error('Error in tsunami handler', error);
-          }
-        }
-      }
+      void this.receive(data);
     });
 
     // EEW detection received (Code 556)
     this.client.on(556, (data: EEW) => {
-      logger.debug('Received EEW detection', {
-        code: data.code,
-        time: data.time,
-      });
+      void this.receive(data);
+    });
 
-      if (this.eewHandler) {
-        try {
-          this.eewHandler(data);
-        } catch (error) {
-          if (error instanceof Error) {
-            logger.error('Error in EEW handler', error);
-          }
-        }
+    // Opt-in codes (EXTRA_EVENT_CODES); only delivered when subscribed
+    this.client.on(554, (data: EEWDetection) => {
+      void this.receive(data);
+    });
+
+    this.client.on(555, (data: Areapeers) => {
+      if (config.eventCodes.includes(555)) {
+        void this.receive(data);
+      } else {
+        // Only subscribed as a heartbeat
+        this.markActivity();
       }
     });
+
+    this.client.on(561, (data: Userquake) => {
+      void this.receive(data);
+    });
+
+    this.client.on(9611, (data: UserquakeEvaluation) => {
+      void this.receive(data);
+    });
+  }
+
+  private setConnected(connected: boolean): void {
+    this.connected = connected;
+    this.connectionChangedAt = new Date();
+    metrics.connected.set(connected ? 1 : 0);
+  }
+
+  /**
+   * Get the current WebSocket connection state
+   */
+  getStatus(): ConnectionStatus {
+    return {
+      connected: this.connected,
+      since: this.connectionChangedAt,
+      lastMessageAt: this.lastMessageAt,
+    };
+  }
+
+  /**
+   * Handle a payload received over the WebSocket
+   */
+  private receive(data: SupportedPayload): Promise<void> {
+    this.markActivity();
+    metrics.eventsReceived.inc({ code: data.code });
+
+    return this.dispatch(data);
+  }
+
+  /**
+   * Note traffic on the WebSocket, which the watchdog takes as a sign of life
+   */
+  private markActivity(): void {
+    this.lastMessageAt = new Date();
+    metrics.lastMessageTimestamp.set(this.lastMessageAt.getTime() / 1000);
+  }
+
+  /**
+   * Pass a payload to the handler registered for its code
+   *
+   * Used by the WebSocket listeners, the history poller and offline replay.
+   * Resolves once the handler has finished.
+   */
+  async dispatch(data: SupportedPayload, context: EventContext = { late: false }): Promise<void> {
+    switch (data.code) {
+      case 551:
+        logger.debug('Received JMA earthquake information', {
+          code: data.code,
+          time: data.time,
+        });
+        return this.runHandler('quake', data, context, this.quakeHandler);
+      case 552:
+        logger.debug('Received JMA tsunami information', {
+          code: data.code,
+          time: data.time,
+        });
+        return this.runHandler('tsunami', data, context, this.tsunamiHandler);
+      case 556:
+        logger.debug('Received EEW detection', {
+          code: data.code,
+          time: data.time,
+        });
+        return this.runHandler('EEW', data, context, this.eewHandler);
+      case 554:
+        logger.debug('Received EEW broadcast detection', {
+          code: data.code,
+          time: data.time,
+        });
+        return this.runHandler('EEW broadcast detection', data, context, this.eewDetectionHandler);
+      case 555:
+        logger.debug('Received area peers', {
+          code: data.code,
+          time: data.time,
+        });
+        return this.runHandler('area peers', data, context, this.areapeersHandler);
+      case 561:
+        logger.debug('Received user report', {
+          code: data.code,
+          time: data.time,
+        });
+        return this.runHandler('user report', data, context, this.userquakeHandler);
+      case 9611:
+        logger.debug('Received user report evaluation', {
+          code: data.code,
+          time: data.time,
+        });
+        return this.runHandler(
+          'user report evaluation',
+          data,
+          context,
+          this.userquakeEvaluationHandler
+        );
+    }
+  }
+
+  private async runHandler<T extends SupportedPayload>(
+    name: string,
+    data: T,
+    context: EventContext,
+    handler?: (data: T, context: EventContext) => void | Promise<void>
+  ): Promise<void> {
+    const claim = this.claim(data);
+    if (!claim) {
+      return;
+    }
+
+    if (!handler) {
+      this.settle(data);
+      return;
+    }
+
+    try {
+      await handler(data, { ...context, retry: claim.retry, targets: claim.targets });
+      this.settle(data);
+    } catch (error) {
+      if (error instanceof DeliveryError) {
+        logger.warn(`Failed to deliver ${name}, retried by the history poller`, {
+          id: data.id,
+          targets: error.targets,
+        });
+        this.settle(data, { targets: error.targets });
+      } else {
+        if (error instanceof Error) {
+          logger.error(`Error in ${name} handler`, error);
+        }
+        // Retry the same destinations as this attempt
+        this.settle(data, claim);
+      }
+    }
   }
 
   /**
@@ -107,6 +402,15 @@ export class P2PQuakeService {
     }
   }
 
+  /**
+   * Drop the current connection, if any, and connect again
+   */
+  async reconnect(): Promise<void> {
+    logger.info('Reconnecting to P2PQuake WebSocket...');
+    this.client.disconnect();
+    await this.connect();
+  }
+
   /**
    * Disconnect from P2PQuake WebSocket
    */
@@ -135,4 +439,39 @@ export class P2PQuakeService {
   onEEW(handler: EEWHandler): void {
     this.eewHandler = handler;
   }
+
+  /**
+   * Register handler for EEW broadcast detection (Code 554)
+   */
+  onEEWDetection(handler: EEWDetectionHandler): void {
+    this.eewDetectionHandler = handler;
+  }
+
+  /**
+   * Register handler for peer counts per area (Code 555)
+   */
+  onAreapeers(handler: AreapeersHandler): void {
+    this.areapeersHandler = handler;
+  }
+
+  /**
+   * Register handler for user-reported shaking (Code 561)
+   */
+  onUserquake(handler: UserquakeHandler): void {
+    this.userquakeHandler = handler;
+  }
+
+  /**
+   * Register handler for user report evaluations (Code 9611)
+   */
+  onUserquakeEvaluation(handler: UserquakeEvaluationHandler): void {
+    this.userquakeEvaluationHandler = handler;
+  }
+
+  /**
+   * Register handler called every time the WebSocket (re)connects
+   */
+  onConnect(handler: ConnectHandler): void {
+    this.connectHandler = handler;
+  }
 }
@@ -0,0 +1,109 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import type { JMAQuake } from 'p2pquake-client';
+import { RecordingSlackService } from '../test/recordingSlack';
+import { parseCron } from '../utils/cron';
+import { EventStore } from './eventStore';
+import { ReportScheduler } from './report';
+
+const CHANNEL = 'C0REPORT000';
+
+function quake(
+  id: string,
+  time: string,
+  maxScale: number,
+  hypocenter?: { name: string; magnitude: number }
+): JMAQuake {
+  return {
+    id,
+    code: 551,
+    time,
+    issue: { type: hypocenter ? 'DetailScale' : 'ScalePrompt' },
+    earthquake: {
+      time,
+      hypocenter: hypocenter && { ...hypocenter, latitude: 37.5, longitude: 137.2, depth: 10 },
+      maxScale,
+    },
+    points: [],
+  } as unknown as JMAQuake;
+}
+
+// Text of the sections and context elements of a Block Kit message
+function blockText(blocks: unknown[] = []): string {
+  return JSON.stringify(blocks)
+    .match(/"text":"[^"]*"/g)!
+    .map((match) => JSON.parse(`{${match}}`).text)
+    .join('\n');
+}
+
+describe('ReportScheduler', () => {
+  let store: EventStore;
+  let slack: RecordingSlackService;
+
+  beforeEach(() => {
+    store = new EventStore(':memory:');
+    slack = new RecordingSlackService();
+  });
+
+  afterEach(() => {
+    store.close();
+  });
+
+  function createScheduler(schedule = '0 9 * * *'): ReportScheduler {
+    return new ReportScheduler(slack, store, {
+      checkIntervalMs: 30_000,
+      schedule: parseCron(schedule),
+      channelId: CHANNEL,
+      locales: ['en'],
+    });
+  }
+
+  test('posts once in each minute the schedule fires', async () => {
+    const scheduler = createScheduler();
+
+    await scheduler.check(new Date(2024, 0, 1, 8, 59, 50));
+    await scheduler.check(new Date(2024, 0, 1, 9, 0, 10));
+    await scheduler.check(new Date(2024, 0, 1, 9, 0, 40));
+    await scheduler.check(new Date(2024, 0, 2, 9, 0, 5));
+
+    expect(slack.calls.map((call) => [call.action, call.channel])).toEqual([
+      ['post', CHANNEL],
+      ['post', CHANNEL],
+    ]);
+  });
+
+  test('renders the felt earthquakes of the period, linking the largest one', async () => {
+    // Two reports of the same earthquake, then a smaller one and an unfelt one
+    store.record(quake('noto-1', '2024/01/01 16:10:00', 45));
+    store.record(
+      quake('noto-2', '2024/01/01 16:10:00', 50, { name: '石川県能登地方', magnitude: 5.8 })
+    );
+    store.record(quake('toyama', '2024/01/01 18:00:00', 10, { name: '富山湾', magnitude: 3.1 }));
+    store.record(quake('unfelt', '2024/01/01 19:00:00', -1));
+    store.recordDelivery('noto-2', CHANNEL, '1700000000.000100');
+
+    const now = Date.now();
+    await createScheduler().post(new Date(now - 60_000), new Date(now + 60_000));
+
+    const [post] = slack.calls;
+    expect(post.text).toBe('Seismic activity report | 2 felt earthquakes');
+    const text = blockText(post.blocks);
+    expect(text).toContain('*Felt earthquakes: 2*');
+    expect(text).toContain('Shindo 5+: 1 earthquake\nShindo 1: 1 earthquake');
+    expect(text).toContain('1. Noto, Ishikawa: 1 earthquake');
+    expect(text).toContain('Noto, Ishikawa | M5.8 | Maximum intensity Shindo 5+');
+    expect(text).toContain(
+      `<https://slack.com/archives/${CHANNEL}/p1700000000000100|View original post>`
+    );
+  });
+
+  test('renders an empty period and keeps running when the post fails', async () => {
+    const scheduler = createScheduler();
+    const now = Date.now();
+
+    await scheduler.post(new Date(now - 60_000), new Date(now));
+    expect(blockText(slack.calls[0].blocks)).toContain('*Felt earthquakes: 0*');
+
+    slack.failingChannels.add(CHANNEL);
+    await expect(scheduler.post(new Date(now - 60_000), new Date(now))).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,91 @@
+import { logger } from '../utils/logger';
+import { formatActivityReport, formatReportText } from '../utils/formatter';
+import { getPreviousCronRun, matchesCron } from '../utils/cron';
+import type { CronSchedule } from '../utils/cron';
+import { buildActivityReport } from '../utils/report';
+import type { Locale } from '../i18n';
+import type { EventStore } from './eventStore';
+import type { SlackService } from './slack';
+
+export interface ReportSchedulerOptions {
+  // Interval between schedule checks; must be under a minute not to miss a run
+  checkIntervalMs: number;
+  schedule: CronSchedule;
+  channelId: string;
+  locales: Locale[];
+}
+
+/**
+ * Posts a seismic activity report each time the schedule fires
+ *
+ * Each report covers the time since the previous scheduled run, so a daily
+ * schedule reports the last day and a weekly one the last week.
+ */
+export class ReportScheduler {
+  private slackService: SlackService;
+  private eventStore: EventStore;
+  private options: ReportSchedulerOptions;
+  private timer?: ReturnType<typeof setInterval>;
+  private lastRun?: Date;
+
+  constructor(slackService: SlackService, eventStore: EventStore, options: ReportSchedulerOptions) {
+    this.slackService = slackService;
+    this.eventStore = eventStore;
+    this.options = options;
+  }
+
+  start(): void {
+    this.timer = setInterval(() => void this.check(), this.options.checkIntervalMs);
+  }
+
+  stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * Post the report when the schedule fires in the current minute, once per minute
+   */
+  async check(now: Date = new Date()): Promise<void> {
+    const minute = new Date(now);
+    minute.setSeconds(0, 0);
+
+    if (
+      !matchesCron(this.options.schedule, minute) ||
+      this.lastRun?.getTime() === minute.getTime()
+    ) {
+      return;
+    }
+    this.lastRun = minute;
+
+    const from = getPreviousCronRun(this.options.schedule, minute);
+    if (!from) {
+      return;
+    }
+    await this.post(from, minute);
+  }
+
+  /**
+   * Post the report of the events received in [from, to)
+   */
+  async post(from: Date, to: Date): Promise<void> {
+    const { channelId, locales } = this.options;
+    const report = buildActivityReport(this.eventStore, from, to, channelId);
+
+    try {
+      await this.slackService.sendMessage(channelId, formatActivityReport(report, { locales }), {
+        text: formatReportText(report, locales),
+      });
+      logger.info('Activity report posted', {
+        channel: channelId,
+        from: from.toISOString(),
+        to: to.toISOString(),
+        felt: report.felt.length,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        logger.error('Failed to post activity report', error);
+      }
+    }
+  }
+}
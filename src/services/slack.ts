@@ -1,61 +1,548 @@
-import { WebClient } from '@slack/web-api';
-import type { KnownBlock } from '@slack/web-api';
+import { WebClient, ErrorCode } from '@slack/web-api';
+import type { KnownBlock, WebAPICallError } from '@slack/web-api';
+import type { JMATsunami, EEW } from 'p2pquake-client';
 import { logger } from '../utils/logger';
+import { metrics } from '../utils/metrics';
 import { config } from '../config/env';
+import { DeliveryQueue } from './deliveryQueue';
+import type { DeliveryPriority, FailureDecision } from './deliveryQueue';
+
+// Push notification text used when a message does not provide its own
+const DEFAULT_TEXT = 'Earthquake information';
+
+/**
+ * Message already posted for an EEW event in a channel
+ */
+export interface EEWMessage {
+  ts: string;
+  // Latest serial posted to the message
+  serial: number;
+  // Summary of that serial, added to the thread once it is superseded
+  summary: string;
+  // Whether the message has mentioned the escalation targets
+  mentioned: boolean;
+}
+
+/**
+ * Blocks of a message with the text shown in push notifications
+ */
+export interface SlackMessage {
+  blocks: KnownBlock[];
+  text: string;
+  // Rendered mentions of the escalation policies that apply, if any
+  mentions?: string;
+}
+
+/**
+ * PNG image uploaded next to a message
+ */
+export interface MessageImage {
+  data: Uint8Array;
+  filename: string;
+  title: string;
+}
+
+export interface SendMessageOptions {
+  threadTs?: string;
+  replyBroadcast?: boolean;
+  priority?: DeliveryPriority;
+  // Fallback text for notifications
+  text?: string;
+}
+
+export interface UpdateMessageOptions {
+  priority?: DeliveryPriority;
+  text?: string;
+}
+
+// Platform errors caused by a temporary problem on Slack's side; any other
+// platform error (invalid_auth, channel_not_found, ...) is permanent
+const TRANSIENT_PLATFORM_ERRORS = new Set([
+  'internal_error',
+  'fatal_error',
+  'service_unavailable',
+  'request_timeout',
+]);
+
+// Remediation hints for Slack API errors caused by the setup
+const ERROR_HINTS: Record<string, string> = {
+  not_in_channel: 'Bot is not in the channel. Please invite the bot to the channel first.',
+  channel_not_found: 'Channel not found. Please check SLACK_CHANNEL_ID and SLACK_ROUTES.',
+  invalid_auth: 'Invalid authentication. Please check SLACK_BOT_TOKEN.',
+  not_authed: 'No token was sent. Please set SLACK_BOT_TOKEN.',
+  token_revoked: 'The token was revoked. Please reinstall the app and update SLACK_BOT_TOKEN.',
+  account_inactive: 'The app was uninstalled. Please reinstall it and update SLACK_BOT_TOKEN.',
+  missing_scope:
+    'The token lacks a required scope. Please add it under "OAuth & Permissions" and reinstall the app.',
+};
+
+/**
+ * Get the remediation hint of a Slack API error, if it is a known setup problem
+ */
+export function getSlackErrorHint(error: unknown): string | undefined {
+  if (!(error instanceof Error)) {
+    return undefined;
+  }
+
+  const code = Object.keys(ERROR_HINTS).find((key) => error.message.includes(key));
+  return code && ERROR_HINTS[code];
+}
+
+/**
+ * Create a Slack Web API client for SLACK_API_URL (the Slack API by default)
+ *
+ * Retries (including rate limits) are left to the caller.
+ */
+export function createSlackClient(token: string): WebClient {
+  return new WebClient(token, {
+    slackApiUrl: config.slackApiUrl,
+    rejectRateLimitedCalls: true,
+    retryConfig: { retries: 0 },
+  });
+}
+
+/**
+ * Decide whether a failed Slack API call should be retried
+ */
+export function classifySlackError(error: unknown): FailureDecision {
+  const apiError = error as Partial<WebAPICallError>;
+
+  switch (apiError.code) {
+    case ErrorCode.RateLimitedError:
+      return {
+        code: 'rate_limited',
+        retryable: true,
+        retryAfterMs: (apiError as { retryAfter: number }).retryAfter * 1000,
+      };
+    case ErrorCode.PlatformError: {
+      const platformError = (apiError as { data: { error: string } }).data.error;
+      return { code: platformError, retryable: TRANSIENT_PLATFORM_ERRORS.has(platformError) };
+    }
+    case ErrorCode.HTTPError: {
+      const statusCode = (apiError as { statusCode: number }).statusCode;
+      return { code: `http_${statusCode}`, retryable: statusCode >= 500 };
+    }
+    case ErrorCode.RequestError:
+      return { code: 'request_error', retryable: true };
+    default:
+      return { code: 'unknown', retryable: true };
+  }
+}
 
 export class SlackService {
   private client: WebClient;
-  private channelId: string;
+  private queue: DeliveryQueue;
 
-  constructor(token: string, channelId: string) {
-    this.client = new WebClient(token);
-    this.channelId = channelId;
+  constructor(token: string) {
+    // Retries (including rate limits) are handled by the delivery queue
+    this.client = createSlackClient(token);
+    this.queue = new DeliveryQueue({
+      maxAttempts: config.deliveryMaxAttempts,
+      baseDelayMs: 1000,
+      maxDelayMs: 60_000,
+      classify: classifySlackError,
+    });
+  }
+
+  /**
+   * Wait until every pending Slack delivery has finished
+   *
+   * Returns false when the timeout elapsed first.
+   */
+  drain(timeoutMs: number): Promise<boolean> {
+    return this.queue.drain(timeoutMs);
+  }
+
+  /**
+   * Run a Slack API call through the delivery queue, recording each attempt
+   */
+  private call<T>(priority: DeliveryPriority, method: string, run: () => Promise<T>): Promise<T> {
+    return this.queue.enqueue(priority, method, async () => {
+      const startedAt = performance.now();
+      try {
+        const result = await run();
+        metrics.slackSends.inc({ method });
+        return result;
+      } catch (error) {
+        metrics.slackFailures.inc({ method, code: classifySlackError(error).code });
+        throw error;
+      } finally {
+        metrics.slackLatency.observe((performance.now() - startedAt) / 1000, { method });
+      }
+    });
   }
 
   /**
    * Send a message to Slack using Block Kit format
+   *
+   * Returns the timestamp of the posted message.
    */
-  async sendMessage(blocks: KnownBlock[]): Promise<void> {
+  async sendMessage(
+    channelId: string,
+    blocks: KnownBlock[],
+    options: SendMessageOptions = {}
+  ): Promise<string> {
     try {
       // Log message in development environment
       if (config.nodeEnv === 'development') {
         logger.debug('Sending Slack message', {
-          channelId: this.channelId,
+          channelId,
           blockCount: blocks.length,
+          threadTs: options.threadTs,
         });
       }
 
-      const result = await this.client.chat.postMessage({
-        channel: this.channelId,
-        blocks,
-        text: 'Earthquake information', // Fallback text for notifications
-      });
+      const thread = options.threadTs
+        ? { thread_ts: options.threadTs, reply_broadcast: options.replyBroadcast ?? false }
+        : {};
 
-      if (!result.ok) {
+      const result = await this.call(options.priority ?? 'normal', 'chat.postMessage', () =>
+        this.client.chat.postMessage({
+          channel: channelId,
+          blocks,
+          text: options.text ?? DEFAULT_TEXT,
+          ...thread,
+        })
+      );
+
+      if (!result.ok || !result.ts) {
         throw new Error(`Slack API error: ${result.error}`);
       }
 
       logger.info('Slack message sent successfully', {
-        channel: this.channelId,
+        channel: channelId,
         timestamp: result.ts,
       });
+
+      return result.ts;
     } catch (error) {
-      if (error instanceof Error) {
-        logger.error('Failed to send Slack message', error);
+      this.handleError('Failed to send Slack message', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Replace the content of an existing message
+   */
+  async updateMessage(
+    channelId: string,
+    ts: string,
+    blocks: KnownBlock[],
+    options: UpdateMessageOptions = {}
+  ): Promise<void> {
+    try {
+      const result = await this.call(options.priority ?? 'normal', 'chat.update', () =>
+        this.client.chat.update({
+          channel: channelId,
+          ts,
+          blocks,
+          text: options.text ?? DEFAULT_TEXT,
+        })
+      );
+
+      if (!result.ok) {
+        throw new Error(`Slack API error: ${result.error}`);
+      }
+
+      logger.info('Slack message updated successfully', {
+        channel: channelId,
+        timestamp: ts,
+      });
+    } catch (error) {
+      this.handleError('Failed to update Slack message', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Post a plain text reply in the thread of an existing message
+   */
+  async sendThreadReply(
+    channelId: string,
+    threadTs: string,
+    text: string,
+    priority: DeliveryPriority = 'normal'
+  ): Promise<void> {
+    try {
+      const result = await this.call(priority, 'chat.postMessage', () =>
+        this.client.chat.postMessage({
+          channel: channelId,
+          thread_ts: threadTs,
+          text,
+        })
+      );
 
-        // Check for common error types
-        if (error.message.includes('not_in_channel')) {
-          logger.error('Bot is not in the channel. Please invite the bot to the channel first.');
-        } else if (error.message.includes('channel_not_found')) {
-          logger.error('Channel not found. Please check SLACK_CHANNEL_ID.');
-        } else if (error.message.includes('invalid_auth')) {
-          logger.error('Invalid authentication. Please check SLACK_BOT_TOKEN.');
-        } else if (error.message.includes('rate_limited')) {
-          logger.warn('Rate limited by Slack API. Message will be retried automatically.');
-        }
+      if (!result.ok) {
+        throw new Error(`Slack API error: ${result.error}`);
       }
+    } catch (error) {
+      this.handleError('Failed to send Slack thread reply', error);
+      throw error;
+    }
+  }
 
+  /**
+   * Pin a message to its channel
+   */
+  async pinMessage(channelId: string, ts: string): Promise<void> {
+    try {
+      const result = await this.call('high', 'pins.add', () =>
+        this.client.pins.add({ channel: channelId, timestamp: ts })
+      );
+
+      if (!result.ok) {
+        throw new Error(`Slack API error: ${result.error}`);
+      }
+    } catch (error) {
+      this.handleError('Failed to pin Slack message', error);
       throw error;
     }
   }
+
+  /**
+   * Remove a message from the pins of its channel
+   */
+  async unpinMessage(channelId: string, ts: string): Promise<void> {
+    try {
+      const result = await this.call('high', 'pins.remove', () =>
+        this.client.pins.remove({ channel: channelId, timestamp: ts })
+      );
+
+      if (!result.ok) {
+        throw new Error(`Slack API error: ${result.error}`);
+      }
+    } catch (error) {
+      this.handleError('Failed to unpin Slack message', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Upload a PNG image as a reply in the thread of a message
+   */
+  async uploadImage(channelId: string, threadTs: string, image: MessageImage): Promise<void> {
+    try {
+      const result = await this.call('normal', 'files.uploadV2', () =>
+        this.client.files.uploadV2({
+          channel_id: channelId,
+          thread_ts: threadTs,
+          file: Buffer.from(image.data),
+          filename: image.filename,
+          title: image.title,
+          alt_text: image.title,
+        })
+      );
+
+      if (!result.ok) {
+        throw new Error(`Slack API error: ${result.error}`);
+      }
+
+      logger.info('Slack image uploaded successfully', {
+        channel: channelId,
+        threadTs,
+        filename: image.filename,
+      });
+    } catch (error) {
+      this.handleError('Failed to upload Slack image', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Upload an image belonging to a message that has already been delivered
+   *
+   * A failed upload is logged but does not fail the delivery of the message.
+   */
+  private async attachImage(
+    channelId: string,
+    threadTs: string,
+    image: MessageImage | undefined
+  ): Promise<void> {
+    if (!image) {
+      return;
+    }
+
+    try {
+      await this.uploadImage(channelId, threadTs, image);
+    } catch {
+      // Already logged by uploadImage
+    }
+  }
+
+  /**
+   * Post an earthquake report (551)
+   *
+   * When the report matches an EEW posted earlier in the same channel (the
+   * timestamp of its message is given), it is sent as a reply in that EEW's
+   * thread so predicted and observed intensities sit together. The map
+   * image, if any, goes to the same thread.
+   */
+  async sendQuakeMessage(
+    channelId: string,
+    message: SlackMessage,
+    image?: MessageImage,
+    eewTs?: string
+  ): Promise<string> {
+    if (!eewTs) {
+      const ts = await this.sendMessage(channelId, message.blocks, { text: message.text });
+      await this.attachImage(channelId, ts, image);
+      return ts;
+    }
+
+    logger.info('Earthquake report matched a previous EEW, replying in thread', {
+      channel: channelId,
+      threadTs: eewTs,
+    });
+
+    // Mentions only reach the channel when the reply is broadcast
+    const ts = await this.sendMessage(channelId, message.blocks, {
+      threadTs: eewTs,
+      replyBroadcast: config.quakeReplyBroadcast || message.mentions !== undefined,
+      text: message.text,
+    });
+    await this.attachImage(channelId, eewTs, image);
+    return ts;
+  }
+
+  /**
+   * Post or update the active tsunami message of a channel
+   *
+   * The first bulletin of a tsunami event is posted and pinned. Later
+   * bulletins (identified by the timestamp of the active message) edit that
+   * message in place, and the cancellation also unpins it. Every bulletin is
+   * logged in the thread with its summary, and revisions carrying mentions
+   * repeat them there. Pinning problems are logged without failing the
+   * delivery.
+   *
+   * Returns the timestamp of the active message.
+   */
+  async sendTsunamiMessage(
+    channelId: string,
+    tsunami: JMATsunami,
+    message: SlackMessage,
+    summary: string,
+    activeTs?: string
+  ): Promise<string> {
+    let ts = activeTs;
+
+    if (!ts) {
+      ts = await this.sendMessage(channelId, message.blocks, {
+        priority: 'high',
+        text: message.text,
+      });
+      if (!tsunami.cancelled) {
+        await this.pinMessage(channelId, ts).catch(() => undefined);
+      }
+    } else {
+      await this.updateMessage(channelId, ts, message.blocks, {
+        priority: 'high',
+        text: message.text,
+      });
+      if (tsunami.cancelled) {
+        await this.unpinMessage(channelId, ts).catch(() => undefined);
+      }
+    }
+
+    await this.sendThreadReply(channelId, ts, summary, 'high');
+
+    // Edits do not notify anyone, so revisions that escalate mention in the thread
+    if (activeTs && message.mentions) {
+      await this.sendMentionReply(channelId, ts, message);
+    }
+    return ts;
+  }
+
+  /**
+   * Post or update the message for an EEW event
+   *
+   * The first serial of an event is posted as a new message. Later serials
+   * (including the cancellation) edit the event's earlier message in place,
+   * and the summary of the superseded serial is added to its thread. The map
+   * image, if any, is uploaded to the thread when the event is first posted.
+   * A later serial that escalates for the first time mentions the targets in
+   * the thread.
+   *
+   * Callers serialize the serials of an event, so that a fast second serial
+   * never races the first post.
+   *
+   * Returns the timestamp of the event's message, or undefined when the
+   * serial was outdated and skipped.
+   */
+  async sendEEWMessage(
+    channelId: string,
+    eew: EEW,
+    message: SlackMessage,
+    previous?: EEWMessage,
+    image?: MessageImage
+  ): Promise<string | undefined> {
+    const serial = Number(eew.issue.serial);
+
+    if (!previous) {
+      const ts = await this.sendMessage(channelId, message.blocks, {
+        priority: 'high',
+        text: message.text,
+      });
+      await this.attachImage(channelId, ts, image);
+      return ts;
+    }
+
+    // Skip duplicates and serials that arrive after a newer one
+    if (serial < previous.serial || (serial === previous.serial && !eew.cancelled)) {
+      logger.debug('Ignoring outdated EEW serial', {
+        channel: channelId,
+        eventId: eew.issue.eventId,
+        serial,
+        latestSerial: previous.serial,
+      });
+      return undefined;
+    }
+
+    await this.updateMessage(channelId, previous.ts, message.blocks, {
+      priority: 'high',
+      text: message.text,
+    });
+    await this.sendThreadReply(channelId, previous.ts, previous.summary, 'high');
+
+    if (message.mentions !== undefined && !previous.mentioned) {
+      await this.sendMentionReply(channelId, previous.ts, message);
+    }
+
+    return previous.ts;
+  }
+
+  /**
+   * Mention the escalation targets of an edited message in its thread, also in the channel
+   */
+  private async sendMentionReply(
+    channelId: string,
+    threadTs: string,
+    message: SlackMessage
+  ): Promise<void> {
+    await this.sendMessage(
+      channelId,
+      [{ type: 'section', text: { type: 'mrkdwn', text: message.text } }],
+      { threadTs, replyBroadcast: true, priority: 'high', text: message.text }
+    );
+  }
+
+  /**
+   * Log a Slack API error with a hint for common misconfigurations
+   */
+  private handleError(message: string, error: unknown): void {
+    if (!(error instanceof Error)) {
+      return;
+    }
+
+    logger.error(message, error);
+
+    // Check for common error types
+    const hint = getSlackErrorHint(error);
+    if (hint) {
+      logger.error(hint);
+    } else if (classifySlackError(error).code === 'rate_limited') {
+      logger.warn(
+        'Rate limited by Slack API and all retries were used. Consider lowering traffic.'
+      );
+    }
+  }
 }
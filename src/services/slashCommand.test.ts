@@ -0,0 +1,139 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import { createHmac } from 'node:crypto';
+import type { JMATsunami } from 'p2pquake-client';
+import { config } from '../config/env';
+import { EventStore } from './eventStore';
+import type { P2PQuakeService } from './p2pquake';
+import { SlashCommandHandler, verifySlackSignature } from './slashCommand';
+
+const SIGNING_SECRET = 'test-signing-secret';
+
+function sign(timestamp: string, body: string): string {
+  return `v0=${createHmac('sha256', SIGNING_SECRET).update(`v0:${timestamp}:${body}`).digest('hex')}`;
+}
+
+function slashRequest(text: string, channelId: string): Request {
+  const body = new URLSearchParams({ command: '/quake', text, channel_id: channelId }).toString();
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  return new Request('http://localhost/slack/commands', {
+    method: 'POST',
+    body,
+    headers: { 'x-slack-request-timestamp': timestamp, 'x-slack-signature': sign(timestamp, body) },
+  });
+}
+
+async function run(
+  text: string,
+  channelId: string = config.routes[0].channelId,
+  store = new EventStore(':memory:')
+) {
+  const service = {
+    getStatus: () => ({ connected: true, since: new Date('2024-01-01T00:00:00Z') }),
+  } as unknown as P2PQuakeService;
+  const handler = new SlashCommandHandler(SIGNING_SECRET, store, service);
+  const response = await handler.handle(slashRequest(text, channelId));
+  return (await response.json()) as { response_type: string; text: string };
+}
+
+describe('verifySlackSignature', () => {
+  test('accepts a fresh, correctly signed request', () => {
+    const now = Date.now();
+    const timestamp = String(Math.floor(now / 1000));
+    expect(
+      verifySlackSignature(SIGNING_SECRET, timestamp, 'a=b', sign(timestamp, 'a=b'), now)
+    ).toBe(true);
+  });
+
+  test('rejects old or tampered requests', () => {
+    const now = Date.now();
+    const old = String(Math.floor(now / 1000) - 600);
+    expect(verifySlackSignature(SIGNING_SECRET, old, 'a=b', sign(old, 'a=b'), now)).toBe(false);
+
+    const timestamp = String(Math.floor(now / 1000));
+    expect(
+      verifySlackSignature(SIGNING_SECRET, timestamp, 'a=c', sign(timestamp, 'a=b'), now)
+    ).toBe(false);
+  });
+});
+
+describe('SlashCommandHandler', () => {
+  const locales = config.routes[0].locales;
+
+  afterEach(() => {
+    config.routes[0].locales = locales;
+  });
+
+  test('answers in the default locales outside the route channels', async () => {
+    const usage = await run('help', 'C_UNROUTED');
+    expect(usage.text).toContain(
+      config.locales[0] === 'en' ? 'Show the latest earthquake information' : '最新の地震情報を表示'
+    );
+  });
+
+  test("answers in the locales of the channel's route", async () => {
+    config.routes[0].locales = ['en'];
+
+    const latest = await run('latest');
+    expect(latest).toEqual({
+      response_type: 'ephemeral',
+      text: 'No earthquake information received yet',
+    });
+
+    const status = await run('status');
+    expect(status.text).toContain('*WebSocket*: connected (since ');
+    expect(status.text).toContain('*Last received*: never');
+    expect(status.text).not.toMatch(/[ぁ-んァ-ン]/);
+  });
+
+  test('renders every locale of the route', async () => {
+    config.routes[0].locales = ['ja', 'en'];
+
+    const tsunami = await run('tsunami');
+    expect(tsunami.text).toBe(
+      '現在、津波警報・注意報は発表されていません / No tsunami warnings or advisories are in effect'
+    );
+  });
+
+  describe('tsunami', () => {
+    const channelId = config.routes[0].channelId;
+
+    function tsunami(id: string, time: string): JMATsunami {
+      return {
+        id,
+        code: 552,
+        time,
+        cancelled: false,
+        issue: { source: '気象庁', time, type: 'Focus' },
+        areas: [{ grade: 'Watch', immediate: false, name: '石川県能登' }],
+      } as unknown as JMATsunami;
+    }
+
+    test('shows the bulletin pinned in the channels', async () => {
+      config.routes[0].locales = ['en'];
+      const store = new EventStore(':memory:');
+      store.record(tsunami('t1', '2024/01/01 16:14:00.000'));
+      store.record(tsunami('t2', '2024/01/01 16:30:00.000'));
+      store.setPinnedMessage(channelId, 't2', '1700000000.000100');
+
+      const response = await run('tsunami', channelId, store);
+
+      expect(response).toMatchObject({
+        response_type: 'in_channel',
+        text: 'Tsunami information in effect',
+      });
+    });
+
+    test('leaves out bulletins no longer pinned, however recent', async () => {
+      config.routes[0].locales = ['en'];
+      const store = new EventStore(':memory:');
+      store.record(tsunami('t1', '2024/01/01 16:14:00.000'));
+
+      const response = await run('tsunami', channelId, store);
+
+      expect(response).toEqual({
+        response_type: 'ephemeral',
+        text: 'No tsunami warnings or advisories are in effect',
+      });
+    });
+  });
+});
@@ -0,0 +1,237 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import type { KnownBlock } from '@slack/web-api';
+import type { JMAQuake, JMATsunami } from 'p2pquake-client';
+import { config } from '../config/env';
+import { logger } from '../utils/logger';
+import { formatQuakeMessage, formatTsunamiMessage } from '../utils/formatter';
+import type { Locale } from '../i18n';
+import { createLocalizer } from '../i18n/localizer';
+import type { Localizer } from '../i18n/localizer';
+import type { EventStore, StoredEvent } from './eventStore';
+import type { P2PQuakeService } from './p2pquake';
+
+// Requests older than this are rejected to prevent replay attacks
+const MAX_REQUEST_AGE_SECONDS = 60 * 5;
+
+interface SlashCommandResponse {
+  response_type: 'ephemeral' | 'in_channel';
+  text: string;
+  blocks?: KnownBlock[];
+}
+
+/**
+ * Verify the signature Slack attaches to requests
+ *
+ * See https://api.slack.com/authentication/verifying-requests-from-slack
+ */
+export function verifySlackSignature(
+  signingSecret: string,
+  timestamp: string | null,
+  body: string,
+  signature: string | null,
+  now: number = Date.now()
+): boolean {
+  if (!timestamp || !signature) {
+    return false;
+  }
+
+  const age = Math.abs(now / 1000 - Number(timestamp));
+  if (!Number.isFinite(age) || age > MAX_REQUEST_AGE_SECONDS) {
+    return false;
+  }
+
+  const expected = `v0=${createHmac('sha256', signingSecret)
+    .update(`v0:${timestamp}:${body}`)
+    .digest('hex')}`;
+
+  return (
+    expected.length === signature.length &&
+    timingSafeEqual(Buffer.from(expected), Buffer.from(signature))
+  );
+}
+
+/**
+ * Render a response text in each requested locale
+ *
+ * Titles are joined on one line; longer texts get a paragraph per locale.
+ */
+function localize(
+  locales: Locale[],
+  build: (l: Localizer) => string,
+  separator: string = ' / '
+): string {
+  return locales.map((locale) => build(createLocalizer(locale))).join(separator);
+}
+
+function formatTimestamp(l: Localizer, date?: Date | string): string {
+  return date ? l.dateTime(date) : l.m.slashCommand.never;
+}
+
+/**
+ * Handler for the `/quake` slash command, answered from the bot's own data
+ */
+export class SlashCommandHandler {
+  private signingSecret: string;
+  private eventStore: EventStore;
+  private p2pquakeService: P2PQuakeService;
+
+  constructor(signingSecret: string, eventStore: EventStore, p2pquakeService: P2PQuakeService) {
+    this.signingSecret = signingSecret;
+    this.eventStore = eventStore;
+    this.p2pquakeService = p2pquakeService;
+  }
+
+  /**
+   * Handle an HTTP request sent by Slack for the command
+   */
+  async handle(request: Request): Promise<Response> {
+    const body = await request.text();
+
+    if (
+      !verifySlackSignature(
+        this.signingSecret,
+        request.headers.get('x-slack-request-timestamp'),
+        body,
+        request.headers.get('x-slack-signature')
+      )
+    ) {
+      logger.warn('Rejected slash command with an invalid signature');
+      return new Response('Invalid signature', { status: 401 });
+    }
+
+    const params = new URLSearchParams(body);
+    const subcommand = (params.get('text') ?? '').trim().toLowerCase();
+
+    logger.info('Slash command received', {
+      command: params.get('command'),
+      subcommand,
+      user: params.get('user_id'),
+      channel: params.get('channel_id'),
+    });
+
+    return Response.json(this.run(subcommand, this.getLocales(params.get('channel_id'))));
+  }
+
+  /**
+   * Languages of the responses: those of the channel's route, else the default ones
+   */
+  private getLocales(channelId: string | null): Locale[] {
+    return config.routes.find((route) => route.channelId === channelId)?.locales ?? config.locales;
+  }
+
+  private run(subcommand: string, locales: Locale[]): SlashCommandResponse {
+    switch (subcommand) {
+      case 'latest':
+        return this.latest(locales);
+      case 'status':
+        return this.status(locales);
+      case 'tsunami':
+        return this.tsunami(locales);
+      default:
+        return {
+          response_type: 'ephemeral',
+          text: localize(
+            locales,
+            ({ m }) =>
+              [
+                m.slashCommand.usage,
+                `\`/quake latest\` ${m.slashCommand.latestHelp}`,
+                `\`/quake status\` ${m.slashCommand.statusHelp}`,
+                `\`/quake tsunami\` ${m.slashCommand.tsunamiHelp}`,
+              ].join('\n'),
+            '\n\n'
+          ),
+        };
+    }
+  }
+
+  /**
+   * Re-render the most recent earthquake report
+   */
+  private latest(locales: Locale[]): SlashCommandResponse {
+    const event = this.eventStore.getLatest<JMAQuake>(551);
+    if (!event) {
+      return {
+        response_type: 'ephemeral',
+        text: localize(locales, ({ m }) => m.slashCommand.noQuake),
+      };
+    }
+
+    return {
+      response_type: 'in_channel',
+      text: localize(locales, ({ m }) => m.slashCommand.latestTitle),
+      blocks: formatQuakeMessage(event.payload, { locales }),
+    };
+  }
+
+  /**
+   * Show the connection state, the last event time and the active thresholds
+   */
+  private status(locales: Locale[]): SlashCommandResponse {
+    const connection = this.p2pquakeService.getStatus();
+    const lastEvent = [551, 552, 556]
+      .map((code) => this.eventStore.getLatest(code)?.receivedAt)
+      .filter((receivedAt): receivedAt is string => receivedAt !== undefined)
+      .sort()
+      .pop();
+
+    const text = localize(
+      locales,
+      (l) => {
+        const { slashCommand } = l.m;
+        const routes = config.routes.map((route) => {
+          const conditions = [
+            slashCommand.codes(route.codes.join(', ')),
+            slashCommand.quakeThreshold(l.intensity(route.minIntensity)),
+            route.eewMinIntensity === undefined
+              ? slashCommand.eewAll
+              : slashCommand.eewThreshold(l.intensity(route.eewMinIntensity)),
+          ];
+          if (route.regions.length > 0) {
+            conditions.push(slashCommand.regions(route.regions.map(l.place).join(', ')));
+          }
+          return `• *${route.name}* (<#${route.channelId}>)\n  ${conditions.join(' / ')}`;
+        });
+
+        return [
+          slashCommand.connection(
+            connection.connected ? slashCommand.connected : slashCommand.disconnected,
+            formatTimestamp(l, connection.since)
+          ),
+          slashCommand.lastReceived(formatTimestamp(l, lastEvent)),
+          `${slashCommand.routes}\n${routes.join('\n')}`,
+        ].join('\n');
+      },
+      '\n\n'
+    );
+
+    return { response_type: 'ephemeral', text };
+  }
+
+  /**
+   * Show the tsunami warnings and advisories currently in effect
+   *
+   * Only bulletins still pinned count as in effect: cancelled and expired ones
+   * are unpinned, however recent the last stored bulletin is.
+   */
+  private tsunami(locales: Locale[]): SlashCommandResponse {
+    const event = this.eventStore
+      .getPinnedMessages()
+      .map((pinned) => this.eventStore.getEvent<JMATsunami>(pinned.eventId))
+      .filter((stored): stored is StoredEvent<JMATsunami> => stored !== undefined)
+      .sort((a, b) => a.time.localeCompare(b.time))
+      .pop();
+    if (!event || event.payload.cancelled || !event.payload.areas?.length) {
+      return {
+        response_type: 'ephemeral',
+        text: localize(locales, ({ m }) => m.slashCommand.noTsunami),
+      };
+    }
+
+    return {
+      response_type: 'in_channel',
+      text: localize(locales, ({ m }) => m.slashCommand.tsunamiTitle),
+      blocks: formatTsunamiMessage(event.payload, { locales }),
+    };
+  }
+}
@@ -0,0 +1,121 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import { RecordingSlackService } from '../test/recordingSlack';
+import { formatOpsText } from '../utils/formatter';
+import type { ConnectionStatus, P2PQuakeService } from './p2pquake';
+import { ConnectionWatchdog, getReconnectDelay } from './watchdog';
+import type { WatchdogOptions } from './watchdog';
+
+const OPS_CHANNEL = 'C0OPS000000';
+
+/**
+ * P2PQuake service whose connection state the test controls
+ *
+ * A reconnect brings the socket back up.
+ */
+function createService(status: ConnectionStatus) {
+  const service = {
+    status,
+    reconnects: 0,
+    getStatus: () => service.status,
+    reconnect: async () => {
+      service.reconnects += 1;
+      service.status = { connected: true, since: new Date() };
+    },
+  };
+  return service;
+}
+
+describe('ConnectionWatchdog', () => {
+  let watchdog: ConnectionWatchdog | undefined;
+
+  afterEach(() => {
+    watchdog?.stop();
+    watchdog = undefined;
+  });
+
+  async function supervise(
+    service: ReturnType<typeof createService>,
+    options: Partial<WatchdogOptions> = {}
+  ): Promise<RecordingSlackService> {
+    const slack = new RecordingSlackService();
+    watchdog = new ConnectionWatchdog(service as unknown as P2PQuakeService, slack, {
+      checkIntervalMs: 5,
+      stallTimeoutMs: 200,
+      reconnectBaseDelayMs: 1000,
+      reconnectMaxDelayMs: 1000,
+      alertAfterMs: 60_000,
+      opsChannelId: OPS_CHANNEL,
+      ...options,
+    });
+    watchdog.start();
+    await Bun.sleep(60);
+    return slack;
+  }
+
+  test('reconnects a connected socket that has gone silent', async () => {
+    const silentSince = new Date(Date.now() - 60_000);
+    const service = createService({
+      connected: true,
+      since: silentSince,
+      lastMessageAt: silentSince,
+    });
+
+    const slack = await supervise(service);
+
+    expect(service.reconnects).toBe(1);
+    expect(slack.calls).toEqual([]);
+  });
+
+  test('leaves a socket with recent traffic alone', async () => {
+    const service = createService({ connected: true, since: new Date(Date.now() - 60_000) });
+    service.getStatus = () => ({ ...service.status, lastMessageAt: new Date() });
+
+    await supervise(service);
+
+    expect(service.reconnects).toBe(0);
+  });
+
+  test('does not treat silence as a stall when stall detection is off', async () => {
+    const service = createService({ connected: true, since: new Date(Date.now() - 60_000) });
+
+    await supervise(service, { stallTimeoutMs: 0 });
+
+    expect(service.reconnects).toBe(0);
+  });
+
+  test('alerts the ops channel about a long outage and its recovery', async () => {
+    const service = createService({ connected: false, since: new Date(Date.now() - 120_000) });
+
+    const slack = await supervise(service);
+
+    expect(service.reconnects).toBe(1);
+    expect(slack.calls.map((call) => [call.channel, call.text])).toEqual([
+      [OPS_CHANNEL, formatOpsText('outage')],
+      [OPS_CHANNEL, formatOpsText('recovery')],
+    ]);
+  });
+
+  test('backs off between failed reconnect attempts', async () => {
+    const service = createService({ connected: false, since: new Date() });
+    service.reconnect = async () => {
+      service.reconnects += 1;
+      throw new Error('ECONNREFUSED');
+    };
+
+    const slack = await supervise(service, { reconnectBaseDelayMs: 30, reconnectMaxDelayMs: 30 });
+
+    // Attempts at 0 ms and after 15-30 ms, then every 15-30 ms at most
+    expect(service.reconnects).toBeGreaterThanOrEqual(2);
+    expect(service.reconnects).toBeLessThanOrEqual(5);
+    expect(slack.calls).toEqual([]);
+  });
+});
+
+describe('getReconnectDelay', () => {
+  test('doubles the delay up to the maximum, with jitter down to half', () => {
+    expect(getReconnectDelay(0, 1000, 300_000, () => 1)).toBe(1000);
+    expect(getReconnectDelay(3, 1000, 300_000, () => 1)).toBe(8000);
+    expect(getReconnectDelay(3, 1000, 300_000, () => 0)).toBe(4000);
+    expect(getReconnectDelay(20, 1000, 300_000, () => 1)).toBe(300_000);
+  });
+});
@@ -0,0 +1,183 @@
+import { logger } from '../utils/logger';
+import { formatOpsText, formatOutageAlert, formatRecoveryMessage } from '../utils/formatter';
+import type { P2PQuakeService } from './p2pquake';
+import type { SlackMessage, SlackService } from './slack';
+
+export interface WatchdogOptions {
+  // How often the connection state is checked
+  checkIntervalMs: number;
+  // Reconnect when nothing was received for this long while connected (0 disables)
+  stallTimeoutMs: number;
+  reconnectBaseDelayMs: number;
+  reconnectMaxDelayMs: number;
+  // Alert the ops channel once an outage lasts this long
+  alertAfterMs: number;
+  opsChannelId?: string;
+}
+
+/**
+ * Delay before a reconnect attempt: exponential backoff with jitter
+ *
+ * The delay is drawn between half and all of the capped backoff, so that many
+ * clients do not reconnect in lockstep after a server restart.
+ */
+export function getReconnectDelay(
+  attempt: number,
+  baseDelayMs: number,
+  maxDelayMs: number,
+  random: () => number = Math.random
+): number {
+  const backoff = Math.min(baseDelayMs * 2 ** attempt, maxDelayMs);
+  return Math.round(backoff / 2 + (random() * backoff) / 2);
+}
+
+/**
+ * Supervisor that keeps the P2PQuake WebSocket alive
+ *
+ * Detects disconnects and stalled sockets (no traffic for too long), reconnects
+ * with backoff, and tells the ops channel when an outage lasts too long and
+ * when it is over.
+ */
+export class ConnectionWatchdog {
+  private p2pquakeService: P2PQuakeService;
+  private slackService: SlackService;
+  private options: WatchdogOptions;
+  private timer?: ReturnType<typeof setInterval>;
+  private checking = false;
+  private outageStartedAt?: Date;
+  private alerted = false;
+  private attempt = 0;
+  private nextAttemptAt = 0;
+
+  constructor(
+    p2pquakeService: P2PQuakeService,
+    slackService: SlackService,
+    options: WatchdogOptions
+  ) {
+    this.p2pquakeService = p2pquakeService;
+    this.slackService = slackService;
+    this.options = options;
+  }
+
+  start(): void {
+    this.timer = setInterval(() => void this.check(), this.options.checkIntervalMs);
+  }
+
+  stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  private async check(): Promise<void> {
+    // Skip the tick while a reconnect or a Slack post is still in progress
+    if (this.checking) {
+      return;
+    }
+    this.checking = true;
+
+    try {
+      await this.supervise(Date.now());
+    } catch (error) {
+      if (error instanceof Error) {
+        logger.error('Connection watchdog check failed', error);
+      }
+    } finally {
+      this.checking = false;
+    }
+  }
+
+  private async supervise(now: number): Promise<void> {
+    const status = this.p2pquakeService.getStatus();
+
+    if (status.connected) {
+      const lastActivity = Math.max(
+        status.since?.getTime() ?? 0,
+        status.lastMessageAt?.getTime() ?? 0
+      );
+
+      if (this.options.stallTimeoutMs > 0 && now - lastActivity > this.options.stallTimeoutMs) {
+        logger.warn('No traffic from P2PQuake WebSocket, treating the connection as stalled', {
+          silentForSeconds: Math.round((now - lastActivity) / 1000),
+        });
+        this.outageStartedAt ??= new Date(now);
+        await this.reconnect(now);
+        return;
+      }
+
+      if (this.outageStartedAt) {
+        await this.recover(this.outageStartedAt, new Date(now));
+      }
+      return;
+    }
+
+    this.outageStartedAt ??= status.since ?? new Date(now);
+
+    if (!this.alerted && now - this.outageStartedAt.getTime() >= this.options.alertAfterMs) {
+      this.alerted = true;
+      await this.notify('P2PQuake outage alert', {
+        blocks: formatOutageAlert(this.outageStartedAt, new Date(now)),
+        text: formatOpsText('outage'),
+      });
+    }
+
+    if (now >= this.nextAttemptAt) {
+      await this.reconnect(now);
+    }
+  }
+
+  private async reconnect(now: number): Promise<void> {
+    const delay = getReconnectDelay(
+      this.attempt,
+      this.options.reconnectBaseDelayMs,
+      this.options.reconnectMaxDelayMs
+    );
+    this.attempt += 1;
+    this.nextAttemptAt = now + delay;
+
+    try {
+      await this.p2pquakeService.reconnect();
+    } catch {
+      logger.warn('Reconnect attempt failed', {
+        attempt: this.attempt,
+        nextAttemptInMs: delay,
+      });
+    }
+  }
+
+  private async recover(startedAt: Date, recoveredAt: Date): Promise<void> {
+    const outageSeconds = Math.round((recoveredAt.getTime() - startedAt.getTime()) / 1000);
+    logger.info('P2PQuake connection recovered', { outageSeconds, attempts: this.attempt });
+
+    if (this.alerted) {
+      await this.notify('P2PQuake recovery message', {
+        blocks: formatRecoveryMessage(startedAt, recoveredAt),
+        text: formatOpsText('recovery'),
+      });
+    }
+
+    this.outageStartedAt = undefined;
+    this.alerted = false;
+    this.attempt = 0;
+    this.nextAttemptAt = 0;
+  }
+
+  /**
+   * Post to the ops channel, or only log when none is configured
+   */
+  private async notify(label: string, message: SlackMessage): Promise<void> {
+    if (!this.options.opsChannelId) {
+      logger.warn(`${label} not posted, OPS_CHANNEL_ID is not set`);
+      return;
+    }
+
+    logger.info(`Posting ${label}`, { channel: this.options.opsChannelId });
+    try {
+      await this.slackService.sendMessage(this.options.opsChannelId, message.blocks, {
+        priority: 'high',
+        text: message.text,
+      });
+    } catch {
+      // Already logged by SlackService
+    }
+  }
+}
@@ -0,0 +1,205 @@
+import type { Messages } from '../i18n';
+import type { TemplateSchema } from './engine';
+
+/**
+ * Values available to every template, rendered in the message's language
+ *
+ * Texts are ready to use in mrkdwn; values that are unknown are empty strings,
+ * so that `{{#if name}}` hides them.
+ */
+export interface BaseTemplateContext {
+  locale: string;
+  // The event was missed by the WebSocket and is delivered late
+  late: boolean;
+  lateNotice: string;
+  issuedAt: string;
+  jmaLink: string;
+  imageUrl: string;
+  labels: Messages['labels'];
+}
+
+export interface RegionContext {
+  region: string;
+  intensity: string;
+  location: string;
+}
+
+export interface SiteContext {
+  name: string;
+  // Phrases as shown in the built-in message, e.g. "about 5-" and "42 km from hypocenter"
+  intensity: string;
+  distance: string;
+  arrival: string;
+  // Time left until the S-wave (EEW only)
+  remaining: string;
+  // Every phrase above on one line
+  text: string;
+}
+
+export interface QuakeTemplateContext extends BaseTemplateContext {
+  title: string;
+  body: string;
+  maxIntensity: string;
+  originTime: string;
+  hypocenter: string;
+  magnitude: string;
+  depth: string;
+  tsunami: string;
+  regionsTitle: string;
+  regions: RegionContext[];
+  sitesTitle: string;
+  sitesDisclaimer: string;
+  sites: SiteContext[];
+  pointsByIntensity: { intensity: string; places: string; count: number }[];
+}
+
+export interface TsunamiTemplateContext extends BaseTemplateContext {
+  title: string;
+  body: string;
+  cancelled: boolean;
+  cancelledText: string;
+  changesTitle: string;
+  // Changes since the previous active bulletin, one line per kind of change
+  changes: string[];
+  // Areas grouped by grade, most severe first
+  grades: {
+    grade: string;
+    code: string;
+    count: number;
+    areas: {
+      name: string;
+      firstWave: string;
+      maxHeight: string;
+      immediate: boolean;
+      text: string;
+    }[];
+  }[];
+}
+
+export interface EEWTemplateContext extends BaseTemplateContext {
+  title: string;
+  alert: string;
+  cancelled: boolean;
+  test: boolean;
+  // Predicted intensity 5- or higher
+  warning: boolean;
+  serial: string;
+  issueLabel: string;
+  originTime: string;
+  hypocenter: string;
+  magnitude: string;
+  depth: string;
+  maxPredictedIntensity: string;
+  regionsTitle: string;
+  regions: RegionContext[];
+  sitesTitle: string;
+  sitesDisclaimer: string;
+  sites: SiteContext[];
+  areasTitle: string;
+  areas: { name: string; intensity: string; arrivalTime: string }[];
+  // Number of areas beyond the first 15, as text ("" when every area is listed)
+  moreAreas: string;
+}
+
+const labels = {
+  fields: {
+    originTime: 'value',
+    hypocenter: 'value',
+    magnitude: 'value',
+    depth: 'value',
+    tsunami: 'value',
+    maxIntensity: 'value',
+    maxPredictedIntensity: 'value',
+  },
+} as const;
+
+const base = {
+  locale: 'value',
+  late: 'value',
+  lateNotice: 'value',
+  issuedAt: 'value',
+  jmaLink: 'value',
+  imageUrl: 'value',
+  labels,
+} as const;
+
+const regions = { items: { region: 'value', intensity: 'value', location: 'value' } } as const;
+
+const sites = {
+  items: {
+    name: 'value',
+    intensity: 'value',
+    distance: 'value',
+    arrival: 'value',
+    remaining: 'value',
+    text: 'value',
+  },
+} as const;
+
+export const quakeSchema: TemplateSchema<QuakeTemplateContext> = {
+  ...base,
+  title: 'value',
+  body: 'value',
+  maxIntensity: 'value',
+  originTime: 'value',
+  hypocenter: 'value',
+  magnitude: 'value',
+  depth: 'value',
+  tsunami: 'value',
+  regionsTitle: 'value',
+  regions,
+  sitesTitle: 'value',
+  sitesDisclaimer: 'value',
+  sites,
+  pointsByIntensity: { items: { intensity: 'value', places: 'value', count: 'value' } },
+};
+
+export const tsunamiSchema: TemplateSchema<TsunamiTemplateContext> = {
+  ...base,
+  title: 'value',
+  body: 'value',
+  cancelled: 'value',
+  cancelledText: 'value',
+  changesTitle: 'value',
+  changes: 'list',
+  grades: {
+    items: {
+      grade: 'value',
+      code: 'value',
+      count: 'value',
+      areas: {
+        items: {
+          name: 'value',
+          firstWave: 'value',
+          maxHeight: 'value',
+          immediate: 'value',
+          text: 'value',
+        },
+      },
+    },
+  },
+};
+
+export const eewSchema: TemplateSchema<EEWTemplateContext> = {
+  ...base,
+  title: 'value',
+  alert: 'value',
+  cancelled: 'value',
+  test: 'value',
+  warning: 'value',
+  serial: 'value',
+  issueLabel: 'value',
+  originTime: 'value',
+  hypocenter: 'value',
+  magnitude: 'value',
+  depth: 'value',
+  maxPredictedIntensity: 'value',
+  regionsTitle: 'value',
+  regions,
+  sitesTitle: 'value',
+  sitesDisclaimer: 'value',
+  sites,
+  areasTitle: 'value',
+  areas: { items: { name: 'value', intensity: 'value', arrivalTime: 'value' } },
+  moreAreas: 'value',
+};
@@ -0,0 +1,93 @@
+import { describe, expect, test } from 'bun:test';
+import { compileTemplate, renderTemplate, TemplateError } from './engine';
+import type { Schema } from './engine';
+
+const schema: Schema = {
+  title: 'value',
+  late: 'value',
+  tags: 'list',
+  hypocenter: { fields: { name: 'value', depth: 'value' } },
+  areas: { items: { name: 'value', intensity: 'value' } },
+};
+
+const context = {
+  title: '震源・震度情報',
+  late: false,
+  tags: ['M4.8', '10km'],
+  hypocenter: { name: '石川県能登地方', depth: 10 },
+  areas: [
+    { name: '輪島市', intensity: '5弱' },
+    { name: '珠洲市', intensity: '4' },
+  ],
+};
+
+function render(blocks: unknown[]): unknown[] {
+  return renderTemplate(compileTemplate('test', JSON.stringify(blocks), schema), context);
+}
+
+function section(text: string) {
+  return { type: 'section', text: { type: 'mrkdwn', text } };
+}
+
+describe('renderTemplate', () => {
+  test('substitutes values and nested fields', () => {
+    expect(render([section('*{{title}}* {{hypocenter.name}} ({{hypocenter.depth}}km)')])).toEqual([
+      section('*震源・震度情報* 石川県能登地方 (10km)'),
+    ]);
+  });
+
+  test('renders conditional and repeated text', () => {
+    expect(
+      render([
+        section(
+          '{{#if late}}late{{else}}live{{/if}}{{#unless late}}!{{/unless}} {{#each tags}}[{{this}}]{{/each}}'
+        ),
+      ])
+    ).toEqual([section('live! [M4.8][10km]')]);
+  });
+
+  test('repeats whole blocks with standalone tags', () => {
+    expect(
+      render([
+        '{{#each areas}}',
+        section('{{@index}}. {{name}}: {{intensity}} ({{title}})'),
+        '{{/each}}',
+        '{{#if late}}',
+        { type: 'divider' },
+        '{{/if}}',
+      ])
+    ).toEqual([
+      section('0. 輪島市: 5弱 (震源・震度情報)'),
+      section('1. 珠洲市: 4 (震源・震度情報)'),
+    ]);
+  });
+});
+
+describe('compileTemplate', () => {
+  const compile = (blocks: unknown) => () =>
+    compileTemplate('test', JSON.stringify(blocks), schema);
+
+  test('rejects templates that are not arrays of blocks', () => {
+    expect(() => compileTemplate('test', '{', schema)).toThrow(TemplateError);
+    expect(compile({ type: 'section' })).toThrow('must be a JSON array');
+    expect(compile(['text'])).toThrow('every top-level item must be a block');
+  });
+
+  test('rejects unknown variables and misused lists', () => {
+    expect(compile([section('{{magnitude}}')])).toThrow(
+      'Template "test" at [0].text.text: unknown variable "magnitude"'
+    );
+    expect(compile([section('{{hypocenter.latitude}}')])).toThrow(
+      'unknown variable "hypocenter.latitude"'
+    );
+    expect(compile([section('{{areas}}')])).toThrow('use {{#each areas}}');
+    expect(compile([section('{{#each title}}{{/each}}')])).toThrow('"title" is not a list');
+    expect(compile([section('{{this}}')])).toThrow('{{this}} is only available');
+  });
+
+  test('rejects unbalanced sections', () => {
+    expect(compile([section('{{#if late}}')])).toThrow('missing {{/if}}');
+    expect(compile([section('{{/each}}')])).toThrow('unexpected {{/each}}');
+    expect(compile([section('{{else}}')])).toThrow('unexpected {{else}}');
+  });
+});
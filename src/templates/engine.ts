@@ -0,0 +1,449 @@
+/**
+ * Shape of the values a template may reference
+ *
+ * `value` is a scalar, `list` a list of scalars, `items` a list of objects and
+ * `fields` a nested object.
+ */
+export type SchemaNode = 'value' | 'list' | { items: Schema } | { fields: Schema };
+export type Schema = { [name: string]: SchemaNode };
+
+/**
+ * Schema matching the keys of a context type, so that both stay in sync
+ */
+export type TemplateSchema<T> = {
+  [K in keyof T]-?: NonNullable<T[K]> extends (infer U)[]
+    ? U extends object
+      ? { items: TemplateSchema<U> }
+      : 'list'
+    : NonNullable<T[K]> extends object
+      ? { fields: TemplateSchema<NonNullable<T[K]>> }
+      : 'value';
+};
+
+/**
+ * Invalid template, with the template name and where the problem is
+ */
+export class TemplateError extends Error {
+  constructor(template: string, location: string, detail: string) {
+    super(`Template "${template}"${location ? ` at ${location}` : ''}: ${detail}`);
+    this.name = 'TemplateError';
+  }
+}
+
+// A variable bound to the scope it is read from: `depth` scopes up from the innermost one
+interface Binding {
+  depth: number;
+  path: string[];
+}
+
+interface IfSection<T> {
+  kind: 'if';
+  binding: Binding;
+  negate: boolean;
+  then: T[];
+  otherwise: T[];
+}
+
+interface EachSection<T> {
+  kind: 'each';
+  binding: Binding;
+  body: T[];
+}
+
+// Nodes of a string or an array, possibly nested in sections
+type Sectioned<T> = T | IfSection<Sectioned<T>> | EachSection<Sectioned<T>>;
+type Section<T> = IfSection<T> | EachSection<T>;
+
+type TextNode = Sectioned<
+  | { kind: 'text'; value: string }
+  | { kind: 'var'; binding: Binding }
+  | { kind: 'index'; depth: number }
+>;
+
+type ValueNode =
+  | { kind: 'literal'; value: unknown }
+  | { kind: 'string'; parts: TextNode[] }
+  | { kind: 'object'; entries: [string, ValueNode][] }
+  | { kind: 'array'; items: ItemNode[] };
+
+type ItemNode = Sectioned<ValueNode>;
+
+/**
+ * Template compiled against its schema, ready to render
+ */
+export interface CompiledTemplate {
+  name: string;
+  root: ItemNode[];
+}
+
+// Scope of an `{{#each}}` body (or the root context): its schema, or `value` for scalar items
+type ScopeSchema = Schema | 'value';
+
+type SectionTag =
+  | { kind: 'open'; section: 'if' | 'unless' | 'each'; path: string }
+  | { kind: 'else' }
+  | { kind: 'close'; section: 'if' | 'unless' | 'each' };
+type Tag = SectionTag | { kind: 'var'; path: string };
+
+const TAG_PATTERN = /\{\{\s*(.*?)\s*\}\}/g;
+const PATH_PATTERN = /^(this|@index|[A-Za-z_]\w*(\.[A-Za-z_]\w*)*)$/;
+
+/**
+ * Compile a template: a JSON array of Block Kit blocks whose strings may use
+ * `{{name}}`, `{{#if name}}...{{else}}...{{/if}}`, `{{#unless name}}...{{/unless}}`
+ * and `{{#each list}}...{{/each}}`
+ *
+ * An array item that is nothing but an opening, `{{else}}` or closing tag
+ * repeats or hides the items up to its closing tag, so that whole blocks can
+ * be conditional or repeated.
+ */
+export function compileTemplate(name: string, source: string, schema: Schema): CompiledTemplate {
+  let json: unknown;
+  try {
+    json = JSON.parse(source);
+  } catch (error) {
+    throw new TemplateError(name, '', `invalid JSON (${(error as Error).message})`);
+  }
+
+  if (!Array.isArray(json)) {
+    throw new TemplateError(name, '', 'must be a JSON array of Block Kit blocks');
+  }
+
+  const compiler = new Compiler(name);
+  const root = compiler.compileItems(json, '', [schema]);
+
+  // Top-level items must be blocks, also inside sections
+  const checkBlocks = (items: ItemNode[]): void => {
+    items.forEach((item) => {
+      if (item.kind === 'if') {
+        checkBlocks(item.then);
+        checkBlocks(item.otherwise);
+      } else if (item.kind === 'each') {
+        checkBlocks(item.body);
+      } else if (item.kind !== 'object' || !item.entries.some(([key]) => key === 'type')) {
+        throw new TemplateError(name, '', 'every top-level item must be a block with a "type"');
+      }
+    });
+  };
+  checkBlocks(root);
+
+  return { name, root };
+}
+
+class Compiler {
+  private name: string;
+
+  constructor(name: string) {
+    this.name = name;
+  }
+
+  compileItems(items: unknown[], location: string, scopes: ScopeSchema[]): ItemNode[] {
+    const tokens = items.map((item, index) => {
+      const itemLocation = `${location}[${index}]`;
+      const tag =
+        typeof item === 'string' ? this.parseStandaloneTag(item, itemLocation) : undefined;
+      return { tag, item, location: itemLocation };
+    });
+
+    return this.buildSections(
+      tokens,
+      location,
+      scopes,
+      (token, innerScopes) => this.compileValue(token.item, token.location, innerScopes),
+      (token) => token.tag
+    );
+  }
+
+  private compileValue(value: unknown, location: string, scopes: ScopeSchema[]): ValueNode {
+    if (typeof value === 'string') {
+      return { kind: 'string', parts: this.compileText(value, location, scopes) };
+    }
+
+    if (Array.isArray(value)) {
+      return { kind: 'array', items: this.compileItems(value, location, scopes) };
+    }
+
+    if (value !== null && typeof value === 'object') {
+      return {
+        kind: 'object',
+        entries: Object.entries(value).map(([key, entry]) => [
+          key,
+          this.compileValue(entry, `${location}.${key}`, scopes),
+        ]),
+      };
+    }
+
+    return { kind: 'literal', value };
+  }
+
+  private compileText(text: string, location: string, scopes: ScopeSchema[]): TextNode[] {
+    const tokens: { tag?: Tag; text?: string }[] = [];
+    let last = 0;
+
+    for (const match of text.matchAll(TAG_PATTERN)) {
+      if (match.index > last) {
+        tokens.push({ text: text.slice(last, match.index) });
+      }
+      tokens.push({ tag: this.parseTag(match[1], location) });
+      last = match.index + match[0].length;
+    }
+    if (last < text.length) {
+      tokens.push({ text: text.slice(last) });
+    }
+
+    return this.buildSections(
+      tokens,
+      location,
+      scopes,
+      (token, innerScopes): TextNode => {
+        if (token.text !== undefined) {
+          return { kind: 'text', value: token.text };
+        }
+        const path = (token.tag as { path: string }).path;
+        if (path === '@index') {
+          if (innerScopes.length === 1) {
+            throw this.error(location, '{{@index}} is only available in {{#each}}');
+          }
+          return { kind: 'index', depth: 0 };
+        }
+        const binding = this.bind(path, location, innerScopes);
+        if (this.resolve(binding, innerScopes) !== 'value') {
+          throw this.error(location, `"${path}" is not a single value; use {{#each ${path}}}`);
+        }
+        return { kind: 'var', binding };
+      },
+      (token) => (token.tag?.kind === 'var' ? undefined : token.tag)
+    );
+  }
+
+  /**
+   * Nest the tokens of a string or an array into `{{#if}}` / `{{#each}}` sections
+   */
+  private buildSections<Token, Node>(
+    tokens: Token[],
+    location: string,
+    scopes: ScopeSchema[],
+    leaf: (token: Token, scopes: ScopeSchema[]) => Node,
+    tagOf: (token: Token) => SectionTag | undefined
+  ): Sectioned<Node>[] {
+    let position = 0;
+
+    const parse = (
+      innerScopes: ScopeSchema[],
+      closing?: 'if' | 'unless' | 'each'
+    ): { nodes: Sectioned<Node>[]; otherwise?: Sectioned<Node>[] } => {
+      const nodes: Sectioned<Node>[] = [];
+      let otherwise: Sectioned<Node>[] | undefined;
+      let current = nodes;
+
+      while (position < tokens.length) {
+        const token = tokens[position++];
+        const tag = tagOf(token);
+
+        if (!tag) {
+          current.push(leaf(token, innerScopes));
+        } else if (tag.kind === 'open') {
+          const binding = this.bind(tag.path, location, innerScopes);
+          const node = this.resolve(binding, innerScopes);
+
+          if (tag.section === 'each') {
+            if (node !== 'list' && !(typeof node === 'object' && 'items' in node)) {
+              throw this.error(location, `"${tag.path}" is not a list`);
+            }
+            const itemScope = node === 'list' ? 'value' : node.items;
+            const body = parse([...innerScopes, itemScope], 'each');
+            if (body.otherwise) {
+              throw this.error(location, '{{else}} is not supported in {{#each}}');
+            }
+            current.push({ kind: 'each', binding, body: body.nodes });
+          } else {
+            const section = parse(innerScopes, tag.section);
+            current.push({
+              kind: 'if',
+              binding,
+              negate: tag.section === 'unless',
+              then: section.nodes,
+              otherwise: section.otherwise ?? [],
+            });
+          }
+        } else if (tag.kind === 'else') {
+          if (!closing || otherwise) {
+            throw this.error(location, 'unexpected {{else}}');
+          }
+          otherwise = [];
+          current = otherwise;
+        } else {
+          if (tag.section !== closing) {
+            throw this.error(location, `unexpected {{/${tag.section}}}`);
+          }
+          return { nodes, otherwise };
+        }
+      }
+
+      if (closing) {
+        throw this.error(location, `missing {{/${closing}}}`);
+      }
+      return { nodes, otherwise };
+    };
+
+    return parse(scopes).nodes;
+  }
+
+  /**
+   * Tag of an array item made of a single section tag, which applies to whole items
+   */
+  private parseStandaloneTag(item: string, location: string): SectionTag | undefined {
+    const match = /^\s*\{\{\s*(.*?)\s*\}\}\s*$/.exec(item);
+    if (!match) {
+      return undefined;
+    }
+
+    const tag = this.parseTag(match[1], location);
+    return tag.kind === 'var' ? undefined : tag;
+  }
+
+  private parseTag(content: string, location: string): Tag {
+    const open = /^#(if|unless|each)\s+(\S+)$/.exec(content);
+    const close = /^\/(if|unless|each)$/.exec(content);
+    const path = open ? open[2] : content;
+
+    if (!close && content !== 'else' && !PATH_PATTERN.test(path)) {
+      throw this.error(location, `invalid tag {{${content}}}`);
+    }
+
+    if (open) {
+      return { kind: 'open', section: open[1] as 'if' | 'unless' | 'each', path };
+    }
+    if (close) {
+      return { kind: 'close', section: close[1] as 'if' | 'unless' | 'each' };
+    }
+    return content === 'else' ? { kind: 'else' } : { kind: 'var', path };
+  }
+
+  /**
+   * Find the scope a variable is read from: the innermost one that defines its first name
+   */
+  private bind(path: string, location: string, scopes: ScopeSchema[]): Binding {
+    if (path === 'this') {
+      if (scopes.length === 1 || scopes[scopes.length - 1] !== 'value') {
+        throw this.error(location, '{{this}} is only available in {{#each}} over a list of values');
+      }
+      return { depth: 0, path: [] };
+    }
+
+    const [first, ...rest] = path.split('.');
+    for (let depth = 0; depth < scopes.length; depth++) {
+      const scope = scopes[scopes.length - 1 - depth];
+      if (scope !== 'value' && Object.hasOwn(scope, first)) {
+        const binding = { depth, path: [first, ...rest] };
+        this.resolve(binding, scopes, location);
+        return binding;
+      }
+    }
+
+    throw this.error(location, `unknown variable "${first}"`);
+  }
+
+  private resolve(binding: Binding, scopes: ScopeSchema[], location = ''): SchemaNode {
+    let node: SchemaNode = 'value';
+    let schema: ScopeSchema = scopes[scopes.length - 1 - binding.depth];
+
+    binding.path.forEach((name, index) => {
+      if (schema === 'value' || !Object.hasOwn(schema, name)) {
+        throw this.error(
+          location,
+          `unknown variable "${binding.path.slice(0, index + 1).join('.')}"`
+        );
+      }
+      node = schema[name];
+      schema = typeof node === 'object' && 'fields' in node ? node.fields : 'value';
+    });
+
+    return node;
+  }
+
+  private error(location: string, detail: string): TemplateError {
+    return new TemplateError(this.name, location, detail);
+  }
+}
+
+interface Scope {
+  value: unknown;
+  index?: number;
+}
+
+function lookup(binding: Binding, scopes: Scope[]): unknown {
+  return binding.path.reduce<unknown>(
+    (value, name) =>
+      value !== null && typeof value === 'object'
+        ? (value as Record<string, unknown>)[name]
+        : undefined,
+    scopes[scopes.length - 1 - binding.depth].value
+  );
+}
+
+function isTruthy(value: unknown): boolean {
+  return Array.isArray(value) ? value.length > 0 : Boolean(value);
+}
+
+function renderSection<T, R>(
+  section: Section<T>,
+  scopes: Scope[],
+  render: (nodes: T[], scopes: Scope[]) => R[]
+): R[] {
+  const value = lookup(section.binding, scopes);
+
+  if (section.kind === 'if') {
+    return render(isTruthy(value) !== section.negate ? section.then : section.otherwise, scopes);
+  }
+
+  const items = Array.isArray(value) ? value : [];
+  return items.flatMap((item, index) => render(section.body, [...scopes, { value: item, index }]));
+}
+
+function renderText(nodes: TextNode[], scopes: Scope[]): string[] {
+  return nodes.flatMap((node) => {
+    switch (node.kind) {
+      case 'text':
+        return [node.value];
+      case 'var': {
+        const value = lookup(node.binding, scopes);
+        return [value === undefined || value === null ? '' : String(value)];
+      }
+      case 'index':
+        return [String(scopes[scopes.length - 1 - node.depth].index ?? 0)];
+      default:
+        return renderSection(node, scopes, renderText);
+    }
+  });
+}
+
+function renderValue(node: ValueNode, scopes: Scope[]): unknown {
+  switch (node.kind) {
+    case 'literal':
+      return node.value;
+    case 'string':
+      return renderText(node.parts, scopes).join('');
+    case 'object':
+      return Object.fromEntries(
+        node.entries.map(([key, value]) => [key, renderValue(value, scopes)])
+      );
+    case 'array':
+      return renderItems(node.items, scopes);
+  }
+}
+
+function renderItems(nodes: ItemNode[], scopes: Scope[]): unknown[] {
+  return nodes.flatMap((node) =>
+    node.kind === 'if' || node.kind === 'each'
+      ? renderSection(node, scopes, renderItems)
+      : [renderValue(node, scopes)]
+  );
+}
+
+/**
+ * Render a compiled template with a context matching its schema
+ */
+export function renderTemplate(template: CompiledTemplate, context: object): unknown[] {
+  return renderItems(template.root, [{ value: context }]);
+}
@@ -0,0 +1,112 @@
+import { existsSync, readdirSync, readFileSync, statSync } from 'node:fs';
+import { join } from 'node:path';
+import { config } from '../config/env';
+import { logger } from '../utils/logger';
+import { compileTemplate, TemplateError } from './engine';
+import type { CompiledTemplate, Schema } from './engine';
+import { eewSchema, quakeSchema, tsunamiSchema } from './context';
+
+export { renderTemplate, TemplateError } from './engine';
+export type { CompiledTemplate } from './engine';
+export type {
+  BaseTemplateContext,
+  EEWTemplateContext,
+  QuakeTemplateContext,
+  RegionContext,
+  SiteContext,
+  TsunamiTemplateContext,
+} from './context';
+
+export type TemplateName = 'quake' | 'tsunami' | 'eew';
+
+/**
+ * User templates by event type; missing ones fall back to the built-in formatters
+ */
+export type MessageTemplates = Partial<Record<TemplateName, CompiledTemplate>>;
+
+const SCHEMAS: Record<TemplateName, Schema> = {
+  quake: quakeSchema,
+  tsunami: tsunamiSchema,
+  eew: eewSchema,
+};
+
+/**
+ * Load and validate the templates of a directory: `quake.json`, `tsunami.json` and `eew.json`
+ */
+export function loadTemplates(dir: string): MessageTemplates {
+  if (!existsSync(dir) || !statSync(dir).isDirectory()) {
+    throw new Error(`Template directory not found: ${dir}`);
+  }
+
+  const unknown = readdirSync(dir).filter(
+    (file) => file.endsWith('.json') && !(file.slice(0, -5) in SCHEMAS)
+  );
+  if (unknown.length > 0) {
+    throw new Error(
+      `Unknown template files in ${dir}: ${unknown.join(', ')} (expected quake.json, tsunami.json or eew.json)`
+    );
+  }
+
+  const templates: MessageTemplates = {};
+  (Object.keys(SCHEMAS) as TemplateName[]).forEach((name) => {
+    const path = join(dir, `${name}.json`);
+    if (existsSync(path)) {
+      templates[name] = compileTemplate(name, readFileSync(path, 'utf8'), SCHEMAS[name]);
+    }
+  });
+
+  return templates;
+}
+
+/**
+ * Load the templates of TEMPLATE_DIR
+ */
+function loadConfiguredTemplates(): Readonly<MessageTemplates> {
+  if (!config.templateDir) {
+    return {};
+  }
+
+  const templates = loadTemplates(config.templateDir);
+  logger.info('Loaded message templates', {
+    dir: config.templateDir,
+    templates: Object.keys(templates),
+  });
+  return Object.freeze(templates);
+}
+
+function reportTemplateError(error: unknown): void {
+  console.error(
+    error instanceof TemplateError
+      ? `Template validation failed: ${error.message}`
+      : `Template error: ${(error as Error).message}`
+  );
+}
+
+/**
+ * Load the templates at startup, exiting on the first invalid one
+ */
+function loadStartupTemplates(): Readonly<MessageTemplates> {
+  try {
+    return loadConfiguredTemplates();
+  } catch (error) {
+    reportTemplateError(error);
+    console.error('\nPlease fix the template or unset TEMPLATE_DIR.\n');
+
+    process.exit(1);
+  }
+}
+
+export let templates = loadStartupTemplates();
+
+/**
+ * Re-read the templates of TEMPLATE_DIR, keeping the previous ones if one is invalid
+ */
+export function reloadTemplates(): boolean {
+  try {
+    templates = loadConfiguredTemplates();
+    return true;
+  } catch (error) {
+    reportTemplateError(error);
+    return false;
+  }
+}
@@ -0,0 +1,52 @@
+import type { EEW, SeismicIntensity } from 'p2pquake-client';
+
+type EEWArea = NonNullable<EEW['areas']>[number];
+
+/**
+ * EEW forecast area in 石川県能登, predicting intensities from scaleFrom to scaleTo
+ *
+ * scaleTo 99 marks an "or higher" forecast.
+ */
+export function createEEWArea(scaleFrom: SeismicIntensity, scaleTo: SeismicIntensity): EEWArea {
+  return {
+    pref: '石川県',
+    name: '石川県能登',
+    scaleFrom,
+    scaleTo,
+    kindCode: '19',
+    arrivalTime: '2024/01/01 16:10:12',
+  };
+}
+
+/**
+ * EEW (code 556) shaped like the P2PQuake API payload
+ *
+ * Serials of the same event are issued a second apart, each with the one forecast area given by
+ * `createEEWArea(45, 45)` unless the fields override it.
+ */
+export function createEEW(serial = 1, fields: Partial<EEW> = {}): EEW {
+  const time = `2024/01/01 16:10:${10 + serial}.000`;
+  return {
+    id: `eew-${serial}`,
+    code: 556,
+    time,
+    test: false,
+    earthquake: {
+      originTime: '2024/01/01 16:10:05',
+      arrivalTime: '2024/01/01 16:10:10',
+      condition: '',
+      hypocenter: {
+        name: '石川県能登地方',
+        reduceName: '石川県',
+        latitude: 37.5,
+        longitude: 137.2,
+        depth: 10,
+        magnitude: 5.2,
+      },
+    },
+    issue: { time, eventId: '20240101161005', serial: String(serial) },
+    cancelled: false,
+    areas: [createEEWArea(45, 45)],
+    ...fields,
+  };
+}
@@ -0,0 +1,95 @@
+import { ErrorCode } from '@slack/web-api';
+import type { KnownBlock } from '@slack/web-api';
+import { SlackService } from '../services/slack';
+import type { MessageImage, SendMessageOptions } from '../services/slack';
+
+/**
+ * Slack API call made through a RecordingSlackService
+ */
+export interface RecordedCall {
+  action: 'post' | 'update' | 'reply' | 'pin' | 'unpin' | 'upload';
+  channel: string;
+  ts: string;
+  threadTs?: string;
+  text?: string;
+  blocks?: KnownBlock[];
+}
+
+/**
+ * Slack platform error, shaped like the ones the Web API client throws
+ */
+function platformError(error: string): Error {
+  return Object.assign(new Error(`An API error occurred: ${error}`), {
+    code: ErrorCode.PlatformError,
+    data: { ok: false, error },
+  });
+}
+
+/**
+ * Slack service recording its API calls instead of making them
+ *
+ * Channels listed in `failingChannels` reject every call with a transient
+ * error, those in `missingChannels` with `channel_not_found`.
+ */
+export class RecordingSlackService extends SlackService {
+  calls: RecordedCall[] = [];
+  failingChannels = new Set<string>();
+  missingChannels = new Set<string>();
+  private sequence = 0;
+
+  constructor() {
+    super('');
+  }
+
+  private record(call: RecordedCall): void {
+    if (this.failingChannels.has(call.channel)) {
+      throw platformError('service_unavailable');
+    }
+    if (this.missingChannels.has(call.channel)) {
+      throw platformError('channel_not_found');
+    }
+    this.calls.push(call);
+  }
+
+  override async sendMessage(
+    channelId: string,
+    blocks: KnownBlock[],
+    options: SendMessageOptions = {}
+  ): Promise<string> {
+    this.sequence += 1;
+    const ts = `1700000000.${String(this.sequence).padStart(6, '0')}`;
+    this.record({
+      action: 'post',
+      channel: channelId,
+      ts,
+      threadTs: options.threadTs,
+      text: options.text,
+      blocks,
+    });
+    return ts;
+  }
+
+  override async updateMessage(channelId: string, ts: string): Promise<void> {
+    this.record({ action: 'update', channel: channelId, ts });
+  }
+
+  override async sendThreadReply(channelId: string, threadTs: string, text: string): Promise<void> {
+    this.record({ action: 'reply', channel: channelId, ts: threadTs, threadTs, text });
+  }
+
+  override async pinMessage(channelId: string, ts: string): Promise<void> {
+    this.record({ action: 'pin', channel: channelId, ts });
+  }
+
+  override async unpinMessage(channelId: string, ts: string): Promise<void> {
+    this.record({ action: 'unpin', channel: channelId, ts });
+  }
+
+  override async uploadImage(
+    channelId: string,
+    threadTs: string,
+    image: MessageImage
+  ): Promise<void> {
+    this.record({ action: 'upload', channel: channelId, ts: threadTs, text: image.title });
+  }
+}
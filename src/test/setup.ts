@@ -0,0 +1,6 @@
+// Tests run without Slack credentials: validate the configuration as a dry run
+// (bun test sets NODE_ENV=test, which the configuration does not accept)
+process.env.NODE_ENV = 'development';
+process.env.DRY_RUN = 'true';
+process.env.SLACK_CHANNEL_ID = 'C0123456789';
+process.env.EVENT_STORE_PATH = ':memory:';
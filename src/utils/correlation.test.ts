@@ -0,0 +1,89 @@
+import { describe, expect, test } from 'bun:test';
+import type { EEW, JMAQuake } from 'p2pquake-client';
+import type { DeliveredEvent } from '../services/eventStore';
+import { createEEW } from '../test/eew';
+import { findEEWMessage, matchesEEW } from './correlation';
+
+const tolerance = { timeSeconds: 60, distanceKm: 50 };
+
+const quake = {
+  id: 'quake',
+  code: 551,
+  time: '2024/01/01 16:13:00.000',
+  earthquake: {
+    time: '2024/01/01 16:10:00',
+    hypocenter: {
+      name: '石川県能登地方',
+      latitude: 37.5,
+      longitude: 137.2,
+      depth: 10,
+      magnitude: 7.6,
+    },
+    maxScale: 70,
+  },
+} as unknown as JMAQuake;
+
+function delivered(
+  ts: string,
+  eventId: string,
+  serial: number,
+  fields: Partial<EEW> = {}
+): DeliveredEvent<EEW> {
+  const payload = createEEW(serial, {
+    id: `${eventId}-${serial}`,
+    issue: { time: '2024/01/01 16:10:12.000', eventId, serial: String(serial) },
+    ...fields,
+  });
+  return {
+    ts,
+    event: { id: payload.id, code: 556, time: payload.time, receivedAt: '', payload },
+  };
+}
+
+const noto = {
+  originTime: '2024/01/01 16:10:05',
+  hypocenter: { name: '石川県能登地方', latitude: 37.5, longitude: 137.2 },
+};
+
+describe('matchesEEW', () => {
+  test('matches the same hypocenter within the time tolerance', () => {
+    expect(matchesEEW(quake, { originTime: noto.originTime, ...noto.hypocenter }, tolerance)).toBe(
+      true
+    );
+  });
+
+  test('rejects origin times too far apart', () => {
+    expect(
+      matchesEEW(quake, { originTime: '2024/01/01 16:20:00', ...noto.hypocenter }, tolerance)
+    ).toBe(false);
+  });
+});
+
+describe('findEEWMessage', () => {
+  test('finds the message of the matching EEW event', () => {
+    const deliveries = [
+      delivered('1.1', 'noto', 1),
+      delivered('2.1', 'other', 1, {
+        earthquake: { ...createEEW().earthquake, originTime: '2024/01/01 15:00:00' },
+      }),
+    ];
+    expect(findEEWMessage(quake, deliveries, tolerance)).toBe('1.1');
+  });
+
+  test('keeps the origin of a cancelled event', () => {
+    const deliveries = [
+      delivered('1.1', 'noto', 1),
+      delivered('1.1', 'noto', 2, { cancelled: true, earthquake: undefined }),
+    ];
+    expect(findEEWMessage(quake, deliveries, tolerance)).toBe('1.1');
+  });
+
+  test('prefers the most recent matching event', () => {
+    const deliveries = [delivered('1.1', 'first', 1), delivered('2.1', 'second', 1)];
+    expect(findEEWMessage(quake, deliveries, tolerance)).toBe('2.1');
+  });
+
+  test('finds nothing without deliveries', () => {
+    expect(findEEWMessage(quake, [], tolerance)).toBeUndefined();
+  });
+});
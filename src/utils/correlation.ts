@@ -0,0 +1,117 @@
+import type { JMAQuake, EEW } from 'p2pquake-client';
+import type { DeliveredEvent } from '../services/eventStore';
+import { distanceKm, isValidCoordinate } from './geo';
+import { parseEventTime } from './time';
+
+/**
+ * Origin of an EEW event, kept to correlate later earthquake reports
+ */
+export interface EEWOrigin {
+  originTime?: string;
+  name?: string;
+  latitude?: number;
+  longitude?: number;
+}
+
+export interface CorrelationTolerance {
+  timeSeconds: number;
+  distanceKm: number;
+}
+
+/**
+ * Extract the origin of an EEW event
+ */
+export function getEEWOrigin(eew: EEW): EEWOrigin {
+  return {
+    originTime: eew.earthquake?.originTime,
+    name: eew.earthquake?.hypocenter?.name,
+    latitude: eew.earthquake?.hypocenter?.latitude,
+    longitude: eew.earthquake?.hypocenter?.longitude,
+  };
+}
+
+/**
+ * Check whether an earthquake report (551) describes the same quake as an EEW (556)
+ *
+ * The origin times must agree within the tolerance. The hypocenter must then
+ * either have the same name or lie within the distance tolerance. Reports
+ * without hypocenter information (e.g. seismic intensity prompt reports) are
+ * matched on origin time alone.
+ */
+export function matchesEEW(
+  quake: JMAQuake,
+  origin: EEWOrigin,
+  tolerance: CorrelationTolerance
+): boolean {
+  if (!origin.originTime) {
+    return false;
+  }
+
+  const quakeTime = parseEventTime(quake.earthquake.time);
+  const eewTime = parseEventTime(origin.originTime);
+  if (Number.isNaN(quakeTime) || Number.isNaN(eewTime)) {
+    return false;
+  }
+
+  if (Math.abs(quakeTime - eewTime) > tolerance.timeSeconds * 1000) {
+    return false;
+  }
+
+  const hypocenter = quake.earthquake.hypocenter;
+  const hasName = Boolean(hypocenter?.name);
+  const hasCoordinates = isValidCoordinate(hypocenter?.latitude, hypocenter?.longitude);
+
+  if (!hasName && !hasCoordinates) {
+    return true;
+  }
+
+  if (hasName && hypocenter?.name === origin.name) {
+    return true;
+  }
+
+  if (
+    hasCoordinates &&
+    hypocenter &&
+    origin.latitude !== undefined &&
+    origin.longitude !== undefined &&
+    isValidCoordinate(origin.latitude, origin.longitude)
+  ) {
+    const distance = distanceKm(
+      hypocenter.latitude,
+      hypocenter.longitude,
+      origin.latitude,
+      origin.longitude
+    );
+    return distance <= tolerance.distanceKm;
+  }
+
+  return false;
+}
+
+/**
+ * Find the message of the most recent EEW event matching an earthquake report
+ *
+ * `deliveries` are the EEW serials delivered to a channel, oldest first. The
+ * origin of each event comes from its latest serial with a hypocenter, as
+ * cancellations carry none.
+ */
+export function findEEWMessage(
+  quake: JMAQuake,
+  deliveries: DeliveredEvent<EEW>[],
+  tolerance: CorrelationTolerance
+): string | undefined {
+  const messages = new Map<string, { ts: string; origin: EEWOrigin }>();
+  deliveries.forEach(({ ts, event }) => {
+    const eventId = event.payload.issue.eventId;
+    const message = messages.get(eventId);
+    // Map keeps insertion order, so move the event after the ones delivered before
+    messages.delete(eventId);
+    messages.set(eventId, {
+      ts,
+      origin: message && event.payload.cancelled ? message.origin : getEEWOrigin(event.payload),
+    });
+  });
+
+  return [...messages.values()].reverse().find(({ origin }) => matchesEEW(quake, origin, tolerance))
+    ?.ts;
+}
@@ -0,0 +1,59 @@
+import { describe, expect, test } from 'bun:test';
+import { getPreviousCronRun, matchesCron, parseCron } from './cron';
+
+describe('parseCron', () => {
+  test('expands values, ranges, lists and steps', () => {
+    const schedule = parseCron('0,30 0-23/6 1-3 * 1-5');
+    expect([...schedule.minutes]).toEqual([0, 30]);
+    expect([...schedule.hours]).toEqual([0, 6, 12, 18]);
+    expect([...schedule.daysOfMonth]).toEqual([1, 2, 3]);
+    expect(schedule.months.size).toBe(12);
+    expect([...schedule.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  test('accepts shorthands and 7 for Sunday', () => {
+    expect([...parseCron('@weekly').daysOfWeek]).toEqual([0]);
+    expect([...parseCron('0 0 * * 7').daysOfWeek]).toEqual([0]);
+  });
+
+  test('rejects malformed expressions', () => {
+    expect(() => parseCron('0 9 * *')).toThrow('must have 5 fields');
+    expect(() => parseCron('60 * * * *')).toThrow('Invalid cron minute field: 60 (allowed 0-59)');
+    expect(() => parseCron('0 9 * * mon')).toThrow('Invalid cron day-of-week field');
+    expect(() => parseCron('0 */0 * * *')).toThrow('Invalid cron hour field');
+  });
+});
+
+describe('matchesCron', () => {
+  test('matches the minute of a date in local time', () => {
+    const schedule = parseCron('0 9 * * 1-5');
+    // 2024-01-01 is a Monday, 2024-01-06 a Saturday
+    expect(matchesCron(schedule, new Date(2024, 0, 1, 9, 0, 45))).toBe(true);
+    expect(matchesCron(schedule, new Date(2024, 0, 1, 9, 1))).toBe(false);
+    expect(matchesCron(schedule, new Date(2024, 0, 6, 9, 0))).toBe(false);
+  });
+
+  test('matches either day field when both are restricted', () => {
+    const schedule = parseCron('0 0 1 * 0');
+    expect(matchesCron(schedule, new Date(2024, 1, 1))).toBe(true);
+    expect(matchesCron(schedule, new Date(2024, 0, 7))).toBe(true);
+    expect(matchesCron(schedule, new Date(2024, 0, 8))).toBe(false);
+  });
+});
+
+describe('getPreviousCronRun', () => {
+  const schedule = parseCron('0 9 * * *');
+
+  test('finds the last run strictly before the minute', () => {
+    expect(getPreviousCronRun(schedule, new Date(2024, 0, 2, 9, 1))).toEqual(
+      new Date(2024, 0, 2, 9, 0)
+    );
+    expect(getPreviousCronRun(schedule, new Date(2024, 0, 2, 9, 0, 30))).toEqual(
+      new Date(2024, 0, 1, 9, 0)
+    );
+  });
+
+  test('gives up on schedules that never fire', () => {
+    expect(getPreviousCronRun(parseCron('0 0 31 2 *'), new Date(2024, 0, 1))).toBeUndefined();
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Parsed cron expression: the allowed values of each field
+ */
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // Standard cron matches either day field when both are restricted
+  anyDay: boolean;
+}
+
+const SHORTHANDS: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+};
+
+// Minutes searched backwards for the previous run (a little over a year)
+const MAX_LOOKBACK_MINUTES = 367 * 24 * 60;
+
+function parseField(field: string, min: number, max: number, name: string): Set<number> {
+  const values = new Set<number>();
+
+  field.split(',').forEach((part) => {
+    const match = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+    if (!match) {
+      throw new Error(`Invalid cron ${name} field: ${field}`);
+    }
+
+    const [, range, start, end, step] = match;
+    const from = range === '*' ? min : Number(start);
+    const to = range === '*' ? max : end !== undefined ? Number(end) : step ? max : from;
+    const increment = step ? Number(step) : 1;
+
+    if (from < min || to > max || from > to || increment < 1) {
+      throw new Error(`Invalid cron ${name} field: ${field} (allowed ${min}-${max})`);
+    }
+    for (let value = from; value <= to; value += increment) {
+      values.add(value);
+    }
+  });
+
+  return values;
+}
+
+/**
+ * Parse a five-field cron expression (minute hour day-of-month month day-of-week)
+ *
+ * Fields accept `*`, values, ranges, lists and steps (e.g. `0 9 * * 1-5`,
+ * `0 0-23/6 * * *`). `@hourly`, `@daily`, `@weekly` and `@monthly` are also
+ * accepted. Day of week 0 and 7 are both Sunday.
+ */
+export function parseCron(expression: string): CronSchedule {
+  const fields = (SHORTHANDS[expression.trim()] ?? expression).trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Cron expression must have 5 fields: ${expression}`);
+  }
+
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = fields;
+  const daysOfWeek = parseField(dayOfWeek, 0, 7, 'day-of-week');
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes: parseField(minute, 0, 59, 'minute'),
+    hours: parseField(hour, 0, 23, 'hour'),
+    daysOfMonth: parseField(dayOfMonth, 1, 31, 'day-of-month'),
+    months: parseField(month, 1, 12, 'month'),
+    daysOfWeek,
+    anyDay: dayOfMonth !== '*' && dayOfWeek !== '*',
+  };
+}
+
+/**
+ * Check whether a schedule fires in the minute of a date (local time)
+ */
+export function matchesCron(schedule: CronSchedule, date: Date): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(date.getDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getDay());
+
+  return (
+    schedule.minutes.has(date.getMinutes()) &&
+    schedule.hours.has(date.getHours()) &&
+    schedule.months.has(date.getMonth() + 1) &&
+    (schedule.anyDay ? dayOfMonth || dayOfWeek : dayOfMonth && dayOfWeek)
+  );
+}
+
+/**
+ * Find the last minute before `before` (exclusive, rounded down to the minute) that the schedule fires
+ */
+export function getPreviousCronRun(schedule: CronSchedule, before: Date): Date | undefined {
+  const date = new Date(before);
+  date.setSeconds(0, 0);
+
+  for (let i = 0; i < MAX_LOOKBACK_MINUTES; i++) {
+    date.setMinutes(date.getMinutes() - 1);
+    if (matchesCron(schedule, date)) {
+      return date;
+    }
+  }
+
+  return undefined;
+}
@@ -0,0 +1,53 @@
+import { describe, expect, test } from 'bun:test';
+import type { EEW, SeismicIntensity } from 'p2pquake-client';
+import { createEEW, createEEWArea } from '../test/eew';
+import { eewOverridesQuietHours, getLatestDigestSlot, isQuietTime } from './digest';
+
+function eew(intensity: SeismicIntensity, cancelled = false): EEW {
+  return createEEW(1, { areas: [createEEWArea(intensity, intensity)], cancelled });
+}
+
+describe('eewOverridesQuietHours', () => {
+  test('overrides with forecasts reaching the override intensity', () => {
+    expect(eewOverridesQuietHours(eew(55), 55)).toBe(true);
+  });
+
+  test('keeps weaker forecasts quiet', () => {
+    expect(eewOverridesQuietHours(eew(50), 55)).toBe(false);
+  });
+
+  test('keeps cancellations quiet', () => {
+    expect(eewOverridesQuietHours(eew(60, true), 55)).toBe(false);
+  });
+});
+
+describe('isQuietTime', () => {
+  const at = (hours: number, minutes = 0) => new Date(2024, 0, 1, hours, minutes);
+
+  test('checks windows within a day', () => {
+    const windows = [{ start: 9 * 60, end: 17 * 60 }];
+    expect(isQuietTime(windows, at(12))).toBe(true);
+    expect(isQuietTime(windows, at(17))).toBe(false);
+  });
+
+  test('checks windows spanning midnight', () => {
+    const windows = [{ start: 22 * 60, end: 7 * 60 }];
+    expect(isQuietTime(windows, at(23, 30))).toBe(true);
+    expect(isQuietTime(windows, at(6, 59))).toBe(true);
+    expect(isQuietTime(windows, at(7))).toBe(false);
+  });
+});
+
+describe('getLatestDigestSlot', () => {
+  test('rounds down to the interval', () => {
+    expect(getLatestDigestSlot(new Date(2024, 0, 1, 7, 30), 6, [])).toEqual(
+      new Date(2024, 0, 1, 6, 0)
+    );
+  });
+
+  test('uses the last time of yesterday before the first time of the day', () => {
+    expect(getLatestDigestSlot(new Date(2024, 0, 2, 7, 0), 6, [8 * 60, 20 * 60])).toEqual(
+      new Date(2024, 0, 1, 20, 0)
+    );
+  });
+});
@@ -0,0 +1,67 @@
+import type { JMAQuake, JMATsunami, EEW, SeismicIntensity } from 'p2pquake-client';
+import type { TimeWindow } from '../config/env';
+import { getMaxPredictedIntensity, shouldNotify } from './intensity';
+
+const MINUTES_PER_DAY = 24 * 60;
+
+function getMinuteOfDay(date: Date): number {
+  return date.getHours() * 60 + date.getMinutes();
+}
+
+/**
+ * Check whether a time falls in one of the quiet-hours windows (local time)
+ */
+export function isQuietTime(windows: TimeWindow[], date: Date): boolean {
+  const minute = getMinuteOfDay(date);
+
+  return windows.some(({ start, end }) =>
+    start <= end ? minute >= start && minute < end : minute >= start || minute < end
+  );
+}
+
+/**
+ * Earthquake information strong enough to be posted during quiet hours
+ */
+export function quakeOverridesQuietHours(quake: JMAQuake, minIntensity: SeismicIntensity): boolean {
+  return shouldNotify(quake.earthquake.maxScale, minIntensity);
+}
+
+/**
+ * EEW strong enough to be posted during quiet hours
+ */
+export function eewOverridesQuietHours(eew: EEW, minIntensity: SeismicIntensity): boolean {
+  return !eew.cancelled && shouldNotify(getMaxPredictedIntensity(eew), minIntensity);
+}
+
+/**
+ * Tsunami bulletin severe enough to be posted during quiet hours
+ */
+export function tsunamiOverridesQuietHours(tsunami: JMATsunami, grades: string[]): boolean {
+  return !tsunami.cancelled && (tsunami.areas ?? []).some((area) => grades.includes(area.grade));
+}
+
+/**
+ * Get the most recent scheduled digest time at or before a time
+ *
+ * Digests are posted at the given times of day, or every `intervalHours`
+ * counted from midnight when no times are given.
+ */
+export function getLatestDigestSlot(now: Date, intervalHours: number, times: number[]): Date {
+  const minute = getMinuteOfDay(now);
+  const midnight = new Date(now);
+  midnight.setHours(0, 0, 0, 0);
+
+  let slot: number;
+  if (times.length > 0) {
+    const today = times.filter((time) => time <= minute);
+    // Before the first time of the day, the last one of yesterday applies
+    slot = today.length > 0 ? today[today.length - 1] : times[times.length - 1] - MINUTES_PER_DAY;
+  } else {
+    const interval = Math.round(intervalHours * 60);
+    slot = Math.floor(minute / interval) * interval;
+  }
+
+  const date = new Date(midnight);
+  date.setMinutes(slot);
+  return date;
+}
@@ -0,0 +1,47 @@
+import { describe, expect, test } from 'bun:test';
+import type { EEW, SeismicIntensity } from 'p2pquake-client';
+import type { EscalationPolicy } from '../config/env';
+import { createEEW, createEEWArea } from '../test/eew';
+import { getMentions, withMentions } from './escalation';
+
+const policy: EscalationPolicy = {
+  name: 'strong-eew',
+  event: 'eew',
+  minIntensity: 55,
+  mentions: ['@channel', 'S0123456789'],
+};
+
+function eew(intensity: SeismicIntensity, fields: Partial<EEW> = {}): EEW {
+  return createEEW(1, { areas: [createEEWArea(intensity, intensity)], ...fields });
+}
+
+describe('getMentions', () => {
+  test('mentions for forecasts reaching the policy intensity', () => {
+    expect(getMentions([policy], 'C0123456789', { event: 'eew', eew: eew(55) })).toBe(
+      '<!channel> <!subteam^S0123456789>'
+    );
+  });
+
+  test('skips forecasts below the policy intensity', () => {
+    expect(getMentions([policy], 'C0123456789', { event: 'eew', eew: eew(50) })).toBeUndefined();
+  });
+
+  test('skips cancelled and test EEWs', () => {
+    const target = (fields: Partial<EEW>) => ({ event: 'eew' as const, eew: eew(60, fields) });
+    expect(getMentions([policy], 'C0123456789', target({ cancelled: true }))).toBeUndefined();
+    expect(getMentions([policy], 'C0123456789', target({ test: true }))).toBeUndefined();
+  });
+
+  test('limits policies to their channels', () => {
+    const limited = { ...policy, channels: ['C9999999999'] };
+    expect(getMentions([limited], 'C0123456789', { event: 'eew', eew: eew(60) })).toBeUndefined();
+  });
+});
+
+describe('withMentions', () => {
+  test('prepends the mentions to the blocks and the text', () => {
+    const message = withMentions({ blocks: [{ type: 'divider' }], text: 'EEW' }, '<!here>');
+    expect(message.text).toBe('<!here> EEW');
+    expect(message.blocks).toHaveLength(2);
+  });
+});
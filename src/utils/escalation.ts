@@ -0,0 +1,90 @@
+import type { KnownBlock } from '@slack/web-api';
+import type { JMAQuake, JMATsunami, EEW } from 'p2pquake-client';
+import type { EscalationPolicy } from '../config/env';
+import type { SlackMessage } from '../services/slack';
+import { getMaxPredictedIntensity, shouldNotify } from './intensity';
+
+// Slack rejects messages with more blocks than this
+const MAX_BLOCKS = 50;
+
+/**
+ * Event kinds with the values escalation policies are evaluated against
+ */
+export type EscalationEvent =
+  | { event: 'quake'; quake: JMAQuake }
+  | { event: 'eew'; eew: EEW }
+  | { event: 'tsunami'; tsunami: JMATsunami };
+
+function matchesPolicy(policy: EscalationPolicy, target: EscalationEvent): boolean {
+  switch (target.event) {
+    case 'quake':
+      return (
+        policy.minIntensity === undefined ||
+        shouldNotify(target.quake.earthquake.maxScale, policy.minIntensity)
+      );
+    case 'eew':
+      return (
+        !target.eew.cancelled &&
+        !target.eew.test &&
+        (policy.minIntensity === undefined ||
+          shouldNotify(getMaxPredictedIntensity(target.eew), policy.minIntensity))
+      );
+    case 'tsunami':
+      return (
+        !target.tsunami.cancelled &&
+        (target.tsunami.areas ?? []).some(
+          (area) => policy.grades === undefined || policy.grades.includes(area.grade)
+        )
+      );
+  }
+}
+
+/**
+ * Render a mention target in Slack's message syntax
+ */
+function renderMention(mention: string): string {
+  if (mention === '@here' || mention === '@channel') {
+    return `<!${mention.slice(1)}>`;
+  }
+
+  return mention.startsWith('S') ? `<!subteam^${mention}>` : `<@${mention}>`;
+}
+
+/**
+ * Collect the mentions of every policy that applies to an event in a channel
+ *
+ * Returns the rendered mentions, or undefined when no policy applies.
+ */
+export function getMentions(
+  policies: EscalationPolicy[],
+  channelId: string,
+  target: EscalationEvent
+): string | undefined {
+  const mentions = policies
+    .filter((policy) => policy.event === target.event)
+    .filter((policy) => !policy.channels || policy.channels.includes(channelId))
+    .filter((policy) => matchesPolicy(policy, target))
+    .flatMap((policy) => policy.mentions);
+
+  if (mentions.length === 0) {
+    return undefined;
+  }
+
+  return [...new Set(mentions)].map(renderMention).join(' ');
+}
+
+/**
+ * Prepend the mentions to a message, both in its blocks and its notification text
+ */
+export function withMentions(message: SlackMessage, mentions: string | undefined): SlackMessage {
+  if (!mentions) {
+    return message;
+  }
+
+  const section: KnownBlock = { type: 'section', text: { type: 'mrkdwn', text: mentions } };
+  return {
+    blocks: [section, ...message.blocks].slice(0, MAX_BLOCKS),
+    text: `${mentions} ${message.text}`,
+    mentions,
+  };
+}
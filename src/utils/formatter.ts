@@ -1,24 +1,226 @@
 import type { JMAQuake, JMATsunami, EEW, SeismicIntensity } from 'p2pquake-client';
 import type { KnownBlock } from '@slack/web-api';
-import { intensityToString } from './intensity';
+import { getMaxPredictedIntensity } from './intensity';
+import type { RegionMatch } from './region';
+import type { UserquakeAlert } from './userquake';
+import type { ActivityReport } from './report';
+import { estimateSites, getEEWHypocenter, getQuakeHypocenter } from './siteEstimate';
+import type { Hypocenter } from './siteEstimate';
+import { diffTsunamiAreas, groupTsunamiAreas } from './tsunami';
+import type { TsunamiAreaChange } from './tsunami';
+import type { EEWDetection, Areapeers } from '../services/p2pquake';
 import { config } from '../config/env';
+import { getMessages } from '../i18n';
+import type { Locale } from '../i18n';
+import { createLocalizer } from '../i18n/localizer';
+import type { Localizer } from '../i18n/localizer';
+import { renderTemplate, templates } from '../templates';
+import type {
+  BaseTemplateContext,
+  CompiledTemplate,
+  EEWTemplateContext,
+  QuakeTemplateContext,
+  RegionContext,
+  SiteContext,
+  TsunamiTemplateContext,
+} from '../templates';
+
+// Slack rejects messages with more blocks than this
+const MAX_BLOCKS = 50;
+
+// Slack rejects section texts longer than 3000 characters
+const MAX_SECTION_TEXT = 2900;
+
+export interface FormatOptions {
+  // Watched regions that triggered the notification for the destination channel
+  regions?: RegionMatch[];
+  // The event was missed by the WebSocket and is delivered late
+  late?: boolean;
+  // Languages of the message, in order; more than one posts a bilingual message
+  locales?: Locale[];
+  // Previous active tsunami bulletin, compared with the new one
+  previousTsunami?: JMATsunami;
+}
+
+/**
+ * Render a message in each requested locale, separated by dividers
+ */
+function localize(
+  locales: Locale[] | undefined,
+  build: (l: Localizer) => KnownBlock[]
+): KnownBlock[] {
+  const sections = (locales ?? config.locales).map((locale) => build(createLocalizer(locale)));
+  const blocks = sections.flatMap((section, index) =>
+    index === 0 ? section : [{ type: 'divider' } as KnownBlock, ...section]
+  );
+  return blocks.slice(0, MAX_BLOCKS);
+}
+
+/**
+ * Render a push notification text in each requested locale
+ */
+function localizeText(locales: Locale[], build: (l: Localizer) => string): string {
+  return locales.map((locale) => build(createLocalizer(locale))).join(' / ');
+}
+
+// Images shown next to the built-in messages, served from GITHUB_IMAGE_BASE_URL
+export const MESSAGE_IMAGES = [
+  'rotating_light.png',
+  'ocean.png',
+  'warning.png',
+  'mega.png',
+  'no.png',
+];
 
 /**
  * Get image URL from GitHub
  */
-function getImageUrl(filename: string): string {
+export function getImageUrl(filename: string): string {
   const baseUrl = config.githubImageBaseUrl.endsWith('/')
     ? config.githubImageBaseUrl.slice(0, -1)
     : config.githubImageBaseUrl;
   return `${baseUrl}/${filename}`;
 }
 
+/**
+ * Render a user template for one locale
+ */
+function renderBlocks(template: CompiledTemplate, context: object): KnownBlock[] {
+  return renderTemplate(template, context) as KnownBlock[];
+}
+
+function getRegionContexts(l: Localizer, regions: RegionMatch[]): RegionContext[] {
+  return regions.map((match) => ({
+    region: l.place(match.region),
+    intensity: l.intensity(match.intensity),
+    location: l.place(match.location),
+  }));
+}
+
+/**
+ * Build the section listing the watched regions that triggered a notification
+ */
+function formatRegionSection(l: Localizer, label: string, regions: RegionMatch[]): KnownBlock {
+  const lines = getRegionContexts(l, regions).map(
+    (match) => `*${match.region}*: ${match.intensity}${l.m.parenthesize(match.location)}`
+  );
+
+  return {
+    type: 'section',
+    text: {
+      type: 'mrkdwn',
+      text: `*${label}*\n${lines.join('\n')}`,
+    },
+  };
+}
+
+/**
+ * Estimated shaking at the configured sites
+ *
+ * The countdown to the S-wave is only given for EEWs, while it is still useful.
+ */
+function getSiteContexts(l: Localizer, hypocenter: Hypocenter, countdown: boolean): SiteContext[] {
+  const now = Date.now();
+  return estimateSites(config.sites, hypocenter).map((estimate) => {
+    const parts = {
+      intensity: l.m.sites.intensity(l.intensity(estimate.intensity)),
+      distance: l.m.sites.distance(Math.round(estimate.distanceKm)),
+      arrival: l.m.sites.arrival(
+        l.m.timeWithSeconds(estimate.pArrival),
+        l.m.timeWithSeconds(estimate.sArrival)
+      ),
+      remaining: '',
+    };
+    if (countdown) {
+      const seconds = Math.ceil((estimate.sArrival.getTime() - now) / 1000);
+      parts.remaining = seconds > 0 ? l.m.sites.remaining(seconds) : l.m.sites.arrived;
+    }
+
+    return {
+      name: estimate.site.name,
+      ...parts,
+      text: Object.values(parts)
+        .filter((part) => part.length > 0)
+        .join(' | '),
+    };
+  });
+}
+
+/**
+ * Build the section with the estimated shaking at the configured sites
+ */
+function formatSiteSection(l: Localizer, hypocenter: Hypocenter, countdown: boolean): KnownBlock[] {
+  const lines = getSiteContexts(l, hypocenter, countdown).map(
+    (site) => `*${site.name}*: ${site.text}`
+  );
+
+  return [
+    {
+      type: 'section',
+      text: {
+        type: 'mrkdwn',
+        text: `*${l.m.sites.title}*\n${lines.join('\n')}`,
+      },
+    },
+    {
+      type: 'context',
+      elements: [{ type: 'mrkdwn', text: l.m.sites.disclaimer }],
+    },
+  ];
+}
+
+/**
+ * Build the notice shown on events delivered after they were published
+ */
+function formatLateNotice(l: Localizer, time: string): KnownBlock {
+  return {
+    type: 'context',
+    elements: [
+      {
+        type: 'mrkdwn',
+        text: l.m.late(l.dateTime(time)),
+      },
+    ],
+  };
+}
+
+/**
+ * Build the footer with the issue time and a link to the JMA website
+ */
+function formatFooter(l: Localizer, time: string, prefix?: string): KnownBlock {
+  const issuedAt = l.m.footer.issuedAt(l.dateTime(time));
+
+  return {
+    type: 'context',
+    elements: [
+      {
+        type: 'mrkdwn',
+        text: `${prefix ? `${prefix} | ` : ''}${issuedAt}\n${l.m.footer.jmaLink}`,
+      },
+    ],
+  };
+}
+
 /**
  * Format JMA earthquake information into Slack Block Kit format
  */
-export function formatQuakeMessage(quake: JMAQuake): KnownBlock[] {
+export function formatQuakeMessage(quake: JMAQuake, options: FormatOptions = {}): KnownBlock[] {
+  const template = templates.quake;
+  return localize(options.locales, (l) =>
+    template
+      ? renderBlocks(template, buildQuakeContext(l, quake, options))
+      : buildQuakeMessage(l, quake, options)
+  );
+}
+
+function buildQuakeMessage(l: Localizer, quake: JMAQuake, options: FormatOptions): KnownBlock[] {
+  const { m } = l;
   const blocks: KnownBlock[] = [];
 
+  if (options.late) {
+    blocks.push(formatLateNotice(l, quake.time));
+  }
+
   // Get max intensity
   const maxIntensity = quake.earthquake.maxScale;
 
@@ -27,12 +229,12 @@ export function formatQuakeMessage(quake: JMAQuake): KnownBlock[] {
     type: 'section',
     text: {
       type: 'mrkdwn',
-      text: `*地震情報*\n地震が発生しました\n今後の情報に注意してください`,
+      text: `*${m.quake.title}*\n${m.quake.body}`,
     },
     accessory: {
       type: 'image',
       image_url: getImageUrl('rotating_light.png'),
-      alt_text: '地震情報',
+      alt_text: m.quake.title,
     },
   });
 
@@ -45,35 +247,46 @@ export function formatQuakeMessage(quake: JMAQuake): KnownBlock[] {
     type: 'section',
     text: {
       type: 'mrkdwn',
-      text: `*最大震度*\n${intensityToString(maxIntensity)}`,
+      text: `*${m.labels.maxIntensity}*\n${l.intensity(maxIntensity)}`,
     },
   });
 
+  // Watched regions that triggered this notification
+  if (options.regions && options.regions.length > 0) {
+    blocks.push(formatRegionSection(l, m.quake.watchedRegions, options.regions));
+  }
+
+  // Estimated shaking at the configured sites
+  const hypocenter = getQuakeHypocenter(quake);
+  if (config.sites.length > 0 && hypocenter) {
+    blocks.push(...formatSiteSection(l, hypocenter, false));
+  }
+
   // Main earthquake information - grouped in pairs
   const earthquakeInfo: string[] = [];
 
-  earthquakeInfo.push(`*発生時刻*\n${formatDateTime(quake.earthquake.time)}`);
+  earthquakeInfo.push(`*${m.labels.originTime}*\n${l.dateTime(quake.earthquake.time)}`);
 
   if (quake.earthquake.hypocenter?.name) {
-    earthquakeInfo.push(`*震源地*\n${quake.earthquake.hypocenter.name}`);
+    earthquakeInfo.push(`*${m.labels.hypocenter}*\n${l.place(quake.earthquake.hypocenter.name)}`);
   }
 
   if (quake.earthquake.hypocenter?.magnitude !== undefined) {
     const magnitude = quake.earthquake.hypocenter.magnitude;
     earthquakeInfo.push(
-      `*マグニチュード*\n${magnitude >= 0 ? `M${magnitude.toFixed(1)}` : '不明'}`
+      `*${m.labels.magnitude}*\n${magnitude >= 0 ? `M${magnitude.toFixed(1)}` : m.unknown}`
     );
   }
 
   if (quake.earthquake.hypocenter?.depth !== undefined) {
     const depth = quake.earthquake.hypocenter.depth;
-    earthquakeInfo.push(`*深さ*\n${depth >= 0 ? `約${depth}km` : '不明'}`);
+    earthquakeInfo.push(`*${m.labels.depth}*\n${depth >= 0 ? m.depth(depth) : m.unknown}`);
   }
 
   // Tsunami information
   if (quake.earthquake.domesticTsunami) {
-    const tsunamiText = getTsunamiText(quake.earthquake.domesticTsunami);
-    earthquakeInfo.push(`*津波*\n${tsunamiText}`);
+    const tsunamiText = getTsunamiText(l, quake.earthquake.domesticTsunami);
+    earthquakeInfo.push(`*${m.labels.tsunami}*\n${tsunamiText}`);
   }
 
   // Create sections with 2 fields each
@@ -95,39 +308,12 @@ export function formatQuakeMessage(quake: JMAQuake): KnownBlock[] {
       type: 'divider',
     });
 
-    // Group by intensity
-    const grouped = new Map<SeismicIntensity, string[]>();
-
-    quake.points.forEach((point) => {
-      const locations = grouped.get(point.scale) || [];
-      locations.push(point.addr);
-      grouped.set(point.scale, locations);
-    });
-
-    // Sort by intensity (descending)
-    const sortedIntensities = Array.from(grouped.keys()).sort((a, b) => b - a);
-
-    const maxDisplay = 10;
-
-    // Create a section for each intensity
-    sortedIntensities.forEach((intensity) => {
-      const locations = grouped.get(intensity) || [];
-      const intensityStr = intensityToString(intensity);
-
-      let locationText: string;
-      if (locations.length <= maxDisplay) {
-        locationText = locations.join('、');
-      } else {
-        const displayed = locations.slice(0, maxDisplay);
-        const remaining = locations.length - maxDisplay;
-        locationText = `${displayed.join('、')} 他${remaining}箇所`;
-      }
-
+    getPointsByIntensity(l, quake).forEach(({ intensity, places }) => {
       blocks.push({
         type: 'section',
         text: {
           type: 'mrkdwn',
-          text: `*${intensityStr}*\n${locationText}`,
+          text: `*${intensity}*\n${places}`,
         },
       });
     });
@@ -138,67 +324,144 @@ export function formatQuakeMessage(quake: JMAQuake): KnownBlock[] {
     type: 'divider',
   });
 
-  blocks.push({
-    type: 'context',
-    elements: [
-      {
-        type: 'mrkdwn',
-        text: `情報発表時刻：${formatDateTime(quake.time)}\n詳しい情報は <https://www.data.jma.go.jp/multi/index.html?lang=jp|気象庁ホームページ> をご確認ください`,
-      },
-    ],
-  });
+  blocks.push(formatFooter(l, quake.time));
 
   return blocks;
 }
 
 /**
- * Format date time to Japanese format
+ * Observation points grouped by intensity, most intense first
  */
-function formatDateTime(dateTime: string): string {
-  const date = new Date(dateTime);
+function getPointsByIntensity(
+  l: Localizer,
+  quake: JMAQuake
+): QuakeTemplateContext['pointsByIntensity'] {
+  const grouped = new Map<SeismicIntensity, string[]>();
+
+  (quake.points ?? []).forEach((point) => {
+    const locations = grouped.get(point.scale) || [];
+    locations.push(point.addr);
+    grouped.set(point.scale, locations);
+  });
 
-  const year = date.getFullYear();
-  const month = date.getMonth() + 1;
-  const day = date.getDate();
-  const hours = date.getHours();
-  const minutes = date.getMinutes().toString().padStart(2, '0');
+  const maxDisplay = 10;
+
+  return Array.from(grouped.keys())
+    .sort((a, b) => b - a)
+    .map((intensity) => {
+      const locations = (grouped.get(intensity) || []).map((location) => l.place(location));
+
+      let places: string;
+      if (locations.length <= maxDisplay) {
+        places = locations.join(l.m.listSeparator);
+      } else {
+        const displayed = locations.slice(0, maxDisplay);
+        const remaining = locations.length - maxDisplay;
+        places = `${displayed.join(l.m.listSeparator)}${l.m.more(remaining)}`;
+      }
 
-  return `${year}年${month}月${day}日 ${hours}時${minutes}分`;
+      return { intensity: l.intensity(intensity), places, count: locations.length };
+    });
 }
 
 /**
- * Get tsunami text from tsunami type
+ * Values shared by every template context
  */
-function getTsunamiText(tsunamiType: string): string {
-  const tsunamiMap: Record<string, string> = {
-    None: 'なし',
-    Unknown: '不明',
-    Checking: '調査中',
-    NonEffective: '若干の海面変動（被害の心配なし）',
-    Watch: '津波注意報',
-    Warning: '津波警報',
+function buildBaseContext(
+  l: Localizer,
+  time: string,
+  options: FormatOptions,
+  imageFilename: string
+): BaseTemplateContext {
+  return {
+    locale: l.locale,
+    late: options.late ?? false,
+    lateNotice: l.m.late(l.dateTime(time)),
+    issuedAt: l.m.footer.issuedAt(l.dateTime(time)),
+    jmaLink: l.m.footer.jmaLink,
+    imageUrl: getImageUrl(imageFilename),
+    labels: l.m.labels,
   };
+}
 
-  return tsunamiMap[tsunamiType] || tsunamiType;
+function buildQuakeContext(
+  l: Localizer,
+  quake: JMAQuake,
+  options: FormatOptions
+): QuakeTemplateContext {
+  const { m } = l;
+  const hypocenter = quake.earthquake.hypocenter;
+  const sitesHypocenter = getQuakeHypocenter(quake);
+  const magnitude = hypocenter?.magnitude;
+  const depth = hypocenter?.depth;
+
+  return {
+    ...buildBaseContext(l, quake.time, options, 'rotating_light.png'),
+    title: m.quake.title,
+    body: m.quake.body,
+    maxIntensity: l.intensity(quake.earthquake.maxScale),
+    originTime: l.dateTime(quake.earthquake.time),
+    hypocenter: hypocenter?.name ? l.place(hypocenter.name) : '',
+    magnitude:
+      magnitude === undefined ? '' : magnitude >= 0 ? `M${magnitude.toFixed(1)}` : m.unknown,
+    depth: depth === undefined ? '' : depth >= 0 ? m.depth(depth) : m.unknown,
+    tsunami: quake.earthquake.domesticTsunami
+      ? getTsunamiText(l, quake.earthquake.domesticTsunami)
+      : '',
+    regionsTitle: m.quake.watchedRegions,
+    regions: getRegionContexts(l, options.regions ?? []),
+    sitesTitle: m.sites.title,
+    sitesDisclaimer: m.sites.disclaimer,
+    sites: sitesHypocenter ? getSiteContexts(l, sitesHypocenter, false) : [],
+    pointsByIntensity: getPointsByIntensity(l, quake),
+  };
+}
+
+/**
+ * Get tsunami text from tsunami type
+ */
+function getTsunamiText(l: Localizer, tsunamiType: string): string {
+  return l.m.domesticTsunami[tsunamiType] || tsunamiType;
 }
 
 /**
  * Format JMA tsunami information into Slack Block Kit format
  */
-export function formatTsunamiMessage(tsunami: JMATsunami): KnownBlock[] {
+export function formatTsunamiMessage(
+  tsunami: JMATsunami,
+  options: FormatOptions = {}
+): KnownBlock[] {
+  const template = templates.tsunami;
+  return localize(options.locales, (l) =>
+    template
+      ? renderBlocks(template, buildTsunamiContext(l, tsunami, options))
+      : buildTsunamiMessage(l, tsunami, options)
+  );
+}
+
+function buildTsunamiMessage(
+  l: Localizer,
+  tsunami: JMATsunami,
+  options: FormatOptions
+): KnownBlock[] {
+  const { m } = l;
   const blocks: KnownBlock[] = [];
 
+  if (options.late) {
+    blocks.push(formatLateNotice(l, tsunami.time));
+  }
+
   // Header section with image
   blocks.push({
     type: 'section',
     text: {
       type: 'mrkdwn',
-      text: `*津波情報*\n津波情報が発表されました`,
+      text: `*${m.tsunami.title}*\n${m.tsunami.body}`,
     },
     accessory: {
       type: 'image',
       image_url: getImageUrl('ocean.png'),
-      alt_text: '津波情報',
+      alt_text: m.tsunami.title,
     },
   });
 
@@ -212,27 +475,25 @@ export function formatTsunamiMessage(tsunami: JMATsunami): KnownBlock[] {
       type: 'section',
       text: {
         type: 'mrkdwn',
-        text: '*この津波情報は解除されました*',
+        text: `:white_check_mark: *${m.tsunami.cancelled}*`,
       },
     });
   }
 
-  // Tsunami areas information
-  if (tsunami.areas && tsunami.areas.length > 0) {
-    const areasText = tsunami.areas
-      .map((area) => {
-        const grade = getTsunamiGradeText(area.grade);
-        const immediate = area.immediate ? ' ⚠️ *直ちに避難*' : '';
-        return `*${area.name}*: ${grade}${immediate}`;
-      })
-      .join('\n');
+  // Changes since the previous active bulletin
+  if (options.previousTsunami) {
+    const changes = diffTsunamiAreas(options.previousTsunami, tsunami);
+    if (changes.length > 0) {
+      blocks.push(...formatSections(`*${m.tsunami.changes}*`, formatTsunamiChanges(l, changes)));
+    }
+  }
 
-    blocks.push({
-      type: 'section',
-      text: {
-        type: 'mrkdwn',
-        text: `*津波予報区*\n${areasText}`,
-      },
+  // Tsunami areas grouped by grade, most severe first
+  if (tsunami.areas && tsunami.areas.length > 0) {
+    groupTsunamiAreas(tsunami.areas).forEach(([grade, areas]) => {
+      const lines = areas.map((area) => formatTsunamiArea(l, area));
+      const title = `*${getTsunamiGradeText(l, grade)}*${m.parenthesize(String(areas.length))}`;
+      blocks.push(...formatSections(title, lines));
     });
   }
 
@@ -241,33 +502,202 @@ export function formatTsunamiMessage(tsunami: JMATsunami): KnownBlock[] {
     type: 'divider',
   });
 
-  blocks.push({
-    type: 'context',
-    elements: [
-      {
-        type: 'mrkdwn',
-        text: `情報発表時刻：${formatDateTime(tsunami.time)}\n詳しい情報は <https://www.data.jma.go.jp/multi/index.html?lang=jp|気象庁ホームページ> をご確認ください`,
-      },
-    ],
-  });
+  blocks.push(formatFooter(l, tsunami.time));
 
   return blocks;
 }
 
+function buildTsunamiContext(
+  l: Localizer,
+  tsunami: JMATsunami,
+  options: FormatOptions
+): TsunamiTemplateContext {
+  const { m } = l;
+
+  return {
+    ...buildBaseContext(l, tsunami.time, options, 'ocean.png'),
+    title: m.tsunami.title,
+    body: m.tsunami.body,
+    cancelled: tsunami.cancelled,
+    cancelledText: m.tsunami.cancelled,
+    changesTitle: m.tsunami.changes,
+    changes: options.previousTsunami
+      ? formatTsunamiChanges(l, diffTsunamiAreas(options.previousTsunami, tsunami))
+      : [],
+    grades: groupTsunamiAreas(tsunami.areas ?? []).map(([grade, areas]) => ({
+      grade: getTsunamiGradeText(l, grade),
+      code: grade,
+      count: areas.length,
+      areas: areas.map((area) => getTsunamiAreaContext(l, area)),
+    })),
+  };
+}
+
+/**
+ * Format the thread log entry of a tsunami bulletin: area counts per grade and the changes
+ *
+ * Bilingual summaries put each language on its own line.
+ */
+export function formatTsunamiSummary(
+  tsunami: JMATsunami,
+  previousTsunami?: JMATsunami,
+  locales: Locale[] = config.locales
+): string {
+  return locales
+    .map((locale) => {
+      const l = createLocalizer(locale);
+      const parts = [l.m.tsunami.issued(l.time(tsunami.time))];
+
+      if (tsunami.cancelled) {
+        parts.push(l.m.tsunami.cancelledLabel);
+      } else {
+        groupTsunamiAreas(tsunami.areas ?? []).forEach(([grade, areas]) => {
+          parts.push(`${getTsunamiGradeText(l, grade)} ${areas.length}`);
+        });
+      }
+
+      const changes = previousTsunami
+        ? formatTsunamiChanges(l, diffTsunamiAreas(previousTsunami, tsunami))
+        : [];
+      return [parts.join(' | '), ...changes].join('\n');
+    })
+    .join('\n');
+}
+
+/**
+ * Format the thread note of an active tsunami bulletin that expired without a cancellation
+ */
+export function formatTsunamiExpiredNote(
+  hours: number,
+  locales: Locale[] = config.locales
+): string {
+  return locales.map((locale) => createLocalizer(locale).m.tsunami.expired(hours)).join('\n');
+}
+
+type TsunamiAreaContext = TsunamiTemplateContext['grades'][number]['areas'][number];
+
+/**
+ * One tsunami forecast area with its first wave and maximum height
+ */
+function getTsunamiAreaContext(
+  l: Localizer,
+  area: NonNullable<JMATsunami['areas']>[number]
+): TsunamiAreaContext {
+  const { m } = l;
+  let firstWave = '';
+  let maxHeight = '';
+
+  const firstHeight = area.firstHeight;
+  if (firstHeight?.arrivalTime || firstHeight?.condition) {
+    const first = [
+      firstHeight.arrivalTime ? m.tsunami.firstWave(l.time(firstHeight.arrivalTime)) : undefined,
+      firstHeight.condition
+        ? (m.tsunami.conditions[firstHeight.condition] ?? firstHeight.condition)
+        : undefined,
+    ];
+    firstWave = first.filter((part) => part !== undefined).join(' ');
+  }
+
+  if (area.maxHeight?.description) {
+    const height = m.tsunami.heights[area.maxHeight.description] ?? area.maxHeight.description;
+    maxHeight = m.tsunami.maxHeight(height);
+  }
+
+  const details = [firstWave, maxHeight].filter((detail) => detail.length > 0);
+  const immediate = area.immediate ? ` ⚠️ *${m.tsunami.immediate}*` : '';
+  const suffix = details.length > 0 ? `: ${details.join(' | ')}` : '';
+  const name = l.place(area.name);
+
+  return {
+    name,
+    firstWave,
+    maxHeight,
+    immediate: area.immediate ?? false,
+    text: `*${name}*${suffix}${immediate}`,
+  };
+}
+
+/**
+ * Format one tsunami forecast area with its first wave and maximum height
+ */
+function formatTsunamiArea(l: Localizer, area: NonNullable<JMATsunami['areas']>[number]): string {
+  return getTsunamiAreaContext(l, area).text;
+}
+
+/**
+ * Format the changes between two tsunami bulletins, one line per kind of change
+ */
+function formatTsunamiChanges(l: Localizer, changes: TsunamiAreaChange[]): string[] {
+  const { m } = l;
+  const labels: Record<TsunamiAreaChange['kind'], string> = {
+    upgraded: m.tsunami.upgraded,
+    downgraded: m.tsunami.downgraded,
+    added: m.tsunami.added,
+    cleared: m.tsunami.cleared,
+  };
+
+  return (Object.keys(labels) as TsunamiAreaChange['kind'][])
+    .map((kind) => {
+      const entries = changes
+        .filter((change) => change.kind === kind)
+        .map((change) => {
+          const grades = [change.from, change.to]
+            .filter((grade): grade is string => grade !== undefined)
+            .map((grade) => getTsunamiGradeText(l, grade))
+            .join('→');
+          return `${l.place(change.name)}${m.parenthesize(grades)}`;
+        });
+      return entries.length > 0 ? `${labels[kind]}: ${entries.join(m.listSeparator)}` : '';
+    })
+    .filter((line) => line.length > 0);
+}
+
+/**
+ * Build sections from a title and lines, splitting them to stay within Slack's text limit
+ */
+function formatSections(title: string, lines: string[]): KnownBlock[] {
+  const texts: string[] = [];
+  let current = title;
+
+  lines.forEach((line) => {
+    if (current.length + line.length + 1 > MAX_SECTION_TEXT) {
+      texts.push(current);
+      current = line;
+    } else {
+      current = `${current}\n${line}`;
+    }
+  });
+  texts.push(current);
+
+  return texts.map((text) => ({ type: 'section', text: { type: 'mrkdwn', text } }));
+}
+
 /**
  * Format EEW information into Slack Block Kit format
  */
-export function formatEEWMessage(eew: EEW): KnownBlock[] {
+export function formatEEWMessage(eew: EEW, options: FormatOptions = {}): KnownBlock[] {
+  const template = templates.eew;
+  return localize(options.locales, (l) =>
+    template
+      ? renderBlocks(template, buildEEWContext(l, eew, options))
+      : buildEEWMessage(l, eew, options)
+  );
+}
+
+function buildEEWMessage(l: Localizer, eew: EEW, options: FormatOptions): KnownBlock[] {
+  const { m } = l;
   const blocks: KnownBlock[] = [];
 
+  if (options.late) {
+    blocks.push(formatLateNotice(l, eew.time));
+  }
+
   // Determine alert level and emoji
   const isCancelled = eew.cancelled;
   const isTest = eew.test;
 
   // Determine if warning based on predicted intensity in areas
-  const maxPredictedIntensity = (eew.areas?.reduce<number>((max, area) => {
-    return Math.max(max, area.scaleTo || 0);
-  }, 0) || 0) as SeismicIntensity;
+  const maxPredictedIntensity = getMaxPredictedIntensity(eew);
   const isWarning = maxPredictedIntensity >= 50; // Intensity 5-strong or higher
 
   const imageFilename = isCancelled
@@ -277,20 +707,16 @@ export function formatEEWMessage(eew: EEW): KnownBlock[] {
       : isWarning
         ? 'warning.png'
         : 'mega.png';
-  const title = isCancelled
-    ? '緊急地震速報（キャンセル）'
-    : isTest
-      ? '緊急地震速報（訓練）'
-      : '緊急地震速報';
+  const title = isCancelled ? m.eew.titleCancelled : isTest ? m.eew.titleTest : m.eew.title;
 
   // Alert message
   const alertText = isCancelled
-    ? '緊急地震速報がキャンセルされました'
+    ? m.eew.cancelled
     : isTest
-      ? '**これは訓練です**'
+      ? m.eew.test
       : isWarning
-        ? '**強い揺れに警戒してください**'
-        : '緊急地震速報を受信しました';
+        ? m.eew.warning
+        : m.eew.received;
 
   // Header section with image
   blocks.push({
@@ -314,27 +740,27 @@ export function formatEEWMessage(eew: EEW): KnownBlock[] {
   const eewInfo = [];
 
   if (eew.earthquake?.originTime) {
-    eewInfo.push(`*発生時刻*\n${formatDateTime(eew.earthquake.originTime)}`);
+    eewInfo.push(`*${m.labels.originTime}*\n${l.dateTime(eew.earthquake.originTime)}`);
   }
 
   if (eew.earthquake?.hypocenter?.name) {
-    eewInfo.push(`*震源地*\n${eew.earthquake.hypocenter.name}`);
+    eewInfo.push(`*${m.labels.hypocenter}*\n${l.place(eew.earthquake.hypocenter.name)}`);
   }
 
   if (
     eew.earthquake?.hypocenter?.magnitude !== undefined &&
     eew.earthquake.hypocenter.magnitude >= 0
   ) {
-    eewInfo.push(`*マグニチュード*\nM${eew.earthquake.hypocenter.magnitude.toFixed(1)}`);
+    eewInfo.push(`*${m.labels.magnitude}*\nM${eew.earthquake.hypocenter.magnitude.toFixed(1)}`);
   }
 
   if (eew.earthquake?.hypocenter?.depth !== undefined && eew.earthquake.hypocenter.depth >= 0) {
-    eewInfo.push(`*深さ*\n約${eew.earthquake.hypocenter.depth}km`);
+    eewInfo.push(`*${m.labels.depth}*\n${m.depth(eew.earthquake.hypocenter.depth)}`);
   }
 
   // Add max predicted intensity
   if (maxPredictedIntensity > 0) {
-    eewInfo.push(`*最大予測震度*\n${intensityToString(maxPredictedIntensity)}`);
+    eewInfo.push(`*${m.labels.maxPredictedIntensity}*\n${l.intensity(maxPredictedIntensity)}`);
   }
 
   if (eewInfo.length > 0) {
@@ -347,32 +773,37 @@ export function formatEEWMessage(eew: EEW): KnownBlock[] {
     });
   }
 
+  // Watched regions that triggered this notification
+  if (options.regions && options.regions.length > 0 && !isCancelled) {
+    blocks.push(formatRegionSection(l, m.eew.watchedRegions, options.regions));
+  }
+
+  // Estimated shaking and time left at the configured sites
+  const hypocenter = getEEWHypocenter(eew);
+  if (config.sites.length > 0 && hypocenter && !isCancelled) {
+    blocks.push(...formatSiteSection(l, hypocenter, true));
+  }
+
   // Areas information
   if (eew.areas && eew.areas.length > 0 && !isCancelled) {
     blocks.push({
       type: 'divider',
     });
 
-    const areasText = eew.areas
-      .slice(0, 15) // Limit to 15 areas
+    const areasText = getEEWAreas(l, eew)
       .map((area) => {
-        const intensityFrom = area.scaleFrom ? intensityToString(area.scaleFrom) : '予測震度不明';
-        const intensityTo =
-          area.scaleTo && area.scaleTo !== area.scaleFrom
-            ? `〜${intensityToString(area.scaleTo)}`
-            : '';
-        const arrivalTime = area.arrivalTime ? ` (${formatTime(area.arrivalTime)})` : '';
-        return `*${area.name}*: ${intensityFrom}${intensityTo}${arrivalTime}`;
+        const arrivalTime = area.arrivalTime ? ` (${area.arrivalTime})` : '';
+        return `*${area.name}*: ${area.intensity}${arrivalTime}`;
       })
       .join('\n');
 
-    const remaining = eew.areas.length > 15 ? ` 他${eew.areas.length - 15}地域` : '';
+    const remaining = getMoreEEWAreas(l, eew);
 
     blocks.push({
       type: 'section',
       text: {
         type: 'mrkdwn',
-        text: `*予測震度*\n${areasText}${remaining}`,
+        text: `*${m.eew.predictedIntensity}*\n${areasText}${remaining}`,
       },
     });
   }
@@ -382,41 +813,551 @@ export function formatEEWMessage(eew: EEW): KnownBlock[] {
     type: 'divider',
   });
 
-  const issueType = isTest ? '訓練' : `第${eew.issue.serial}報`;
+  const issueType = isTest ? m.eew.testLabel : m.eew.serial(eew.issue.serial);
 
-  blocks.push({
-    type: 'context',
-    elements: [
+  blocks.push(formatFooter(l, eew.time, issueType));
+
+  return blocks;
+}
+
+// Predicted areas listed before the rest are only counted
+const MAX_EEW_AREAS = 15;
+
+/**
+ * Predicted intensity and arrival time of the first areas of an EEW
+ */
+function getEEWAreas(l: Localizer, eew: EEW): EEWTemplateContext['areas'] {
+  return (eew.areas ?? []).slice(0, MAX_EEW_AREAS).map((area) => {
+    const intensityFrom = area.scaleFrom ? l.intensity(area.scaleFrom) : l.m.eew.unknownIntensity;
+    const intensityTo =
+      area.scaleTo && area.scaleTo !== area.scaleFrom ? `〜${l.intensity(area.scaleTo)}` : '';
+    return {
+      name: l.place(area.name),
+      intensity: `${intensityFrom}${intensityTo}`,
+      arrivalTime: area.arrivalTime ? l.time(area.arrivalTime) : '',
+    };
+  });
+}
+
+function getMoreEEWAreas(l: Localizer, eew: EEW): string {
+  const count = eew.areas?.length ?? 0;
+  return count > MAX_EEW_AREAS ? l.m.eew.moreAreas(count - MAX_EEW_AREAS) : '';
+}
+
+function buildEEWContext(l: Localizer, eew: EEW, options: FormatOptions): EEWTemplateContext {
+  const { m } = l;
+  const maxPredictedIntensity = getMaxPredictedIntensity(eew);
+  const warning = maxPredictedIntensity >= 50;
+  const hypocenter = eew.earthquake?.hypocenter;
+  const sitesHypocenter = getEEWHypocenter(eew);
+  const imageFilename = eew.cancelled
+    ? 'no.png'
+    : warning && !eew.test
+      ? 'warning.png'
+      : 'mega.png';
+
+  return {
+    ...buildBaseContext(l, eew.time, options, imageFilename),
+    title: eew.cancelled ? m.eew.titleCancelled : eew.test ? m.eew.titleTest : m.eew.title,
+    alert: eew.cancelled
+      ? m.eew.cancelled
+      : eew.test
+        ? m.eew.test
+        : warning
+          ? m.eew.warning
+          : m.eew.received,
+    cancelled: eew.cancelled,
+    test: eew.test,
+    warning,
+    serial: String(eew.issue.serial),
+    issueLabel: eew.test ? m.eew.testLabel : m.eew.serial(eew.issue.serial),
+    originTime: eew.earthquake?.originTime ? l.dateTime(eew.earthquake.originTime) : '',
+    hypocenter: hypocenter?.name ? l.place(hypocenter.name) : '',
+    magnitude:
+      hypocenter?.magnitude !== undefined && hypocenter.magnitude >= 0
+        ? `M${hypocenter.magnitude.toFixed(1)}`
+        : '',
+    depth:
+      hypocenter?.depth !== undefined && hypocenter.depth >= 0 ? m.depth(hypocenter.depth) : '',
+    maxPredictedIntensity: maxPredictedIntensity > 0 ? l.intensity(maxPredictedIntensity) : '',
+    regionsTitle: m.eew.watchedRegions,
+    regions: eew.cancelled ? [] : getRegionContexts(l, options.regions ?? []),
+    sitesTitle: m.sites.title,
+    sitesDisclaimer: m.sites.disclaimer,
+    sites: sitesHypocenter && !eew.cancelled ? getSiteContexts(l, sitesHypocenter, true) : [],
+    areasTitle: m.eew.predictedIntensity,
+    areas: eew.cancelled ? [] : getEEWAreas(l, eew),
+    moreAreas: eew.cancelled ? '' : getMoreEEWAreas(l, eew),
+  };
+}
+
+/**
+ * Format a one-line summary of an EEW serial for the message thread history
+ *
+ * Bilingual summaries put each language on its own line.
+ */
+export function formatEEWSummary(eew: EEW, locales: Locale[] = config.locales): string {
+  return locales.map((locale) => buildEEWSummary(createLocalizer(locale), eew)).join('\n');
+}
+
+function buildEEWSummary(l: Localizer, eew: EEW): string {
+  const { m } = l;
+  const parts: string[] = [eew.test ? m.eew.testLabel : m.eew.serial(eew.issue.serial)];
+
+  if (eew.cancelled) {
+    parts.push(m.eew.cancelledLabel);
+  }
+
+  const hypocenter = eew.earthquake?.hypocenter;
+  const location: string[] = [];
+  if (hypocenter?.name) {
+    location.push(l.place(hypocenter.name));
+  }
+  if (hypocenter?.magnitude !== undefined && hypocenter.magnitude >= 0) {
+    location.push(`M${hypocenter.magnitude.toFixed(1)}`);
+  }
+  if (hypocenter?.depth !== undefined && hypocenter.depth >= 0) {
+    location.push(m.eew.depth(hypocenter.depth));
+  }
+  if (location.length > 0) {
+    parts.push(location.join(' '));
+  }
+
+  const maxPredictedIntensity = getMaxPredictedIntensity(eew);
+  if (maxPredictedIntensity > 0) {
+    parts.push(`${m.labels.maxPredictedIntensity} ${l.intensity(maxPredictedIntensity)}`);
+  }
+
+  parts.push(m.eew.issued(l.time(eew.time)));
+
+  return parts.join(' | ');
+}
+
+/**
+ * Format an EEW broadcast detection (Code 554) into Slack Block Kit format
+ */
+export function formatEEWDetectionMessage(
+  detection: EEWDetection,
+  options: FormatOptions = {}
+): KnownBlock[] {
+  return localize(options.locales, ({ m, dateTime }) => {
+    const detail = detection.type === 'Full' ? m.eewDetection.full : m.eewDetection.chime;
+
+    return [
+      {
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: `*${m.eewDetection.title}*\n${detail}\n${m.eewDetection.body}`,
+        },
+        accessory: {
+          type: 'image',
+          image_url: getImageUrl('warning.png'),
+          alt_text: m.eewDetection.title,
+        },
+      },
       {
+        type: 'context',
+        elements: [
+          {
+            type: 'mrkdwn',
+            text: `${m.eewDetection.detectedAt(dateTime(detection.time))}\n${m.eewDetection.disclaimer}`,
+          },
+        ],
+      },
+    ];
+  });
+}
+
+/**
+ * Format peer counts per area (Code 555) into Slack Block Kit format
+ */
+export function formatAreapeersMessage(
+  areapeers: Areapeers,
+  options: FormatOptions = {}
+): KnownBlock[] {
+  const total = areapeers.areas.reduce((sum, area) => sum + area.peer, 0);
+
+  return localize(options.locales, ({ m, dateTime }) => [
+    {
+      type: 'section',
+      text: {
         type: 'mrkdwn',
-        text: `${issueType} | 情報発表時刻：${formatDateTime(eew.time)}\n詳しい情報は <https://www.data.jma.go.jp/multi/index.html?lang=jp|気象庁ホームページ> をご確認ください`,
+        text: `*${m.areapeers.title}*\n${m.areapeers.body(areapeers.areas.length, total)}`,
       },
-    ],
+    },
+    {
+      type: 'context',
+      elements: [{ type: 'mrkdwn', text: m.areapeers.countedAt(dateTime(areapeers.time)) }],
+    },
+  ]);
+}
+
+/**
+ * Format an aggregated user report alert (Codes 561 / 9611) into Slack Block Kit format
+ */
+export function formatUserquakeAlert(
+  alert: UserquakeAlert,
+  options: FormatOptions = {}
+): KnownBlock[] {
+  return localize(options.locales, ({ m }) => {
+    const lines = [m.userquake.count(alert.count)];
+    if (alert.confidence !== undefined) {
+      lines.push(m.userquake.confidence(Math.round(alert.confidence * 100)));
+    }
+
+    const areas = alert.areas
+      .slice(0, 10)
+      .map((entry) => m.userquake.area(entry.area, entry.count))
+      .join('\n');
+
+    const blocks: KnownBlock[] = [
+      {
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: `*${m.userquake.title}*\n${m.userquake.body}`,
+        },
+        accessory: {
+          type: 'image',
+          image_url: getImageUrl('mega.png'),
+          alt_text: m.userquake.title,
+        },
+      },
+      {
+        type: 'section',
+        text: { type: 'mrkdwn', text: lines.join('\n') },
+      },
+    ];
+
+    if (areas) {
+      blocks.push({
+        type: 'section',
+        text: { type: 'mrkdwn', text: `*${m.userquake.areas}*\n${areas}` },
+      });
+    }
+
+    blocks.push({
+      type: 'context',
+      elements: [{ type: 'mrkdwn', text: m.userquake.disclaimer }],
+    });
+
+    return blocks;
   });
+}
 
-  return blocks;
+/**
+ * Format the title of a map image, joining the languages of bilingual messages
+ */
+export function formatMapTitle(kind: 'quake' | 'eew', locales: Locale[] = config.locales): string {
+  return locales.map((locale) => getMessages(locale).maps[kind]).join(' / ');
 }
 
 /**
- * Get tsunami grade text
+ * Format a duration as hours, minutes and seconds
  */
-function getTsunamiGradeText(grade: string): string {
-  const gradeMap: Record<string, string> = {
-    MajorWarning: '大津波警報',
-    Warning: '津波警報',
-    Watch: '津波注意報',
-    Unknown: '不明',
-  };
+function formatDuration(l: Localizer, ms: number): string {
+  const totalSeconds = Math.round(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+
+  return l.m.duration(hours, minutes, seconds);
+}
+
+/**
+ * Format the ops alert posted when the P2PQuake feed has been down too long
+ */
+export function formatOutageAlert(
+  startedAt: Date,
+  now: Date = new Date(),
+  options: FormatOptions = {}
+): KnownBlock[] {
+  return localize(options.locales, (l) => [
+    {
+      type: 'section',
+      text: {
+        type: 'mrkdwn',
+        text: `:warning: *${l.m.ops.outageTitle}*\n${l.m.ops.outageBody(
+          l.dateTime(startedAt),
+          formatDuration(l, now.getTime() - startedAt.getTime())
+        )}`,
+      },
+    },
+  ]);
+}
+
+/**
+ * Format the ops message posted once the P2PQuake feed has recovered
+ */
+export function formatRecoveryMessage(
+  startedAt: Date,
+  recoveredAt: Date,
+  options: FormatOptions = {}
+): KnownBlock[] {
+  return localize(options.locales, (l) => [
+    {
+      type: 'section',
+      text: {
+        type: 'mrkdwn',
+        text: `:white_check_mark: *${l.m.ops.recoveryTitle}*\n${l.m.ops.recoveryBody(
+          formatDuration(l, recoveredAt.getTime() - startedAt.getTime()),
+          l.dateTime(startedAt)
+        )}`,
+      },
+    },
+  ]);
+}
+
+/**
+ * Format a digest: one line per earthquake report or tsunami bulletin held back
+ * from the channel, oldest first
+ */
+export function formatDigestMessage(
+  events: (JMAQuake | JMATsunami)[],
+  from: Date,
+  to: Date,
+  options: FormatOptions = {}
+): KnownBlock[] {
+  return localize(options.locales, (l) => {
+    const { m } = l;
+    // Events of another day than the digest also show their date
+    const time = (value: string) =>
+      new Date(value).toDateString() === to.toDateString() ? l.time(value) : l.dateTime(value);
+
+    const lines = events.map((event) => {
+      if (event.code === 552) {
+        const tsunami = event as JMATsunami;
+        return [time(tsunami.time), `*${m.tsunami.title}*`, ...getTsunamiGrades(l, tsunami)].join(
+          ' | '
+        );
+      }
+
+      const quake = event as JMAQuake;
+      const hypocenter = quake.earthquake.hypocenter;
+      const parts = [
+        time(quake.earthquake.time),
+        `*${l.intensity(quake.earthquake.maxScale)}*`,
+        hypocenter?.name ? l.place(hypocenter.name) : m.unknown,
+      ];
+      if (hypocenter?.magnitude !== undefined && hypocenter.magnitude >= 0) {
+        parts.push(`M${hypocenter.magnitude.toFixed(1)}`);
+      }
+      return parts.join(' | ');
+    });
 
-  return gradeMap[grade] || grade;
+    const context = [m.digest.period(l.dateTime(from), l.dateTime(to), events.length)];
+    if (config.quietHours.length > 0) {
+      context.push(m.digest.quietHours);
+    }
+
+    return [
+      ...formatSections(`:memo: *${m.digest.title}*`, lines),
+      {
+        type: 'context',
+        elements: [{ type: 'mrkdwn', text: context.join('\n') }],
+      },
+    ];
+  });
 }
 
 /**
- * Format time only (hours:minutes)
+ * Format a seismic activity report: felt earthquakes by maximum intensity, the
+ * busiest hypocenter regions, the largest earthquake and the tsunami bulletins
+ */
+export function formatActivityReport(
+  report: ActivityReport,
+  options: FormatOptions = {}
+): KnownBlock[] {
+  return localize(options.locales, (l) => {
+    const { m } = l;
+    const none = `_${m.report.none}_`;
+
+    const byIntensity = report.byIntensity.map(
+      ([intensity, count]) => `${l.intensity(intensity)}: ${m.report.count(count)}`
+    );
+    const regions = report.regions.map(
+      ([name, count], index) => `${index + 1}. ${l.place(name)}: ${m.report.count(count)}`
+    );
+
+    let largest = none;
+    if (report.largest) {
+      const { quake, maxIntensity } = report.largest.quake;
+      const hypocenter = quake.earthquake.hypocenter;
+      largest = [
+        l.dateTime(quake.earthquake.time),
+        hypocenter?.name ? l.place(hypocenter.name) : m.unknown,
+        `M${hypocenter?.magnitude?.toFixed(1)}`,
+        `${m.labels.maxIntensity} ${l.intensity(maxIntensity)}`,
+      ].join(' | ');
+      if (report.largest.url) {
+        largest += `\n<${report.largest.url}|${m.report.viewPost}>`;
+      }
+    }
+
+    const tsunamis = report.tsunamis.map((tsunami) =>
+      [l.dateTime(tsunami.time), ...getTsunamiGrades(l, tsunami)].join(' | ')
+    );
+
+    return [
+      {
+        type: 'section',
+        text: { type: 'mrkdwn', text: `:bar_chart: *${m.report.title}*` },
+      },
+      {
+        type: 'context',
+        elements: [
+          {
+            type: 'mrkdwn',
+            text: m.report.period(l.dateTime(report.from), l.dateTime(report.to)),
+          },
+        ],
+      },
+      ...formatSections(`*${m.report.felt(report.felt.length)}*`, [
+        `_${m.report.byIntensity}_`,
+        ...(byIntensity.length > 0 ? byIntensity : [none]),
+      ]),
+      ...formatSections(`*${m.report.regions}*`, regions.length > 0 ? regions : [none]),
+      ...formatSections(`*${m.report.largest}*`, [largest]),
+      ...formatSections(`*${m.report.tsunami}*`, tsunamis.length > 0 ? tsunamis : [none]),
+    ];
+  });
+}
+
+/**
+ * Format the push notification text of an earthquake report
+ */
+export function formatQuakeText(quake: JMAQuake, locales: Locale[] = config.locales): string {
+  return localizeText(locales, (l) => {
+    const { m } = l;
+    const parts = [m.quake.title];
+
+    const hypocenter = quake.earthquake.hypocenter;
+    const location: string[] = [];
+    if (hypocenter?.name) {
+      location.push(l.place(hypocenter.name));
+    }
+    if (hypocenter?.magnitude !== undefined && hypocenter.magnitude >= 0) {
+      location.push(`M${hypocenter.magnitude.toFixed(1)}`);
+    }
+    if (location.length > 0) {
+      parts.push(location.join(' '));
+    }
+
+    parts.push(`${m.labels.maxIntensity} ${l.intensity(quake.earthquake.maxScale)}`);
+    return parts.join(' | ');
+  });
+}
+
+/**
+ * Format the push notification text of a tsunami bulletin
+ */
+export function formatTsunamiText(tsunami: JMATsunami, locales: Locale[] = config.locales): string {
+  return localizeText(locales, (l) => {
+    return [l.m.tsunami.title, ...getTsunamiGrades(l, tsunami)].join(' | ');
+  });
+}
+
+/**
+ * Format the push notification text of an EEW serial
+ */
+export function formatEEWText(eew: EEW, locales: Locale[] = config.locales): string {
+  return localizeText(locales, (l) => {
+    const title = eew.cancelled
+      ? l.m.eew.titleCancelled
+      : eew.test
+        ? l.m.eew.titleTest
+        : l.m.eew.title;
+    return `${title} | ${buildEEWSummary(l, eew)}`;
+  });
+}
+
+/**
+ * Format the push notification text of an EEW broadcast detection
+ */
+export function formatEEWDetectionText(
+  detection: EEWDetection,
+  locales: Locale[] = config.locales
+): string {
+  return localizeText(
+    locales,
+    ({ m }) =>
+      `${m.eewDetection.title}: ${detection.type === 'Full' ? m.eewDetection.full : m.eewDetection.chime}`
+  );
+}
+
+/**
+ * Format the push notification text of a peer count
+ */
+export function formatAreapeersText(
+  areapeers: Areapeers,
+  locales: Locale[] = config.locales
+): string {
+  const total = areapeers.areas.reduce((sum, area) => sum + area.peer, 0);
+  return localizeText(
+    locales,
+    ({ m }) => `${m.areapeers.title}: ${m.areapeers.body(areapeers.areas.length, total)}`
+  );
+}
+
+/**
+ * Format the push notification text of a user report alert
+ */
+export function formatUserquakeText(
+  alert: UserquakeAlert,
+  locales: Locale[] = config.locales
+): string {
+  return localizeText(
+    locales,
+    ({ m }) => `${m.userquake.title}: ${m.userquake.count(alert.count)}`
+  );
+}
+
+/**
+ * Format the push notification text of a digest
+ */
+export function formatDigestText(count: number, locales: Locale[] = config.locales): string {
+  return localizeText(locales, ({ m }) => m.digest.text(count));
+}
+
+/**
+ * Format the push notification text of a seismic activity report
+ */
+export function formatReportText(
+  report: ActivityReport,
+  locales: Locale[] = config.locales
+): string {
+  return localizeText(locales, ({ m }) => m.report.text(report.felt.length));
+}
+
+/**
+ * Format the push notification text of an ops alert or recovery message
+ */
+export function formatOpsText(
+  kind: 'outage' | 'recovery',
+  locales: Locale[] = config.locales
+): string {
+  return localizeText(locales, ({ m }) =>
+    kind === 'outage' ? m.ops.outageTitle : m.ops.recoveryTitle
+  );
+}
+
+/**
+ * Number of forecast areas per tsunami grade, or the cancellation label
+ */
+function getTsunamiGrades(l: Localizer, tsunami: JMATsunami): string[] {
+  if (tsunami.cancelled) {
+    return [l.m.tsunami.cancelledLabel];
+  }
+
+  return groupTsunamiAreas(tsunami.areas ?? []).map(
+    ([grade, areas]) => `${getTsunamiGradeText(l, grade)} ${areas.length}`
+  );
+}
+
+/**
+ * Get tsunami grade text
  */
-function formatTime(dateTime: string): string {
-  const date = new Date(dateTime);
-  const hours = date.getHours();
-  const minutes = date.getMinutes().toString().padStart(2, '0');
-  return `${hours}:${minutes}`;
+function getTsunamiGradeText(l: Localizer, grade: string): string {
+  return l.m.tsunamiGrade[grade] || grade;
 }
@@ -0,0 +1,31 @@
+const EARTH_RADIUS_KM = 6371;
+
+/**
+ * Check whether latitude/longitude values are usable
+ *
+ * P2PQuake reports unknown coordinates as -200.
+ */
+export function isValidCoordinate(latitude?: number, longitude?: number): boolean {
+  return (
+    latitude !== undefined &&
+    longitude !== undefined &&
+    latitude >= -90 &&
+    latitude <= 90 &&
+    longitude >= -180 &&
+    longitude <= 180
+  );
+}
+
+/**
+ * Great-circle distance between two points in kilometers (haversine formula)
+ */
+export function distanceKm(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(lat2 - lat1);
+  const dLon = toRad(lon2 - lon1);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLon / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+}
@@ -0,0 +1,65 @@
+import { describe, expect, test } from 'bun:test';
+import type { EEW, SeismicIntensity } from 'p2pquake-client';
+import { createEEW, createEEWArea } from '../test/eew';
+import { getMaxPredictedIntensity, getPredictedIntensity, shouldNotify } from './intensity';
+import { selectEEWRoutes } from './routing';
+import type { Route } from '../config/env';
+
+function eew(...areas: [scaleFrom: SeismicIntensity, scaleTo: SeismicIntensity][]): EEW {
+  return createEEW(1, {
+    areas: areas.map(([scaleFrom, scaleTo]) => createEEWArea(scaleFrom, scaleTo)),
+  });
+}
+
+describe('getPredictedIntensity', () => {
+  test('uses the upper bound of a range', () => {
+    expect(getPredictedIntensity(createEEWArea(45, 50))).toBe(50);
+  });
+
+  test('uses the lower bound of "or higher" forecasts (scaleTo 99)', () => {
+    expect(getPredictedIntensity(createEEWArea(55, 99))).toBe(55);
+  });
+});
+
+describe('getMaxPredictedIntensity', () => {
+  test('returns the strongest area', () => {
+    expect(getMaxPredictedIntensity(eew([30, 40], [55, 99]))).toBe(55);
+  });
+
+  test('returns 0 without areas', () => {
+    expect(getMaxPredictedIntensity(eew())).toBe(0);
+  });
+});
+
+describe('shouldNotify', () => {
+  test('ignores unknown and abnormal intensities', () => {
+    expect(shouldNotify(-1, 10)).toBe(false);
+    expect(shouldNotify(99, 10)).toBe(false);
+  });
+
+  test('compares with the threshold', () => {
+    expect(shouldNotify(45, 45)).toBe(true);
+    expect(shouldNotify(40, 45)).toBe(false);
+  });
+});
+
+describe('selectEEWRoutes', () => {
+  const route: Route = {
+    name: 'strong',
+    channelId: 'C0123456789',
+    codes: [556],
+    minIntensity: 30,
+    eewMinIntensity: 50,
+    regions: [],
+    locales: ['ja'],
+  };
+
+  test('keeps "6-lower or higher" forecasts on routes with eewMinIntensity', () => {
+    const matches = selectEEWRoutes([route], eew([55, 99]), () => false);
+    expect(matches.map((match) => match.route.name)).toEqual(['strong']);
+  });
+
+  test('drops forecasts below eewMinIntensity', () => {
+    expect(selectEEWRoutes([route], eew([40, 45]), () => false)).toEqual([]);
+  });
+});
@@ -1,20 +1,6 @@
-import type { SeismicIntensity } from 'p2pquake-client';
-
-// Mapping from p2pquake-client SeismicIntensity values to display strings
-const INTENSITY_MAP: Record<SeismicIntensity, string> = {
-  [-1]: '不明',
-  0: '震度0',
-  10: '震度1',
-  20: '震度2',
-  30: '震度3',
-  40: '震度4',
-  45: '震度5弱',
-  50: '震度5強',
-  55: '震度6弱',
-  60: '震度6強',
-  70: '震度7',
-  99: '異常',
-};
+import type { EEW, SeismicIntensity } from 'p2pquake-client';
+import { getMessages } from '../i18n';
+import type { Locale } from '../i18n';
 
 // Mapping from string to SeismicIntensity for environment variable parsing
 const STRING_TO_INTENSITY: Record<string, SeismicIntensity> = {
@@ -44,8 +30,9 @@ const INTENSITY_COLORS: Record<string, string> = {
 /**
  * Convert SeismicIntensity value to human-readable string
  */
-export function intensityToString(intensity: SeismicIntensity): string {
-  return INTENSITY_MAP[intensity] || '不明';
+export function intensityToString(intensity: SeismicIntensity, locale: Locale = 'ja'): string {
+  const messages = getMessages(locale);
+  return messages.intensity[intensity] || messages.unknown;
 }
 
 /**
@@ -73,6 +60,27 @@ export function shouldNotify(intensity: SeismicIntensity, threshold: SeismicInte
   return intensity >= threshold;
 }
 
+/**
+ * Get the predicted intensity of an EEW forecast area
+ *
+ * scaleTo 99 means "or higher", so the lower bound is the best estimate.
+ */
+export function getPredictedIntensity(area: NonNullable<EEW['areas']>[number]): SeismicIntensity {
+  return (
+    area.scaleTo === 99 ? area.scaleFrom || 0 : Math.max(area.scaleFrom || 0, area.scaleTo || 0)
+  ) as SeismicIntensity;
+}
+
+/**
+ * Get the maximum predicted intensity among the EEW forecast areas
+ */
+export function getMaxPredictedIntensity(eew: EEW): SeismicIntensity {
+  return (eew.areas ?? []).reduce<number>(
+    (max, area) => Math.max(max, getPredictedIntensity(area)),
+    0
+  ) as SeismicIntensity;
+}
+
 /**
  * Get color code for Slack Block Kit based on intensity
  */
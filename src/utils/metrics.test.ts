@@ -0,0 +1,64 @@
+import { describe, expect, test } from 'bun:test';
+import { metrics } from './metrics';
+
+// Rendered lines of one metric, excluding its HELP and TYPE header
+function samples(name: string): string[] {
+  return metrics
+    .render()
+    .split('\n')
+    .filter((line) => line.startsWith(name));
+}
+
+describe('metrics', () => {
+  test('renders every metric with its HELP and TYPE header', () => {
+    const output = metrics.render();
+
+    expect(output).toContain(
+      '# HELP quake_events_received_total P2PQuake payloads received, by event code\n# TYPE quake_events_received_total counter'
+    );
+    expect(output).toContain('# TYPE quake_slack_request_duration_seconds histogram');
+    expect(output).toContain('# TYPE quake_websocket_connected gauge');
+    expect(output.endsWith('\n')).toBe(true);
+  });
+
+  test('counts each label set separately, escaping label values', () => {
+    metrics.notifierFailures.inc({ notifier: 'metrics-test', code: 'http_500' });
+    metrics.notifierFailures.inc({ notifier: 'metrics-test', code: 'http_500' });
+    metrics.notifierFailures.inc({ notifier: 'metrics-test "q"\\', code: 'http_400' }, 3);
+
+    expect(samples('quake_notifier_failures_total{notifier="metrics-test')).toEqual([
+      'quake_notifier_failures_total{notifier="metrics-test",code="http_500"} 2',
+      'quake_notifier_failures_total{notifier="metrics-test \\"q\\"\\\\",code="http_400"} 3',
+    ]);
+  });
+
+  test('keeps the latest gauge value', () => {
+    metrics.lastMessageTimestamp.set(1_700_000_000);
+    metrics.lastMessageTimestamp.set(1_700_000_060);
+
+    expect(samples('quake_last_message_timestamp_seconds ')).toEqual([
+      'quake_last_message_timestamp_seconds 1700000060',
+    ]);
+  });
+
+  test('renders cumulative histogram buckets with the sum and count', () => {
+    metrics.slackLatency.observe(0.3, { method: 'metrics.test' });
+    metrics.slackLatency.observe(3, { method: 'metrics.test' });
+
+    const lines = samples('quake_slack_request_duration_seconds').filter((line) =>
+      line.includes('method="metrics.test"')
+    );
+    expect(lines).toEqual([
+      'quake_slack_request_duration_seconds_bucket{method="metrics.test",le="0.1"} 0',
+      'quake_slack_request_duration_seconds_bucket{method="metrics.test",le="0.25"} 0',
+      'quake_slack_request_duration_seconds_bucket{method="metrics.test",le="0.5"} 1',
+      'quake_slack_request_duration_seconds_bucket{method="metrics.test",le="1"} 1',
+      'quake_slack_request_duration_seconds_bucket{method="metrics.test",le="2.5"} 1',
+      'quake_slack_request_duration_seconds_bucket{method="metrics.test",le="5"} 2',
+      'quake_slack_request_duration_seconds_bucket{method="metrics.test",le="10"} 2',
+      'quake_slack_request_duration_seconds_bucket{method="metrics.test",le="+Inf"} 2',
+      'quake_slack_request_duration_seconds_sum{method="metrics.test"} 3.3',
+      'quake_slack_request_duration_seconds_count{method="metrics.test"} 2',
+    ]);
+  });
+});
@@ -0,0 +1,196 @@
+type Labels = Record<string, string | number>;
+
+/**
+ * Serialize labels in Prometheus text format, e.g. {code="551"}
+ */
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) {
+    return '';
+  }
+
+  const pairs = entries.map(
+    ([key, value]) => `${key}="${String(value).replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`
+  );
+  return `{${pairs.join(',')}}`;
+}
+
+abstract class Metric {
+  protected name: string;
+  private help: string;
+  private type: string;
+
+  constructor(name: string, help: string, type: string) {
+    this.name = name;
+    this.help = help;
+    this.type = type;
+  }
+
+  protected header(): string[] {
+    return [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`];
+  }
+
+  abstract render(): string;
+}
+
+class Counter extends Metric {
+  private values = new Map<string, number>();
+
+  constructor(name: string, help: string) {
+    super(name, help, 'counter');
+  }
+
+  inc(labels: Labels = {}, value = 1): void {
+    const key = formatLabels(labels);
+    this.values.set(key, (this.values.get(key) ?? 0) + value);
+  }
+
+  render(): string {
+    const lines = this.header();
+    this.values.forEach((value, key) => lines.push(`${this.name}${key} ${value}`));
+    return lines.join('\n');
+  }
+}
+
+class Gauge extends Metric {
+  private values = new Map<string, number>();
+
+  constructor(name: string, help: string) {
+    super(name, help, 'gauge');
+  }
+
+  set(value: number, labels: Labels = {}): void {
+    this.values.set(formatLabels(labels), value);
+  }
+
+  render(): string {
+    const lines = this.header();
+    this.values.forEach((value, key) => lines.push(`${this.name}${key} ${value}`));
+    return lines.join('\n');
+  }
+}
+
+interface HistogramSeries {
+  labels: Labels;
+  buckets: number[];
+  sum: number;
+  count: number;
+}
+
+class Histogram extends Metric {
+  private series = new Map<string, HistogramSeries>();
+  private bounds: number[];
+
+  constructor(name: string, help: string, bounds: number[]) {
+    super(name, help, 'histogram');
+    this.bounds = bounds;
+  }
+
+  observe(value: number, labels: Labels = {}): void {
+    const key = formatLabels(labels);
+    const series = this.series.get(key) ?? {
+      labels,
+      buckets: this.bounds.map(() => 0),
+      sum: 0,
+      count: 0,
+    };
+    this.series.set(key, series);
+
+    this.bounds.forEach((bound, index) => {
+      if (value <= bound) {
+        series.buckets[index] += 1;
+      }
+    });
+    series.sum += value;
+    series.count += 1;
+  }
+
+  render(): string {
+    const lines = this.header();
+    this.series.forEach((series, key) => {
+      this.bounds.forEach((bound, index) => {
+        const labels = formatLabels({ ...series.labels, le: bound });
+        lines.push(`${this.name}_bucket${labels} ${series.buckets[index]}`);
+      });
+      lines.push(
+        `${this.name}_bucket${formatLabels({ ...series.labels, le: '+Inf' })} ${series.count}`
+      );
+      lines.push(`${this.name}_sum${key} ${series.sum}`);
+      lines.push(`${this.name}_count${key} ${series.count}`);
+    });
+    return lines.join('\n');
+  }
+}
+
+/**
+ * Application metrics, exposed in Prometheus text format
+ */
+class Metrics {
+  readonly eventsReceived = new Counter(
+    'quake_events_received_total',
+    'P2PQuake payloads received, by event code'
+  );
+  readonly notificationsFiltered = new Counter(
+    'quake_notifications_filtered_total',
+    'Events below the intensity threshold of every route, by event code'
+  );
+  readonly slackSends = new Counter(
+    'quake_slack_sends_total',
+    'Successful Slack API calls, by method'
+  );
+  readonly slackFailures = new Counter(
+    'quake_slack_failures_total',
+    'Failed Slack API call attempts, by method and error code'
+  );
+  readonly slackLatency = new Histogram(
+    'quake_slack_request_duration_seconds',
+    'Duration of Slack API call attempts, by method',
+    [0.1, 0.25, 0.5, 1, 2.5, 5, 10]
+  );
+  readonly notifierSends = new Counter(
+    'quake_notifier_sends_total',
+    'Successful deliveries of the notifier backends other than Slack, by notifier and event'
+  );
+  readonly notifierFailures = new Counter(
+    'quake_notifier_failures_total',
+    'Failed delivery attempts of the notifier backends other than Slack, by notifier and error code'
+  );
+  readonly reconnects = new Counter(
+    'quake_websocket_reconnects_total',
+    'P2PQuake WebSocket connections established after the first one'
+  );
+  readonly websocketErrors = new Counter(
+    'quake_websocket_errors_total',
+    'P2PQuake WebSocket errors'
+  );
+  readonly connected = new Gauge(
+    'quake_websocket_connected',
+    'Whether the P2PQuake WebSocket is connected (1) or not (0)'
+  );
+  readonly lastMessageTimestamp = new Gauge(
+    'quake_last_message_timestamp_seconds',
+    'Unix time of the last P2PQuake payload received'
+  );
+
+  /**
+   * Render every metric in Prometheus text format
+   */
+  render(): string {
+    const all: Metric[] = [
+      this.eventsReceived,
+      this.notificationsFiltered,
+      this.slackSends,
+      this.slackFailures,
+      this.slackLatency,
+      this.notifierSends,
+      this.notifierFailures,
+      this.reconnects,
+      this.websocketErrors,
+      this.connected,
+      this.lastMessageTimestamp,
+    ];
+    return `${all.map((metric) => metric.render()).join('\n')}\n`;
+  }
+}
+
+export const metrics = new Metrics();
@@ -0,0 +1,92 @@
+import type { JMAQuake, EEW, SeismicIntensity } from 'p2pquake-client';
+import { getPredictedIntensity, shouldNotify } from './intensity';
+
+/**
+ * A watched region whose intensity met a route's threshold
+ */
+export interface RegionMatch {
+  region: string;
+  location: string;
+  intensity: SeismicIntensity;
+}
+
+/**
+ * Check whether a location belongs to a watched region
+ *
+ * Regions are matched against the prefecture exactly, or as a substring of
+ * the observation point / forecast area name, so both "東京都" and
+ * "千代田区" work.
+ */
+function isInRegion(region: string, pref: string | undefined, name: string): boolean {
+  return pref === region || name.includes(region);
+}
+
+/**
+ * Keep the strongest location for each watched region
+ */
+function strongestPerRegion(matches: RegionMatch[]): RegionMatch[] {
+  const byRegion = new Map<string, RegionMatch>();
+
+  matches.forEach((match) => {
+    const current = byRegion.get(match.region);
+    if (!current || match.intensity > current.intensity) {
+      byRegion.set(match.region, match);
+    }
+  });
+
+  return Array.from(byRegion.values()).sort((a, b) => b.intensity - a.intensity);
+}
+
+/**
+ * Find watched regions where the observed intensity meets the threshold
+ */
+export function findQuakeRegionMatches(
+  quake: JMAQuake,
+  regions: string[],
+  threshold: SeismicIntensity
+): RegionMatch[] {
+  const matches: RegionMatch[] = [];
+
+  (quake.points ?? []).forEach((point) => {
+    if (!shouldNotify(point.scale, threshold)) {
+      return;
+    }
+
+    regions
+      .filter((region) => isInRegion(region, point.pref, point.addr))
+      .forEach((region) => {
+        matches.push({ region, location: point.addr, intensity: point.scale });
+      });
+  });
+
+  return strongestPerRegion(matches);
+}
+
+/**
+ * Find watched regions where the predicted intensity meets the threshold
+ *
+ * Without a threshold every watched forecast area counts.
+ */
+export function findEEWRegionMatches(
+  eew: EEW,
+  regions: string[],
+  threshold?: SeismicIntensity
+): RegionMatch[] {
+  const matches: RegionMatch[] = [];
+
+  (eew.areas ?? []).forEach((area) => {
+    const predicted = getPredictedIntensity(area);
+
+    if (threshold !== undefined && !shouldNotify(predicted, threshold)) {
+      return;
+    }
+
+    regions
+      .filter((region) => isInRegion(region, area.pref, area.name))
+      .forEach((region) => {
+        matches.push({ region, location: area.name, intensity: predicted });
+      });
+  });
+
+  return strongestPerRegion(matches);
+}
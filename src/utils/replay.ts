@@ -0,0 +1,109 @@
+import type { SupportedPayload } from '../services/p2pquake';
+import { logger } from './logger';
+import { parseEventTime } from './time';
+
+// Event codes that can be replayed
+const REPLAY_CODES = [551, 552, 554, 555, 556, 561, 9611];
+
+/**
+ * Timing between replayed events
+ *
+ * `instant` sends events back to back; `scaled` keeps the recorded gaps
+ * divided by the factor (1 = real time).
+ */
+export type ReplaySpeed = { mode: 'instant' } | { mode: 'scaled'; factor: number };
+
+/**
+ * Parse a --speed option: "realtime", "instant" or an acceleration factor such as "10"
+ */
+export function parseSpeed(value: string): ReplaySpeed {
+  if (value === 'instant') {
+    return { mode: 'instant' };
+  }
+  if (value === 'realtime') {
+    return { mode: 'scaled', factor: 1 };
+  }
+
+  const factor = Number(value);
+  if (!Number.isFinite(factor) || factor <= 0) {
+    throw new Error(`Invalid speed: ${value}. Use realtime, instant or a positive number`);
+  }
+  return { mode: 'scaled', factor };
+}
+
+function isReplayablePayload(value: unknown): value is SupportedPayload {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+
+  const { code, time } = value as { code?: unknown; time?: unknown };
+  return typeof code === 'number' && REPLAY_CODES.includes(code) && typeof time === 'string';
+}
+
+/**
+ * Load recorded P2PQuake payloads from JSON (object or array) or JSONL files
+ *
+ * Payloads with unsupported codes are skipped.
+ */
+export async function loadPayloads(paths: string[]): Promise<SupportedPayload[]> {
+  const payloads: SupportedPayload[] = [];
+
+  for (const path of paths) {
+    const content = await Bun.file(path).text();
+    const values: unknown[] = path.endsWith('.jsonl')
+      ? content
+          .split('\n')
+          .filter((line) => line.trim().length > 0)
+          .map((line) => JSON.parse(line) as unknown)
+      : [JSON.parse(content) as unknown].flat();
+
+    values.forEach((value, index) => {
+      if (isReplayablePayload(value)) {
+        payloads.push(value);
+      } else {
+        logger.warn('Skipping unsupported payload', { path, index });
+      }
+    });
+  }
+
+  return payloads;
+}
+
+/**
+ * Delay in milliseconds before sending `next` after `previous`
+ */
+export function getReplayDelay(
+  previous: SupportedPayload,
+  next: SupportedPayload,
+  speed: ReplaySpeed
+): number {
+  if (speed.mode === 'instant') {
+    return 0;
+  }
+
+  const gap = parseEventTime(next.time) - parseEventTime(previous.time);
+  if (Number.isNaN(gap) || gap <= 0) {
+    return 0;
+  }
+  return gap / speed.factor;
+}
+
+/**
+ * Emit payloads in order, waiting between them according to the speed
+ */
+export async function replayPayloads(
+  payloads: SupportedPayload[],
+  speed: ReplaySpeed,
+  emit: (payload: SupportedPayload) => void | Promise<void>
+): Promise<void> {
+  for (let i = 0; i < payloads.length; i++) {
+    if (i > 0) {
+      const delay = getReplayDelay(payloads[i - 1], payloads[i], speed);
+      if (delay > 0) {
+        await Bun.sleep(delay);
+      }
+    }
+
+    await emit(payloads[i]);
+  }
+}
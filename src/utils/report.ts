@@ -0,0 +1,122 @@
+import type { JMAQuake, JMATsunami, SeismicIntensity } from 'p2pquake-client';
+import type { EventStore, StoredEvent } from '../services/eventStore';
+
+// Hypocenter regions listed in a report
+const MAX_REPORT_REGIONS = 5;
+
+/**
+ * One earthquake, merged from the reports JMA issued for it
+ */
+export interface ReportedQuake {
+  // Report with the most complete information (hypocenter and final intensity)
+  quake: JMAQuake;
+  maxIntensity: SeismicIntensity;
+  // IDs of every report of the earthquake
+  eventIds: string[];
+}
+
+/**
+ * Seismic activity over a period, built from the stored events
+ */
+export interface ActivityReport {
+  from: Date;
+  to: Date;
+  // Earthquakes felt in Japan (maximum intensity 1 or more)
+  felt: ReportedQuake[];
+  // Number of felt earthquakes per maximum intensity, most intense first
+  byIntensity: [SeismicIntensity, number][];
+  // Most frequent hypocenter regions, with their number of felt earthquakes
+  regions: [string, number][];
+  // Largest magnitude among the felt earthquakes, with the URL of its Slack post
+  largest?: { quake: ReportedQuake; url?: string };
+  tsunamis: JMATsunami[];
+}
+
+/**
+ * URL of a Slack message (Slack redirects it to the workspace)
+ */
+export function getMessageUrl(channelId: string, ts: string): string {
+  return `https://slack.com/archives/${channelId}/p${ts.replace('.', '')}`;
+}
+
+/**
+ * Merge the reports of each earthquake, keyed by origin time
+ *
+ * JMA issues several reports per earthquake (intensity prompt, hypocenter,
+ * detailed intensities); the last one with a hypocenter is kept, with the
+ * highest intensity of all of them. Foreign earthquakes are left out.
+ */
+export function mergeQuakeReports(events: StoredEvent<JMAQuake>[]): ReportedQuake[] {
+  const merged = new Map<string, ReportedQuake>();
+
+  events
+    .filter((event) => event.payload.issue?.type !== 'Foreign')
+    .forEach(({ id, payload }) => {
+      const key = payload.earthquake.time;
+      const existing = merged.get(key);
+      const maxIntensity = Math.max(
+        existing?.maxIntensity ?? -1,
+        payload.earthquake.maxScale
+      ) as SeismicIntensity;
+
+      merged.set(key, {
+        quake: !existing || payload.earthquake.hypocenter?.name ? payload : existing.quake,
+        maxIntensity,
+        eventIds: [...(existing?.eventIds ?? []), id],
+      });
+    });
+
+  return [...merged.values()];
+}
+
+/**
+ * Build the activity report of the events received in [from, to)
+ *
+ * The link to the largest earthquake prefers its post in `channelId`.
+ */
+export function buildActivityReport(
+  eventStore: EventStore,
+  from: Date,
+  to: Date,
+  channelId?: string
+): ActivityReport {
+  const felt = mergeQuakeReports(eventStore.getEvents<JMAQuake>(551, from, to)).filter(
+    (quake) => quake.maxIntensity >= 10
+  );
+
+  const byIntensity = new Map<SeismicIntensity, number>();
+  const regions = new Map<string, number>();
+  felt.forEach(({ quake, maxIntensity }) => {
+    byIntensity.set(maxIntensity, (byIntensity.get(maxIntensity) ?? 0) + 1);
+    const name = quake.earthquake.hypocenter?.name;
+    if (name) {
+      regions.set(name, (regions.get(name) ?? 0) + 1);
+    }
+  });
+
+  const largest = felt
+    .filter((quake) => (quake.quake.earthquake.hypocenter?.magnitude ?? -1) >= 0)
+    .sort(
+      (a, b) =>
+        (b.quake.earthquake.hypocenter?.magnitude ?? -1) -
+        (a.quake.earthquake.hypocenter?.magnitude ?? -1)
+    )[0];
+
+  let url: string | undefined;
+  if (largest) {
+    const deliveries = largest.eventIds.flatMap((eventId) => eventStore.getDeliveries(eventId));
+    const delivery =
+      deliveries.find((candidate) => candidate.channelId === channelId) ?? deliveries[0];
+    url = delivery && getMessageUrl(delivery.channelId, delivery.ts);
+  }
+
+  return {
+    from,
+    to,
+    felt,
+    byIntensity: [...byIntensity.entries()].sort(([a], [b]) => b - a),
+    regions: [...regions.entries()].sort(([, a], [, b]) => b - a).slice(0, MAX_REPORT_REGIONS),
+    largest: largest && { quake: largest, url },
+    tsunamis: eventStore.getEvents<JMATsunami>(552, from, to).map((event) => event.payload),
+  };
+}
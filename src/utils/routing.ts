@@ -0,0 +1,122 @@
+import type { JMAQuake, EEW, SeismicIntensity } from 'p2pquake-client';
+import type { Route, RouteEventCode } from '../config/env';
+import { getMaxPredictedIntensity, shouldNotify } from './intensity';
+import { findQuakeRegionMatches, findEEWRegionMatches } from './region';
+import type { RegionMatch } from './region';
+
+/**
+ * A route selected for an event, with the watched regions that triggered it
+ */
+export interface RouteMatch {
+  route: Route;
+  regions: RegionMatch[];
+}
+
+/**
+ * Select the routes that accept an earthquake report (551)
+ *
+ * Routes with watched regions compare the intensity observed in those
+ * regions; other routes compare the maximum intensity.
+ */
+export function selectQuakeRoutes(routes: Route[], quake: JMAQuake): RouteMatch[] {
+  const matches: RouteMatch[] = [];
+
+  routes
+    .filter((route) => route.codes.includes(551))
+    .forEach((route) => {
+      if (route.regions.length === 0) {
+        if (shouldNotify(quake.earthquake.maxScale, route.minIntensity)) {
+          matches.push({ route, regions: [] });
+        }
+        return;
+      }
+
+      const regions = findQuakeRegionMatches(quake, route.regions, route.minIntensity);
+      if (regions.length > 0) {
+        matches.push({ route, regions });
+      }
+    });
+
+  return matches;
+}
+
+/**
+ * Select the routes whose digest records an earthquake report too weak to be posted
+ *
+ * These are the routes that would accept the report if their minimum
+ * intensity were lowered to `digestMinIntensity`, but do not accept it now.
+ */
+export function selectDigestRoutes(
+  routes: Route[],
+  quake: JMAQuake,
+  digestMinIntensity: SeismicIntensity
+): RouteMatch[] {
+  const posted = new Set(selectQuakeRoutes(routes, quake).map((match) => match.route));
+  const lowered = routes
+    .filter((route) => !posted.has(route) && digestMinIntensity < route.minIntensity)
+    .map((route) => ({ ...route, minIntensity: digestMinIntensity }));
+
+  return selectQuakeRoutes(lowered, quake);
+}
+
+/**
+ * Select the routes that accept an event code, without further filtering
+ */
+export function selectRoutesByCode(routes: Route[], code: RouteEventCode): RouteMatch[] {
+  return routes
+    .filter((route) => route.codes.includes(code))
+    .map((route) => ({ route, regions: [] }));
+}
+
+/**
+ * Select the routes that accept tsunami information (552)
+ */
+export function selectTsunamiRoutes(routes: Route[]): RouteMatch[] {
+  return selectRoutesByCode(routes, 552);
+}
+
+/**
+ * Select the routes that accept an EEW (556)
+ *
+ * `isTracked` reports whether the event was already posted to a channel, so
+ * that later serials and cancellations reach every channel that saw the
+ * first post even if the predicted intensity has dropped.
+ */
+export function selectEEWRoutes(
+  routes: Route[],
+  eew: EEW,
+  isTracked: (channelId: string) => boolean
+): RouteMatch[] {
+  const maxIntensity = getMaxPredictedIntensity(eew);
+  const matches: RouteMatch[] = [];
+
+  routes
+    .filter((route) => route.codes.includes(556))
+    .forEach((route) => {
+      const regions =
+        route.regions.length > 0
+          ? findEEWRegionMatches(eew, route.regions, route.eewMinIntensity)
+          : [];
+
+      if (isTracked(route.channelId)) {
+        matches.push({ route, regions });
+        return;
+      }
+
+      if (route.regions.length > 0) {
+        if (!eew.cancelled && regions.length > 0) {
+          matches.push({ route, regions });
+        }
+        return;
+      }
+
+      if (
+        route.eewMinIntensity === undefined ||
+        (!eew.cancelled && shouldNotify(maxIntensity, route.eewMinIntensity))
+      ) {
+        matches.push({ route, regions });
+      }
+    });
+
+  return matches;
+}
@@ -0,0 +1,61 @@
+import { describe, expect, test } from 'bun:test';
+import type { JMAQuake } from 'p2pquake-client';
+import { estimateSites, getQuakeHypocenter, toIntensityClass } from './siteEstimate';
+
+const quake = {
+  id: 'quake',
+  code: 551,
+  time: '2024/01/01 16:13:00.000',
+  earthquake: {
+    time: '2024/01/01 16:10:00',
+    hypocenter: {
+      name: '石川県能登地方',
+      latitude: 37.5,
+      longitude: 137.2,
+      depth: 10,
+      magnitude: 7.6,
+    },
+    maxScale: 70,
+  },
+} as unknown as JMAQuake;
+
+describe('getQuakeHypocenter', () => {
+  test('reads the origin time as Japan time', () => {
+    expect(getQuakeHypocenter(quake)?.originTime.toISOString()).toBe('2024-01-01T07:10:00.000Z');
+  });
+
+  test('skips hypocenters without a magnitude', () => {
+    const unknown = {
+      ...quake,
+      earthquake: {
+        ...quake.earthquake,
+        hypocenter: { ...quake.earthquake.hypocenter, magnitude: -1 },
+      },
+    } as JMAQuake;
+    expect(getQuakeHypocenter(unknown)).toBeUndefined();
+  });
+});
+
+describe('estimateSites', () => {
+  test('times the arrivals from the origin time', () => {
+    const hypocenter = getQuakeHypocenter(quake);
+    if (!hypocenter) {
+      throw new Error('Expected a hypocenter');
+    }
+
+    const [estimate] = estimateSites(
+      [{ name: 'Kanazawa', latitude: 36.56, longitude: 136.65, amplification: 1.5 }],
+      hypocenter
+    );
+    expect(estimate.pArrival.getTime()).toBeGreaterThan(hypocenter.originTime.getTime());
+    expect(estimate.sArrival.getTime()).toBeGreaterThan(estimate.pArrival.getTime());
+  });
+});
+
+describe('toIntensityClass', () => {
+  test('maps instrumental intensities to classes', () => {
+    expect(toIntensityClass(0.4)).toBe(0);
+    expect(toIntensityClass(5.2)).toBe(50);
+    expect(toIntensityClass(6.6)).toBe(70);
+  });
+});
@@ -0,0 +1,155 @@
+import type { JMAQuake, EEW, SeismicIntensity } from 'p2pquake-client';
+import type { Site } from '../config/env';
+import { distanceKm, isValidCoordinate } from './geo';
+import { parseEventTime } from './time';
+
+// Average crustal P- and S-wave velocities in km/s
+const P_WAVE_VELOCITY = 6.0;
+const S_WAVE_VELOCITY = 3.5;
+
+// Distances are clamped to this minimum to keep the attenuation relation finite
+const MIN_DISTANCE_KM = 3;
+
+// Upper limits of the JMA instrumental intensity for each intensity class
+const INTENSITY_CLASSES: [number, SeismicIntensity][] = [
+  [0.5, 0],
+  [1.5, 10],
+  [2.5, 20],
+  [3.5, 30],
+  [4.5, 40],
+  [5.0, 45],
+  [5.5, 50],
+  [6.0, 55],
+  [6.5, 60],
+];
+
+/**
+ * Hypocenter parameters needed for the site estimates
+ */
+export interface Hypocenter {
+  originTime: Date;
+  latitude: number;
+  longitude: number;
+  depth: number;
+  magnitude: number;
+}
+
+/**
+ * Estimated shaking at a configured site
+ */
+export interface SiteEstimate {
+  site: Site;
+  // Hypocentral distance in kilometers
+  distanceKm: number;
+  pArrival: Date;
+  sArrival: Date;
+  intensity: SeismicIntensity;
+}
+
+function toHypocenter(
+  time: string | undefined,
+  hypocenter:
+    | { latitude?: number; longitude?: number; depth?: number; magnitude?: number }
+    | undefined
+): Hypocenter | undefined {
+  const originTime = time ? new Date(parseEventTime(time)) : undefined;
+  if (
+    !originTime ||
+    Number.isNaN(originTime.getTime()) ||
+    !hypocenter ||
+    !isValidCoordinate(hypocenter.latitude, hypocenter.longitude) ||
+    hypocenter.depth === undefined ||
+    hypocenter.depth < 0 ||
+    hypocenter.magnitude === undefined ||
+    hypocenter.magnitude < 0
+  ) {
+    return undefined;
+  }
+
+  return {
+    originTime,
+    latitude: hypocenter.latitude as number,
+    longitude: hypocenter.longitude as number,
+    depth: hypocenter.depth,
+    magnitude: hypocenter.magnitude,
+  };
+}
+
+/**
+ * Extract the hypocenter of an EEW, if it is complete enough for estimates
+ */
+export function getEEWHypocenter(eew: EEW): Hypocenter | undefined {
+  return toHypocenter(eew.earthquake?.originTime, eew.earthquake?.hypocenter);
+}
+
+/**
+ * Extract the hypocenter of an earthquake report, if it is complete enough for estimates
+ */
+export function getQuakeHypocenter(quake: JMAQuake): Hypocenter | undefined {
+  return toHypocenter(quake.earthquake.time, quake.earthquake.hypocenter);
+}
+
+/**
+ * Convert a JMA instrumental intensity to its intensity class
+ */
+export function toIntensityClass(instrumentalIntensity: number): SeismicIntensity {
+  const match = INTENSITY_CLASSES.find(([limit]) => instrumentalIntensity < limit);
+  return match ? match[1] : 70;
+}
+
+/**
+ * Estimate the JMA instrumental intensity at a distance from the hypocenter
+ *
+ * Peak ground velocity on engineering bedrock follows the attenuation relation
+ * of Si & Midorikawa (1999) for crustal earthquakes, using the hypocentral
+ * distance in place of the fault distance. It is scaled by the site
+ * amplification and converted with the relation of Midorikawa et al. (1999).
+ */
+export function estimateInstrumentalIntensity(
+  magnitude: number,
+  depth: number,
+  distance: number,
+  amplification: number
+): number {
+  // Moment magnitude from the JMA magnitude
+  const mw = magnitude - 0.171;
+  const x = Math.max(distance, MIN_DISTANCE_KM);
+  const d = Math.min(depth, 100);
+
+  const logPgv =
+    0.58 * mw + 0.0038 * d - 1.29 - Math.log10(x + 0.0028 * 10 ** (0.5 * mw)) - 0.002 * x;
+  const pgv = 10 ** logPgv * amplification;
+
+  return 2.68 + 1.72 * Math.log10(pgv);
+}
+
+/**
+ * Estimate distance, P/S-wave arrival times and intensity at each site
+ */
+export function estimateSites(sites: Site[], hypocenter: Hypocenter): SiteEstimate[] {
+  return sites.map((site) => {
+    const epicentral = distanceKm(
+      hypocenter.latitude,
+      hypocenter.longitude,
+      site.latitude,
+      site.longitude
+    );
+    const distance = Math.hypot(epicentral, hypocenter.depth);
+    const origin = hypocenter.originTime.getTime();
+
+    return {
+      site,
+      distanceKm: distance,
+      pArrival: new Date(origin + (distance / P_WAVE_VELOCITY) * 1000),
+      sArrival: new Date(origin + (distance / S_WAVE_VELOCITY) * 1000),
+      intensity: toIntensityClass(
+        estimateInstrumentalIntensity(
+          hypocenter.magnitude,
+          hypocenter.depth,
+          distance,
+          site.amplification
+        )
+      ),
+    };
+  });
+}
@@ -0,0 +1,28 @@
+import { describe, expect, test } from 'bun:test';
+import { formatEventTime, parseEventTime } from './time';
+
+describe('parseEventTime', () => {
+  test('reads timestamps as Japan time', () => {
+    expect(parseEventTime('2024/01/01 16:10:00')).toBe(Date.parse('2024-01-01T07:10:00Z'));
+  });
+
+  test('keeps the fraction of a second', () => {
+    expect(parseEventTime('2024/01/01 16:10:09.123')).toBe(Date.parse('2024-01-01T07:10:09.123Z'));
+  });
+
+  test('rejects other formats', () => {
+    expect(parseEventTime('2024-01-01T16:10:00')).toBeNaN();
+    expect(parseEventTime('')).toBeNaN();
+  });
+});
+
+describe('formatEventTime', () => {
+  test('writes Japan time with milliseconds', () => {
+    expect(formatEventTime(Date.parse('2024-01-01T07:10:09.123Z'))).toBe('2024/01/01 16:10:09.123');
+  });
+
+  test('round-trips with parseEventTime', () => {
+    const time = Date.parse('2024-12-31T20:59:59.999Z');
+    expect(parseEventTime(formatEventTime(time))).toBe(time);
+  });
+});
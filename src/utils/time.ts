@@ -0,0 +1,23 @@
+/**
+ * Parse a P2PQuake timestamp ("YYYY/MM/DD HH:mm:ss.SSS", Japan time)
+ *
+ * The timestamps carry no offset, so they are read as JST whatever the
+ * process time zone is. Returns NaN for any other format.
+ */
+export function parseEventTime(time: string): number {
+  const match = time.match(/^(\d{4})\/(\d{2})\/(\d{2}) (\d{2}):(\d{2}):(\d{2})(\.\d+)?$/);
+  if (!match) {
+    return Number.NaN;
+  }
+
+  const [, year, month, day, hours, minutes, seconds, fraction = ''] = match;
+  return Date.parse(`${year}-${month}-${day}T${hours}:${minutes}:${seconds}${fraction}+09:00`);
+}
+
+/**
+ * Format a time as a P2PQuake timestamp ("YYYY/MM/DD HH:mm:ss.SSS", Japan time)
+ */
+export function formatEventTime(time: number): string {
+  const jst = new Date(time + 9 * 60 * 60 * 1000).toISOString();
+  return `${jst.slice(0, 10).replace(/-/g, '/')} ${jst.slice(11, 23)}`;
+}
@@ -0,0 +1,67 @@
+import { describe, expect, test } from 'bun:test';
+import type { JMATsunami } from 'p2pquake-client';
+import { diffTsunamiAreas, groupTsunamiAreas } from './tsunami';
+
+function bulletin(areas: [name: string, grade: string][], cancelled = false): JMATsunami {
+  return {
+    id: 'tsunami',
+    code: 552,
+    time: '2024/01/01 16:22:00.000',
+    cancelled,
+    areas: areas.map(([name, grade]) => ({ name, grade, immediate: false })),
+  } as unknown as JMATsunami;
+}
+
+describe('groupTsunamiAreas', () => {
+  test('groups areas by grade, most severe first', () => {
+    const { areas } = bulletin([
+      ['佐渡', 'Watch'],
+      ['能登', 'MajorWarning'],
+      ['新潟県上中下越', 'Warning'],
+      ['富山県', 'Warning'],
+    ]);
+
+    expect(
+      groupTsunamiAreas(areas ?? []).map(([grade, group]) => [grade, group.map((a) => a.name)])
+    ).toEqual([
+      ['MajorWarning', ['能登']],
+      ['Warning', ['新潟県上中下越', '富山県']],
+      ['Watch', ['佐渡']],
+    ]);
+  });
+});
+
+describe('diffTsunamiAreas', () => {
+  const previous = bulletin([
+    ['能登', 'MajorWarning'],
+    ['富山県', 'Watch'],
+    ['佐渡', 'Warning'],
+  ]);
+
+  test('lists upgraded, downgraded, added and cleared areas', () => {
+    const current = bulletin([
+      ['能登', 'Warning'],
+      ['富山県', 'Warning'],
+      ['石川県加賀', 'Watch'],
+    ]);
+
+    expect(diffTsunamiAreas(previous, current)).toEqual([
+      { kind: 'downgraded', name: '能登', from: 'MajorWarning', to: 'Warning' },
+      { kind: 'upgraded', name: '富山県', from: 'Watch', to: 'Warning' },
+      { kind: 'added', name: '石川県加賀', to: 'Watch' },
+      { kind: 'cleared', name: '佐渡', from: 'Warning' },
+    ]);
+  });
+
+  test('leaves unchanged areas out', () => {
+    expect(diffTsunamiAreas(previous, previous)).toEqual([]);
+  });
+
+  test('clears every area on cancellation', () => {
+    expect(diffTsunamiAreas(previous, bulletin([], true)).map((change) => change.kind)).toEqual([
+      'cleared',
+      'cleared',
+      'cleared',
+    ]);
+  });
+});
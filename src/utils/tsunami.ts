@@ -0,0 +1,67 @@
+import type { JMATsunami } from 'p2pquake-client';
+
+// Forecast grades from the most to the least severe
+export const TSUNAMI_GRADES = ['MajorWarning', 'Warning', 'Watch', 'Unknown'] as const;
+
+type TsunamiArea = NonNullable<JMATsunami['areas']>[number];
+
+/**
+ * How a forecast area changed since the previous bulletin
+ */
+export interface TsunamiAreaChange {
+  kind: 'upgraded' | 'downgraded' | 'added' | 'cleared';
+  name: string;
+  from?: string;
+  to?: string;
+}
+
+function gradeRank(grade: string): number {
+  const index = (TSUNAMI_GRADES as readonly string[]).indexOf(grade);
+  return index === -1 ? 0 : TSUNAMI_GRADES.length - index;
+}
+
+/**
+ * Group forecast areas by grade, most severe first
+ */
+export function groupTsunamiAreas(areas: TsunamiArea[]): [string, TsunamiArea[]][] {
+  const groups = new Map<string, TsunamiArea[]>();
+  areas.forEach((area) => {
+    groups.set(area.grade, [...(groups.get(area.grade) ?? []), area]);
+  });
+
+  return Array.from(groups.entries()).sort(([a], [b]) => gradeRank(b) - gradeRank(a));
+}
+
+/**
+ * Compare a bulletin with the previous active one
+ *
+ * A cancelled bulletin clears every area of the previous one.
+ */
+export function diffTsunamiAreas(previous: JMATsunami, current: JMATsunami): TsunamiAreaChange[] {
+  const before = new Map<string, string>(
+    (previous.areas ?? []).map((area) => [area.name, area.grade])
+  );
+  const after = new Map<string, string>(
+    (current.cancelled ? [] : (current.areas ?? [])).map((area) => [area.name, area.grade])
+  );
+  const changes: TsunamiAreaChange[] = [];
+
+  after.forEach((to, name) => {
+    const from = before.get(name);
+    if (from === undefined) {
+      changes.push({ kind: 'added', name, to });
+    } else if (gradeRank(to) > gradeRank(from)) {
+      changes.push({ kind: 'upgraded', name, from, to });
+    } else if (gradeRank(to) < gradeRank(from)) {
+      changes.push({ kind: 'downgraded', name, from, to });
+    }
+  });
+
+  before.forEach((from, name) => {
+    if (!after.has(name)) {
+      changes.push({ kind: 'cleared', name, from });
+    }
+  });
+
+  return changes;
+}
@@ -0,0 +1,88 @@
+import { describe, expect, test } from 'bun:test';
+import type { Userquake, UserquakeEvaluation } from '../services/p2pquake';
+import { UserquakeAggregator } from './userquake';
+
+const WINDOW_MS = 60_000;
+
+function createAggregator(): UserquakeAggregator {
+  return new UserquakeAggregator({ windowMs: WINDOW_MS, minConfidence: 0.9, minReports: 3 });
+}
+
+function report(area = 250): Userquake {
+  return { id: `report-${area}`, code: 561, time: '2024/01/01 16:10:05.000', area };
+}
+
+function evaluation(confidence: number): UserquakeEvaluation {
+  return {
+    id: `evaluation-${confidence}`,
+    code: 9611,
+    time: '2024/01/01 16:10:20.000',
+    count: 12,
+    confidence,
+    started_at: '2024/01/01 16:10:00.000',
+    updated_at: '2024/01/01 16:10:20.000',
+    area_confidences: {
+      '250': { confidence, count: 8, display: 'A' },
+      '275': { confidence, count: 4, display: 'B' },
+    },
+  };
+}
+
+describe('UserquakeAggregator', () => {
+  test('holds back report alerts while the evaluation is below the confidence threshold', () => {
+    const aggregator = createAggregator();
+
+    expect(aggregator.addEvaluation(evaluation(0.89), 0)).toBeUndefined();
+    expect([1, 2, 3, 4].map((second) => aggregator.addReport(report(), second * 1000))).toEqual([
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+    ]);
+  });
+
+  test('alerts on reports once the latest evaluation reaches the threshold', () => {
+    const aggregator = createAggregator();
+
+    aggregator.addReport(report(250), 1000);
+    aggregator.addReport(report(275), 2000);
+    aggregator.noteEvaluation(evaluation(0.9), 2500);
+
+    expect(aggregator.addReport(report(250), 3000)).toEqual({
+      source: 561,
+      count: 3,
+      confidence: 0.9,
+      areas: [
+        { area: 250, count: 2 },
+        { area: 275, count: 1 },
+      ],
+    });
+    // One alert per burst
+    expect(aggregator.addReport(report(250), 4000)).toBeUndefined();
+  });
+
+  test('ignores evaluations older than the window', () => {
+    const aggregator = createAggregator();
+
+    aggregator.noteEvaluation(evaluation(0.95), 0);
+    const alerts = [1, 2, 3].map((second) => aggregator.addReport(report(), WINDOW_MS + second));
+
+    expect(alerts).toEqual([undefined, undefined, undefined]);
+  });
+
+  test('alerts on an evaluation reaching the threshold once per burst', () => {
+    const aggregator = createAggregator();
+
+    expect(aggregator.addEvaluation(evaluation(0.5), 0)).toBeUndefined();
+    expect(aggregator.addEvaluation(evaluation(0.92), 1000)).toEqual({
+      source: 9611,
+      count: 12,
+      confidence: 0.92,
+      areas: [
+        { area: 250, count: 8 },
+        { area: 275, count: 4 },
+      ],
+    });
+    expect(aggregator.addEvaluation(evaluation(0.97), WINDOW_MS * 2)).toBeUndefined();
+  });
+});
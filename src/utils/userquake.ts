@@ -0,0 +1,150 @@
+import type { Userquake, UserquakeEvaluation } from '../services/p2pquake';
+
+// Number of evaluated bursts remembered to avoid alerting twice
+const MAX_TRACKED_EVALUATIONS = 100;
+
+export interface UserquakeAggregatorOptions {
+  // Reports and evaluations older than this no longer count, and alerts are at least this far apart
+  windowMs: number;
+  // Minimum confidence of an evaluation (9611) to alert, also from reports
+  minConfidence: number;
+  // Minimum number of reports (561) within the window to alert
+  minReports: number;
+}
+
+/**
+ * A "people are feeling something" heads-up
+ */
+export interface UserquakeAlert {
+  // Code of the payload that crossed the threshold
+  source: 561 | 9611;
+  count: number;
+  // Confidence of P2PQuake's latest evaluation of the burst (9611)
+  confidence?: number;
+  // P2PQuake area codes with the number of reports, most reports first
+  areas: { area: number; count: number }[];
+}
+
+/**
+ * Alert about a burst of reports that P2PQuake evaluated (9611)
+ */
+export function getEvaluationAlert(evaluation: UserquakeEvaluation): UserquakeAlert {
+  return {
+    source: 9611,
+    count: evaluation.count,
+    confidence: evaluation.confidence,
+    areas: Object.entries(evaluation.area_confidences ?? {})
+      .map(([area, value]) => ({ area: Number(area), count: value.count }))
+      .sort((a, b) => b.count - a.count),
+  };
+}
+
+/**
+ * Aggregate user reports (561) and their evaluations (9611) into alerts
+ *
+ * Reports are counted over a sliding window and alert only once the latest
+ * evaluation within the window is confident enough; evaluations alert once per
+ * burst when their confidence crosses the threshold. After an alert, further
+ * alerts are held back for one window so a burst is announced only once.
+ */
+export class UserquakeAggregator {
+  private options: UserquakeAggregatorOptions;
+  private reports: { area: number; receivedAt: number }[] = [];
+  private evaluatedBursts = new Set<string>();
+  private latestEvaluation?: { confidence: number; receivedAt: number };
+  private quietUntil = 0;
+
+  constructor(options: UserquakeAggregatorOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Add a user report; returns an alert when the window holds enough reports
+   * and the latest evaluation is confident enough
+   */
+  addReport(report: Userquake, now: number = Date.now()): UserquakeAlert | undefined {
+    this.reports = this.reports.filter((entry) => now - entry.receivedAt <= this.options.windowMs);
+    this.reports.push({ area: report.area, receivedAt: now });
+
+    const confidence = this.getConfidence(now);
+    if (
+      this.reports.length < this.options.minReports ||
+      confidence === undefined ||
+      confidence < this.options.minConfidence ||
+      now < this.quietUntil
+    ) {
+      return undefined;
+    }
+
+    this.quietUntil = now + this.options.windowMs;
+
+    const counts = new Map<number, number>();
+    this.reports.forEach((entry) => counts.set(entry.area, (counts.get(entry.area) ?? 0) + 1));
+
+    return {
+      source: 561,
+      count: this.reports.length,
+      confidence,
+      areas: Array.from(counts, ([area, count]) => ({ area, count })).sort(
+        (a, b) => b.count - a.count
+      ),
+    };
+  }
+
+  /**
+   * Note the confidence of an evaluation for the report alerts, without alerting
+   */
+  noteEvaluation(evaluation: UserquakeEvaluation, now: number = Date.now()): void {
+    this.latestEvaluation = { confidence: evaluation.confidence, receivedAt: now };
+  }
+
+  /**
+   * Add an evaluation; returns an alert when its confidence first crosses the threshold
+   */
+  addEvaluation(
+    evaluation: UserquakeEvaluation,
+    now: number = Date.now()
+  ): UserquakeAlert | undefined {
+    this.noteEvaluation(evaluation, now);
+
+    if (
+      evaluation.confidence < this.options.minConfidence ||
+      this.evaluatedBursts.has(evaluation.started_at)
+    ) {
+      return undefined;
+    }
+
+    this.trackBurst(evaluation.started_at);
+
+    // The same burst may already have been announced from its reports
+    if (now < this.quietUntil) {
+      return undefined;
+    }
+    this.quietUntil = now + this.options.windowMs;
+
+    return getEvaluationAlert(evaluation);
+  }
+
+  /**
+   * Confidence of the latest evaluation within the window
+   */
+  private getConfidence(now: number): number | undefined {
+    if (!this.latestEvaluation || now - this.latestEvaluation.receivedAt > this.options.windowMs) {
+      return undefined;
+    }
+    return this.latestEvaluation.confidence;
+  }
+
+  private trackBurst(startedAt: string): void {
+    this.evaluatedBursts.add(startedAt);
+
+    // Drop the oldest bursts (Set keeps insertion order)
+    while (this.evaluatedBursts.size > MAX_TRACKED_EVALUATIONS) {
+      const oldest = this.evaluatedBursts.values().next().value;
+      if (oldest === undefined) {
+        break;
+      }
+      this.evaluatedBursts.delete(oldest);
+    }
+  }
+}